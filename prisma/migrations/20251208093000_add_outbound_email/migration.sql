@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "EmailDirection" AS ENUM ('INBOUND', 'OUTBOUND');
+
+-- AlterEnum
+ALTER TYPE "EmailStatus" ADD VALUE 'SENT';
+
+-- AlterTable
+ALTER TABLE "EmailMessage" ADD COLUMN     "direction" "EmailDirection" NOT NULL DEFAULT 'INBOUND',
+ADD COLUMN     "error" TEXT,
+ADD COLUMN     "rfpId" TEXT,
+ADD COLUMN     "sentAt" TIMESTAMP(3),
+ADD COLUMN     "vendorId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "EmailMessage" ADD CONSTRAINT "EmailMessage_rfpId_fkey" FOREIGN KEY ("rfpId") REFERENCES "Rfp"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmailMessage" ADD CONSTRAINT "EmailMessage_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE SET NULL ON UPDATE CASCADE;
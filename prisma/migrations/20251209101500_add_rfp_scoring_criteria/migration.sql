@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Rfp" ADD COLUMN     "scoringCriteria" JSONB;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ProposalLineItem" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "rfpItemIndex" INTEGER,
+    "description" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION,
+    "unitPrice" DOUBLE PRECISION,
+    "totalPrice" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProposalLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProposalLineItem_proposalId_idx" ON "ProposalLineItem"("proposalId");
+
+-- AddForeignKey
+ALTER TABLE "ProposalLineItem" ADD CONSTRAINT "ProposalLineItem_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "Proposal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
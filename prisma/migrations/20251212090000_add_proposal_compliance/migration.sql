@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "ComplianceStatus" AS ENUM ('PASS', 'FAIL', 'UNKNOWN');
+
+-- AlterTable
+ALTER TABLE "Proposal" ADD COLUMN     "complianceCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "complianceChecks" JSONB,
+ADD COLUMN     "complianceStatus" "ComplianceStatus";
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Proposal" ADD COLUMN     "fieldConfidence" JSONB,
+ADD COLUMN     "lowConfidenceFields" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Rfp" ADD COLUMN     "fieldConfidence" JSONB,
+ADD COLUMN     "lowConfidenceFields" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ProposalReviewStatus" AS ENUM ('DRAFT_PARSED', 'REVIEWED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "Proposal" ADD COLUMN     "aiSnapshot" JSONB,
+ADD COLUMN     "reviewNote" TEXT,
+ADD COLUMN     "reviewStatus" "ProposalReviewStatus" NOT NULL DEFAULT 'DRAFT_PARSED',
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedBy" TEXT;
+
+-- Manually entered proposals were never AI-parsed
+UPDATE "Proposal" SET "reviewStatus" = 'REVIEWED' WHERE "source" = 'MANUAL';
+
+-- CreateTable
+CREATE TABLE "ProposalEdit" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "aiValue" JSONB,
+    "previousValue" JSONB,
+    "newValue" JSONB,
+    "editedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProposalEdit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProposalEdit_proposalId_idx" ON "ProposalEdit"("proposalId");
+
+-- AddForeignKey
+ALTER TABLE "ProposalEdit" ADD CONSTRAINT "ProposalEdit_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "Proposal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "EmailMessage" ADD COLUMN     "inReplyTo" TEXT,
+ADD COLUMN     "references" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Proposal" ADD COLUMN     "isLatest" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "previousRevisionId" TEXT,
+ADD COLUMN     "revision" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "threadId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Proposal_previousRevisionId_key" ON "Proposal"("previousRevisionId");
+
+-- CreateIndex
+CREATE INDEX "Proposal_rfpId_vendorId_isLatest_idx" ON "Proposal"("rfpId", "vendorId", "isLatest");
+
+-- AddForeignKey
+ALTER TABLE "Proposal" ADD CONSTRAINT "Proposal_previousRevisionId_fkey" FOREIGN KEY ("previousRevisionId") REFERENCES "Proposal"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "AttachmentKind" AS ENUM ('PDF', 'SPREADSHEET', 'CSV', 'TEXT', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "EmailAttachment" (
+    "id" TEXT NOT NULL,
+    "emailId" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "contentType" TEXT,
+    "size" INTEGER,
+    "content" BYTEA,
+    "url" TEXT,
+    "kind" "AttachmentKind" NOT NULL DEFAULT 'OTHER',
+    "extractedText" TEXT,
+    "sheetLineItems" JSONB,
+    "extractedAt" TIMESTAMP(3),
+    "extractionError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmailAttachment_emailId_idx" ON "EmailAttachment"("emailId");
+
+-- AddForeignKey
+ALTER TABLE "EmailAttachment" ADD CONSTRAINT "EmailAttachment_emailId_fkey" FOREIGN KEY ("emailId") REFERENCES "EmailMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "EmailMessage" ADD COLUMN     "dkimResult" TEXT,
+ADD COLUMN     "inboundProvider" TEXT,
+ADD COLUMN     "spfResult" TEXT,
+ADD COLUMN     "verification" TEXT;
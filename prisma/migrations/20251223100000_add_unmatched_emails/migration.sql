@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "EmailStatus" ADD VALUE 'UNMATCHED';
+
+-- AlterTable
+ALTER TABLE "EmailMessage" ADD COLUMN     "suggestions" JSONB,
+ADD COLUMN     "unmatchedReason" TEXT;
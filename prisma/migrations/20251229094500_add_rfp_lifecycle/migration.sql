@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "RfpStatus" AS ENUM ('DRAFT', 'PUBLISHED', 'CLOSED', 'AWARDED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "LateProposalPolicy" AS ENUM ('FLAG', 'REJECT');
+
+-- AlterTable
+ALTER TABLE "Rfp" ADD COLUMN     "cancelReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "closedAt" TIMESTAMP(3),
+ADD COLUMN     "latePolicy" "LateProposalPolicy" NOT NULL DEFAULT 'FLAG',
+ADD COLUMN     "publishedAt" TIMESTAMP(3),
+ADD COLUMN     "status" "RfpStatus" NOT NULL DEFAULT 'DRAFT',
+ADD COLUMN     "submissionDeadline" TIMESTAMP(3);
+
+-- RFPs created before the lifecycle existed were already in use
+UPDATE "Rfp" SET "status" = 'PUBLISHED', "publishedAt" = "createdAt";
+
+-- AlterTable
+ALTER TABLE "Proposal" ADD COLUMN     "isLate" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "RfpAward" (
+    "id" TEXT NOT NULL,
+    "rfpId" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "justification" TEXT NOT NULL,
+    "awardedBy" TEXT NOT NULL,
+    "evidence" JSONB NOT NULL,
+    "overridesRanking" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RfpAward_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RfpAward_rfpId_key" ON "RfpAward"("rfpId");
+
+-- AddForeignKey
+ALTER TABLE "RfpAward" ADD CONSTRAINT "RfpAward_rfpId_fkey" FOREIGN KEY ("rfpId") REFERENCES "Rfp"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RfpAward" ADD CONSTRAINT "RfpAward_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "Proposal"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
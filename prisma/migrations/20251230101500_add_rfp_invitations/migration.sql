@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "InvitationStatus" AS ENUM ('INVITED', 'ACKNOWLEDGED', 'DECLINED', 'RESPONDED', 'NO_RESPONSE');
+
+-- AlterTable
+ALTER TABLE "EmailMessage" ADD COLUMN     "uninvitedVendor" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "RfpInvitation" (
+    "id" TEXT NOT NULL,
+    "rfpId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "status" "InvitationStatus" NOT NULL DEFAULT 'INVITED',
+    "invitedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acknowledgedAt" TIMESTAMP(3),
+    "declinedAt" TIMESTAMP(3),
+    "declineReason" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "emailId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RfpInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RfpInvitation_rfpId_vendorId_key" ON "RfpInvitation"("rfpId", "vendorId");
+
+-- AddForeignKey
+ALTER TABLE "RfpInvitation" ADD CONSTRAINT "RfpInvitation_rfpId_fkey" FOREIGN KEY ("rfpId") REFERENCES "Rfp"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RfpInvitation" ADD CONSTRAINT "RfpInvitation_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: vendors an RFP was already emailed to count as invited;
+-- those with a proposal have responded
+INSERT INTO "RfpInvitation" ("id", "rfpId", "vendorId", "status", "invitedAt", "respondedAt", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    e."rfpId",
+    e."vendorId",
+    CASE WHEN MIN(p."createdAt") IS NULL THEN 'INVITED' ELSE 'RESPONDED' END::"InvitationStatus",
+    COALESCE(MIN(e."sentAt"), MIN(e."createdAt")),
+    MIN(p."createdAt"),
+    CURRENT_TIMESTAMP
+FROM "EmailMessage" e
+LEFT JOIN "Proposal" p ON p."rfpId" = e."rfpId" AND p."vendorId" = e."vendorId"
+WHERE e."direction" = 'OUTBOUND' AND e."status" = 'SENT'
+  AND e."rfpId" IS NOT NULL AND e."vendorId" IS NOT NULL
+GROUP BY e."rfpId", e."vendorId";
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "ReminderKind" AS ENUM ('DEADLINE', 'CLARIFICATION');
+
+-- CreateEnum
+CREATE TYPE "ReminderStatus" AS ENUM ('PENDING', 'SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Rfp" ADD COLUMN     "clarificationFields" TEXT[] DEFAULT ARRAY['deliveryDays', 'warrantyMonths']::TEXT[],
+ADD COLUMN     "reminderOffsetsHours" INTEGER[] DEFAULT ARRAY[72, 24]::INTEGER[],
+ADD COLUMN     "remindersEnabled" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "Reminder" (
+    "id" TEXT NOT NULL,
+    "rfpId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "kind" "ReminderKind" NOT NULL,
+    "offsetHours" INTEGER,
+    "proposalId" TEXT,
+    "missingFields" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "dedupeKey" TEXT NOT NULL,
+    "status" "ReminderStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "emailId" TEXT,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Reminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Reminder_dedupeKey_key" ON "Reminder"("dedupeKey");
+
+-- CreateIndex
+CREATE INDEX "Reminder_rfpId_createdAt_idx" ON "Reminder"("rfpId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Reminder" ADD CONSTRAINT "Reminder_rfpId_fkey" FOREIGN KEY ("rfpId") REFERENCES "Rfp"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reminder" ADD CONSTRAINT "Reminder_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
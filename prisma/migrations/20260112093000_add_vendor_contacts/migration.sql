@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Vendor" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "mergedIntoId" TEXT,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "VendorContact" (
+    "id" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "role" TEXT,
+    "isPrimary" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VendorContact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VendorContact_email_key" ON "VendorContact"("email");
+
+-- CreateIndex
+CREATE INDEX "VendorContact_vendorId_idx" ON "VendorContact"("vendorId");
+
+-- AddForeignKey
+ALTER TABLE "VendorContact" ADD CONSTRAINT "VendorContact_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing vendors' email becomes their primary contact
+INSERT INTO "VendorContact" ("id", "vendorId", "email", "name", "isPrimary")
+SELECT gen_random_uuid()::text, "id", LOWER("email"), "contactPerson", true
+FROM "Vendor"
+ON CONFLICT ("email") DO NOTHING;
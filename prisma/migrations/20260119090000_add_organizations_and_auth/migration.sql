@@ -0,0 +1,115 @@
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('ADMIN', 'BUYER', 'EVALUATOR', 'VIEWER');
+
+-- CreateTable
+CREATE TABLE "Organization" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "inboundEmail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Organization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "passwordHash" TEXT NOT NULL,
+    "role" "UserRole" NOT NULL DEFAULT 'VIEWER',
+    "disabledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApiToken" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "name" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApiToken_pkey" PRIMARY KEY ("id")
+);
+
+-- Everything created before tenants existed belongs to one organization;
+-- its first admin claims it through POST /auth/signup
+INSERT INTO "Organization" ("id", "name", "slug") VALUES ('default', 'Default', 'default');
+
+-- AlterTable
+ALTER TABLE "Rfp" ADD COLUMN     "organizationId" TEXT;
+UPDATE "Rfp" SET "organizationId" = 'default';
+ALTER TABLE "Rfp" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Vendor" ADD COLUMN     "organizationId" TEXT;
+UPDATE "Vendor" SET "organizationId" = 'default';
+ALTER TABLE "Vendor" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "VendorContact" ADD COLUMN     "organizationId" TEXT;
+UPDATE "VendorContact" SET "organizationId" = 'default';
+ALTER TABLE "VendorContact" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "EmailMessage" ADD COLUMN     "organizationId" TEXT;
+UPDATE "EmailMessage" SET "organizationId" = 'default';
+
+-- DropIndex
+DROP INDEX "Vendor_email_key";
+
+-- DropIndex
+DROP INDEX "VendorContact_email_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Organization_slug_key" ON "Organization"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Organization_inboundEmail_key" ON "Organization"("inboundEmail");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE INDEX "User_organizationId_idx" ON "User"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiToken_tokenHash_key" ON "ApiToken"("tokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Vendor_organizationId_email_key" ON "Vendor"("organizationId", "email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VendorContact_organizationId_email_key" ON "VendorContact"("organizationId", "email");
+
+-- CreateIndex
+CREATE INDEX "Rfp_organizationId_idx" ON "Rfp"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "EmailMessage_organizationId_status_idx" ON "EmailMessage"("organizationId", "status");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApiToken" ADD CONSTRAINT "ApiToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Vendor" ADD CONSTRAINT "Vendor_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VendorContact" ADD CONSTRAINT "VendorContact_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Rfp" ADD CONSTRAINT "Rfp_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmailMessage" ADD CONSTRAINT "EmailMessage_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'EVALUATION';
+
+-- AlterTable
+ALTER TABLE "Rfp" ADD COLUMN     "blindEvaluation" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "Evaluation" (
+    "id" TEXT NOT NULL,
+    "rfpId" TEXT NOT NULL,
+    "evaluatorId" TEXT NOT NULL,
+    "submittedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Evaluation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EvaluationScore" (
+    "id" TEXT NOT NULL,
+    "evaluationId" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "criterionKey" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EvaluationScore_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Evaluation_rfpId_evaluatorId_key" ON "Evaluation"("rfpId", "evaluatorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EvaluationScore_evaluationId_proposalId_criterionKey_key" ON "EvaluationScore"("evaluationId", "proposalId", "criterionKey");
+
+-- CreateIndex
+CREATE INDEX "EvaluationScore_proposalId_idx" ON "EvaluationScore"("proposalId");
+
+-- AddForeignKey
+ALTER TABLE "Evaluation" ADD CONSTRAINT "Evaluation_rfpId_fkey" FOREIGN KEY ("rfpId") REFERENCES "Rfp"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Evaluation" ADD CONSTRAINT "Evaluation_evaluatorId_fkey" FOREIGN KEY ("evaluatorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EvaluationScore" ADD CONSTRAINT "EvaluationScore_evaluationId_fkey" FOREIGN KEY ("evaluationId") REFERENCES "Evaluation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EvaluationScore" ADD CONSTRAINT "EvaluationScore_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "Proposal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- DropIndex
+DROP INDEX "EmailMessage_messageId_key";
+
+-- DropIndex
+DROP INDEX "FxRate_baseCurrency_quoteCurrency_asOf_key";
+
+-- AlterTable
+ALTER TABLE "FxRate" ADD COLUMN     "organizationId" TEXT;
+
+-- Rates were shared by everyone: each organization starts with a copy
+INSERT INTO "FxRate" ("id", "organizationId", "baseCurrency", "quoteCurrency", "rate", "asOf", "source", "createdAt", "updatedAt")
+SELECT r."id" || '-' || o."id", o."id", r."baseCurrency", r."quoteCurrency", r."rate", r."asOf", r."source", r."createdAt", r."updatedAt"
+FROM "FxRate" r CROSS JOIN "Organization" o
+WHERE r."organizationId" IS NULL;
+DELETE FROM "FxRate" WHERE "organizationId" IS NULL;
+ALTER TABLE "FxRate" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailMessage_organizationId_messageId_key" ON "EmailMessage"("organizationId", "messageId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FxRate_organizationId_baseCurrency_quoteCurrency_asOf_key" ON "FxRate"("organizationId", "baseCurrency", "quoteCurrency", "asOf");
+
+-- AddForeignKey
+ALTER TABLE "FxRate" ADD CONSTRAINT "FxRate_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
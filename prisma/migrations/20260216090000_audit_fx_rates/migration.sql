@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'FX_RATE';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Evaluation" ADD COLUMN     "rescoreRequestedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "EvaluationScore" ADD COLUMN     "carriedFromProposalId" TEXT;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ComparisonNarrative" (
+    "id" TEXT NOT NULL,
+    "rfpId" TEXT NOT NULL,
+    "inputHash" TEXT NOT NULL,
+    "narrative" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ComparisonNarrative_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ComparisonNarrative_rfpId_inputHash_key" ON "ComparisonNarrative"("rfpId", "inputHash");
+
+-- AddForeignKey
+ALTER TABLE "ComparisonNarrative" ADD CONSTRAINT "ComparisonNarrative_rfpId_fkey" FOREIGN KEY ("rfpId") REFERENCES "Rfp"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- Keep only the newest latest revision per vendor and RFP: concurrent
+-- first proposals could both be recorded before this index existed
+UPDATE "Proposal" p SET "isLatest" = false
+WHERE p."isLatest"
+  AND EXISTS (
+    SELECT 1 FROM "Proposal" q
+    WHERE q."rfpId" = p."rfpId"
+      AND q."vendorId" = p."vendorId"
+      AND q."isLatest"
+      AND (q."createdAt", q."id") > (p."createdAt", p."id")
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Proposal_rfpId_vendorId_latest_key" ON "Proposal"("rfpId", "vendorId") WHERE "isLatest";
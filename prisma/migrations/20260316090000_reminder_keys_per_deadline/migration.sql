@@ -0,0 +1,7 @@
+-- Deadline reminder keys now name the deadline they were sent for
+-- (dueAt + offsetHours), as deadlineReminderKey in reminders.ts writes them
+UPDATE "Reminder"
+SET "dedupeKey" = 'deadline:' || "rfpId" || ':' || "vendorId" || ':' ||
+    to_char("dueAt" + make_interval(hours => "offsetHours"), 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"') ||
+    ':' || "offsetHours"
+WHERE "kind" = 'DEADLINE' AND "offsetHours" IS NOT NULL;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "EvaluationScore" ADD COLUMN     "submittedScore" DOUBLE PRECISION;
+
+-- Scores of submitted and reopened evaluations are the last submitted ones
+UPDATE "EvaluationScore" s SET "submittedScore" = s."score"
+FROM "Evaluation" e
+WHERE e."id" = s."evaluationId"
+  AND (e."submittedAt" IS NOT NULL OR e."rescoreRequestedAt" IS NOT NULL);
@@ -1,5 +1,23 @@
 import "dotenv/config";
 import { Rfp, Vendor } from ".prisma/client";
+import { matchRfpItemIndex, specForRfp } from "./utils/rfpSpec";
+import { callLlmForJson } from "./llm/registry";
+import { LlmJsonRequest } from "./llm/provider";
+import {
+  FieldConfidence,
+  ValidationResult,
+  validateProposalJson,
+  validateRecommendationJson,
+  validateRfpSpecJson,
+} from "./llm/validation";
+
+export interface ParsedProposalLineItem {
+  rfpItemIndex: number | null;
+  description: string;
+  quantity: number | null;
+  unitPrice: number | null;
+  totalPrice: number | null;
+}
 
 export interface ParsedProposalSpec {
   totalPrice: number | null;
@@ -8,6 +26,7 @@ export interface ParsedProposalSpec {
   warrantyMonths: number | null;
   terms: string | null;
   notes: string | null;
+  lineItems: ParsedProposalLineItem[];
 }
 
 export interface RfpStructuredSpec {
@@ -24,138 +43,133 @@ export interface RfpStructuredSpec {
   minimumWarrantyMonths: number | null;
 }
 
+// Parsed value plus how much each field can be trusted
+export interface AiExtraction<T> {
+  value: T;
+  fieldConfidence: Record<string, FieldConfidence>;
+  lowConfidenceFields: string[]; // need a buyer's review before use
+  provider: string;
+  model: string;
+  // which revision of our prompt produced it (see *_PROMPT_VERSION)
+  promptVersion: string;
+  repairAttempts: number;
+}
+
 /* ---------------------------------------------------
  * Shared helpers
  * --------------------------------------------------*/
 
-function cleanModelJson(raw: string): string {
-  return raw
-    .trim()
-    .replace(/^```json/i, "")
-    .replace(/^```/, "")
-    .replace(/```$/, "")
-    .trim();
-}
-
-// Low-level: talk to Gemini, return raw JSON string
-async function callGeminiJson(
-  systemPrompt: string,
-  userPrompt: string
-): Promise<string> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error("GEMINI_API_KEY is not set");
-  }
-
-  const url =
-    "https://generativelanguage.googleapis.com/v1/models/gemini-2.5-flash:generateContent";
-
-  const body = {
-    contents: [
-      {
-        parts: [
-          { text: systemPrompt },
-          { text: userPrompt },
-        ],
-      },
-    ],
-    generationConfig: {
-      temperature: 0,
-    },
-  };
-
-  const resp = await fetch(`${url}?key=${apiKey}`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!resp.ok) {
-    const text = await resp.text();
-    throw new Error(
-      `Gemini error: ${resp.status} ${resp.statusText} - ${text}`
-    );
-  }
+const MAX_REPAIR_ATTEMPTS = Number(process.env.LLM_REPAIR_ATTEMPTS || 2);
+const CONFIDENCE_THRESHOLD = Number(process.env.LLM_CONFIDENCE_THRESHOLD || 0.6);
+// Values read from structured price-sheet columns rather than free text
+const SHEET_CONFIDENCE = 0.9;
+// Used when the model returns a value but no confidence for it
+const UNREPORTED_CONFIDENCE = 0.5;
+
+const CONFIDENCE_INSTRUCTIONS = `
+Also include "fieldConfidence": for every top-level field you filled in
+(non-null), an entry { "confidence": number 0-1, "source": string | null }
+where source is the exact short snippet of the input the value came from.
+`;
 
-  const data: any = await resp.json();
+function buildRepairPrompt(
+  originalPrompt: string,
+  badOutput: string,
+  errors: string[]
+): string {
+  return `
+${originalPrompt}
 
-  const text =
-    data.candidates?.[0]?.content?.parts
-      ?.map((p: any) => p.text)
-      .join("\n") ?? "";
+Your previous response was invalid:
+${errors.map(e => `- ${e}`).join("\n")}
 
-  if (!text) {
-    throw new Error("Gemini returned empty content");
-  }
+Previous response:
+${badOutput}
 
-  return cleanModelJson(text);
+Return the corrected JSON only, with the exact shape described.
+`.trim();
 }
 
-// Low-level: talk to Groq, return raw JSON string
-async function callGroqJson(
-  systemPrompt: string,
-  userPrompt: string
-): Promise<string> {
-  const apiKey = process.env.GROQ_API_KEY;
-  if (!apiKey) {
-    throw new Error("GROQ_API_KEY is not set");
-  }
-
-  const url = "https://api.groq.com/openai/v1/chat/completions";
-
-  const body = {
-    model: "llama-3.1-8b-instant",
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userPrompt },
-    ],
-    temperature: 0,
-  };
-
-  const resp = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!resp.ok) {
-    const text = await resp.text();
-    throw new Error(`Groq error: ${resp.status} ${resp.statusText} - ${text}`);
-  }
+// Calls the model and validates its output; on invalid output asks the
+// model to repair it, up to MAX_REPAIR_ATTEMPTS times.
+async function extractWithRepair<T>(
+  req: LlmJsonRequest,
+  validate: (raw: unknown) => ValidationResult<T>,
+  promptVersion: string
+) {
+  let userPrompt = req.userPrompt;
+  let lastErrors: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const result = await callLlmForJson({ ...req, userPrompt });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(result.json);
+    } catch (err) {
+      lastErrors = ["Response is not valid JSON"];
+    }
 
-  const data: any = await resp.json();
-  const content = data.choices?.[0]?.message?.content;
+    if (parsed !== undefined) {
+      const validated = validate(parsed);
+      if (validated.ok) {
+        return {
+          value: validated.value,
+          fieldConfidence: validated.fieldConfidence,
+          provider: result.provider,
+          model: result.model,
+          promptVersion,
+          repairAttempts: attempt,
+        };
+      }
+      lastErrors = validated.errors;
+    }
 
-  if (!content) {
-    throw new Error("Groq returned empty content");
+    console.error(
+      `Invalid ${req.task.kind} output from ${result.provider} (attempt ${attempt + 1}):`,
+      lastErrors
+    );
+    userPrompt = buildRepairPrompt(req.userPrompt, result.json, lastErrors);
   }
 
-  return cleanModelJson(content);
+  throw new Error(
+    `AI output for ${req.task.kind} failed validation after ${MAX_REPAIR_ATTEMPTS} repair attempts: ${lastErrors.join("; ")}`
+  );
 }
 
-// Generic helper: try Gemini first, then Groq
-async function callGeminiOrGroqForJson(
-  systemPrompt: string,
-  userPrompt: string
-): Promise<string> {
-  try {
-    return await callGeminiJson(systemPrompt, userPrompt);
-  } catch (err) {
-    console.error("Gemini failed, falling back to Groq:", err);
+// Fills in a confidence for every non-empty field and lists the ones below
+// the review threshold. Empty fields have nothing to review.
+function scoreConfidence(
+  value: Record<string, unknown>,
+  reported: Record<string, FieldConfidence>
+) {
+  const fieldConfidence: Record<string, FieldConfidence> = {};
+  const lowConfidenceFields: string[] = [];
+
+  for (const [field, v] of Object.entries(value)) {
+    if (v === null || (Array.isArray(v) && v.length === 0)) continue;
+
+    const entry = reported[field] ?? {
+      confidence: UNREPORTED_CONFIDENCE,
+      source: null,
+    };
+    fieldConfidence[field] = entry;
+    if (entry.confidence < CONFIDENCE_THRESHOLD) {
+      lowConfidenceFields.push(field);
+    }
   }
 
-  return await callGroqJson(systemPrompt, userPrompt);
+  return { fieldConfidence, lowConfidenceFields };
 }
 
 /* ---------------------------------------------------
  * RFP: from free-text → structured spec
  * --------------------------------------------------*/
 
+// Bump when the prompt's wording or JSON shape changes, so extractions
+// can be traced back to the prompt that produced them
+const RFP_PROMPT_VERSION = "rfp-spec/1";
+
 const RFP_SYSTEM_INSTRUCTIONS = `
 You are an assistant that converts free-text procurement requests into a structured JSON RFP spec.
 
@@ -175,9 +189,12 @@ JSON shape:
   "currency": string | null,
   "deliveryDeadlineDaysFromNow": number | null,
   "paymentTerms": string | null,
-  "minimumWarrantyMonths": number | null
+  "minimumWarrantyMonths": number | null,
+  "fieldConfidence": { [field: string]: { "confidence": number, "source": string | null } }
 }
-`;
+
+Every item needs a positive numeric quantity.
+${CONFIDENCE_INSTRUCTIONS}`;
 
 function buildRfpUserPrompt(naturalLanguageInput: string): string {
   return `
@@ -192,61 +209,30 @@ Extract as JSON with the exact shape described. Use null when information is mis
 
 export async function generateRfpSpecFromText(
   naturalLanguageInput: string
-): Promise<RfpStructuredSpec> {
-  const jsonString = await callGeminiOrGroqForJson(
-    RFP_SYSTEM_INSTRUCTIONS,
-    buildRfpUserPrompt(naturalLanguageInput)
+): Promise<AiExtraction<RfpStructuredSpec>> {
+  const extracted = await extractWithRepair(
+    {
+      systemPrompt: RFP_SYSTEM_INSTRUCTIONS,
+      userPrompt: buildRfpUserPrompt(naturalLanguageInput),
+      task: { kind: "rfpSpec", text: naturalLanguageInput },
+    },
+    validateRfpSpecJson,
+    RFP_PROMPT_VERSION
   );
 
-  let parsed: any;
-  try {
-    parsed = JSON.parse(jsonString);
-  } catch (err) {
-    console.error("Failed to parse RFP JSON:", jsonString);
-    throw new Error("Failed to parse AI response as JSON for RFP");
-  }
-
-  // Light validation / coercion
-  const spec: RfpStructuredSpec = {
-    title: typeof parsed.title === "string" ? parsed.title : "Untitled RFP",
-    items: Array.isArray(parsed.items)
-      ? parsed.items.map((item: any) => ({
-          name: typeof item.name === "string" ? item.name : "Item",
-          quantity:
-            typeof item.quantity === "number" && !Number.isNaN(item.quantity)
-              ? item.quantity
-              : 1,
-          keySpecs: Array.isArray(item.keySpecs)
-            ? item.keySpecs.filter((s: any) => typeof s === "string")
-            : [],
-        }))
-      : [],
-    budget:
-      typeof parsed.budget === "number" && !Number.isNaN(parsed.budget)
-        ? parsed.budget
-        : null,
-    currency: typeof parsed.currency === "string" ? parsed.currency : null,
-    deliveryDeadlineDaysFromNow:
-      typeof parsed.deliveryDeadlineDaysFromNow === "number" &&
-      !Number.isNaN(parsed.deliveryDeadlineDaysFromNow)
-        ? parsed.deliveryDeadlineDaysFromNow
-        : null,
-    paymentTerms:
-      typeof parsed.paymentTerms === "string" ? parsed.paymentTerms : null,
-    minimumWarrantyMonths:
-      typeof parsed.minimumWarrantyMonths === "number" &&
-      !Number.isNaN(parsed.minimumWarrantyMonths)
-        ? parsed.minimumWarrantyMonths
-        : null,
+  return {
+    ...extracted,
+    ...scoreConfidence({ ...extracted.value }, extracted.fieldConfidence),
   };
-
-  return spec;
 }
 
 /* ---------------------------------------------------
  * Proposal: from vendor text → structured proposal spec
  * --------------------------------------------------*/
 
+// See RFP_PROMPT_VERSION
+const PROPOSAL_PROMPT_VERSION = "proposal/1";
+
 const PROPOSAL_SYSTEM_PROMPT = `
 You are an assistant that extracts structured commercial proposal details from unstructured vendor emails or text.
 
@@ -259,7 +245,17 @@ JSON shape:
   "deliveryDays": number | null,
   "warrantyMonths": number | null,
   "terms": string | null,
-  "notes": string | null
+  "notes": string | null,
+  "lineItems": [
+    {
+      "rfpItemIndex": number | null,
+      "description": string,
+      "quantity": number | null,
+      "unitPrice": number | null,
+      "totalPrice": number | null
+    }
+  ],
+  "fieldConfidence": { [field: string]: { "confidence": number, "source": string | null } }
 }
 
 Rules:
@@ -269,22 +265,61 @@ Rules:
 - warrantyMonths is the number of months of warranty.
 - terms is short text like "Net-30", "Advance 50%".
 - notes can include extra comments like support, services, etc.
-`;
+- lineItems has one entry per item the vendor priced. rfpItemIndex is the
+  index of the matching RFP item from the list given (null if none match).
+  unitPrice and totalPrice are per line, as numbers. Use [] if the vendor
+  only quoted a lump sum.
+${CONFIDENCE_INSTRUCTIONS}`;
+
+// Maps validated line items onto the RFP's items (trust the model's index
+// when it is in range, otherwise fall back to name matching) and derives
+// whichever of unit / line total is missing.
+function mapLineItems(
+  lines: ParsedProposalLineItem[],
+  rfpItems: ReturnType<typeof specForRfp>["items"]
+): ParsedProposalLineItem[] {
+  return lines.map(li => {
+    const rfpItemIndex =
+      li.rfpItemIndex !== null && li.rfpItemIndex < rfpItems.length
+        ? li.rfpItemIndex
+        : matchRfpItemIndex(rfpItems, li.description);
+
+    let { unitPrice, totalPrice } = li;
+    if (totalPrice === null && unitPrice !== null && li.quantity !== null) {
+      totalPrice = unitPrice * li.quantity;
+    }
+    if (unitPrice === null && totalPrice !== null && li.quantity) {
+      unitPrice = totalPrice / li.quantity;
+    }
+
+    return { ...li, rfpItemIndex, unitPrice, totalPrice };
+  });
+}
 
 export async function generateProposalFromText(
   rawText: string,
   opts?: {
     rfp?: Rfp;
     vendor?: Vendor;
+    // Line items read directly from an attached price sheet; used instead
+    // of the model's, which only sees the sheet flattened to text
+    sheetLineItems?: { items: ParsedProposalLineItem[]; source: string };
   }
-): Promise<ParsedProposalSpec> {
+): Promise<AiExtraction<ParsedProposalSpec>> {
   const userContextPieces: string[] = [];
+  const rfpItems = opts?.rfp ? specForRfp(opts.rfp).items : [];
   if (opts?.rfp) {
     userContextPieces.push(
       `RFP title: ${opts.rfp.title}`,
       `RFP budget: ${opts.rfp.budget ?? "unknown"} ${opts.rfp.currency ?? ""}`
     );
   }
+  if (rfpItems.length > 0) {
+    userContextPieces.push(
+      "RFP items (index: name, quantity):",
+      ...rfpItems.map((item, i) => `${i}: ${item.name}, qty ${item.quantity}`)
+    );
+  }
   if (opts?.vendor) {
     userContextPieces.push(`Vendor: ${opts.vendor.name}`);
   }
@@ -298,38 +333,143 @@ ${rawText}
 """
 `.trim();
 
-  const jsonString = await callGeminiOrGroqForJson(
-    PROPOSAL_SYSTEM_PROMPT,
-    userPrompt
+  const extracted = await extractWithRepair(
+    {
+      systemPrompt: PROPOSAL_SYSTEM_PROMPT,
+      userPrompt,
+      task: { kind: "proposal", text: rawText, rfpItems },
+    },
+    validateProposalJson,
+    PROPOSAL_PROMPT_VERSION
   );
 
-  let parsed: any;
-  try {
-    parsed = JSON.parse(jsonString);
-  } catch (e) {
-    console.error("Failed to parse Proposal JSON:", jsonString);
-    throw new Error("Failed to parse proposal JSON from model");
-  }
+  const sheet = opts?.sheetLineItems;
+  const useSheet = !!sheet && sheet.items.length > 0;
+  const lineItems = mapLineItems(
+    useSheet ? sheet.items : extracted.value.lineItems,
+    rfpItems
+  );
 
-  const spec: ParsedProposalSpec = {
+  const value: ParsedProposalSpec = {
+    ...extracted.value,
+    // a sheet without a total row still gives us one
     totalPrice:
-      typeof parsed.totalPrice === "number" && !Number.isNaN(parsed.totalPrice)
-        ? parsed.totalPrice
-        : null,
-    currency: typeof parsed.currency === "string" ? parsed.currency : null,
-    deliveryDays:
-      typeof parsed.deliveryDays === "number" &&
-      !Number.isNaN(parsed.deliveryDays)
-        ? parsed.deliveryDays
-        : null,
-    warrantyMonths:
-      typeof parsed.warrantyMonths === "number" &&
-      !Number.isNaN(parsed.warrantyMonths)
-        ? parsed.warrantyMonths
-        : null,
-    terms: typeof parsed.terms === "string" ? parsed.terms : null,
-    notes: typeof parsed.notes === "string" ? parsed.notes : null,
+      extracted.value.totalPrice ??
+      (useSheet && lineItems.every(li => li.totalPrice !== null)
+        ? lineItems.reduce((acc, li) => acc + li.totalPrice!, 0)
+        : null),
+    lineItems,
+  };
+
+  const reported = { ...extracted.fieldConfidence };
+  if (useSheet) {
+    reported.lineItems = { confidence: SHEET_CONFIDENCE, source: sheet.source };
+    reported.totalPrice ??= { confidence: SHEET_CONFIDENCE, source: sheet.source };
+  }
+
+  return {
+    ...extracted,
+    value,
+    ...scoreConfidence({ ...value }, reported),
   };
+}
+
+/* ---------------------------------------------------
+ * Comparison report: ranked proposals → recommendation narrative
+ * --------------------------------------------------*/
+
+// See RFP_PROMPT_VERSION
+const RECOMMENDATION_PROMPT_VERSION = "recommendation/1";
+
+export interface RecommendationBriefProposal {
+  vendorName: string;
+  totalScore: number;
+  price: number | null; // in the RFP currency
+  deliveryDays: number | null;
+  warrantyMonths: number | null;
+  complianceStatus: string;
+}
+
+// Facts the narrative is written from (see comparisonReport.ts); the
+// model is told not to go beyond them
+export interface RecommendationBrief {
+  rfpTitle: string;
+  currency: string | null;
+  budget: number | null;
+  proposalCount: number;
+  recommended: RecommendationBriefProposal | null;
+  runnerUp: RecommendationBriefProposal | null;
+  // per-criterion difference in weighted score, recommended minus
+  // runner-up; largest first
+  criterionGaps: {
+    label: string;
+    recommendedScore: number;
+    runnerUpScore: number;
+    gap: number;
+  }[];
+  // weight a criterion would need for another proposal to take the lead
+  tippingPoints: {
+    label: string;
+    currentWeight: number;
+    weight: number;
+    newLeader: string;
+  }[];
+}
+
+export interface RecommendationNarrative {
+  headline: string;
+  summary: string;
+  tradeOffs: string[];
+  budget: string | null;
+  risks: string[];
+}
+
+const RECOMMENDATION_SYSTEM_PROMPT = `
+You are a procurement analyst writing a short recommendation for approvers
+who must sign off on an award.
+
+You MUST respond with ONLY valid JSON. No extra text, no explanations.
+
+JSON shape:
+{
+  "headline": string,
+  "summary": string,
+  "tradeOffs": string[],
+  "budget": string | null,
+  "risks": string[]
+}
+
+Rules:
+- Use only the facts given. Do not invent prices, vendors or criteria.
+- headline is one sentence naming the recommended vendor.
+- summary is 2-4 sentences on why it ranks first and by how much.
+- tradeOffs has one sentence per criterion where the vendors differ,
+  saying what the recommended vendor gives up or gains.
+- budget compares the recommended price with the budget; null if either
+  is unknown.
+- risks lists compliance problems, missing information and tipping points
+  (small weight changes that would change the recommendation).
+- Scores and weights are 0-1; write weights as percentages.
+`;
+
+export async function generateRecommendationNarrative(
+  brief: RecommendationBrief
+): Promise<AiExtraction<RecommendationNarrative>> {
+  const userPrompt = `
+Comparison facts:
+${JSON.stringify(brief, null, 2)}
+`.trim();
+
+  const extracted = await extractWithRepair(
+    {
+      systemPrompt: RECOMMENDATION_SYSTEM_PROMPT,
+      userPrompt,
+      task: { kind: "recommendation", brief },
+    },
+    validateRecommendationJson,
+    RECOMMENDATION_PROMPT_VERSION
+  );
 
-  return spec;
+  // written, not extracted: nothing to review field by field
+  return { ...extracted, lowConfidenceFields: [] };
 }
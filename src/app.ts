@@ -6,7 +6,8 @@ import routes from "./routes";
 const app = express();
 
 app.use(cors());
-app.use(express.json());
+// inbound email webhooks carry base64 attachments
+app.use(express.json({ limit: process.env.INBOUND_BODY_LIMIT || "25mb" }));
 app.use(routes);
 
 export default app;
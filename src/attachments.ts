@@ -0,0 +1,388 @@
+// src/attachments.ts
+import { AttachmentKind, EmailAttachment, Prisma } from ".prisma/client";
+import ExcelJS from "exceljs";
+import pdfParse from "pdf-parse";
+import prisma from "./lib/prisma";
+import { ParsedProposalLineItem } from "./ai";
+
+const MAX_ATTACHMENT_BYTES = Number(process.env.MAX_ATTACHMENT_BYTES || 10 * 1024 * 1024);
+// Per attachment, so one huge sheet doesn't crowd the email out of the prompt
+const MAX_TEXT_CHARS = 20_000;
+const DOWNLOAD_TIMEOUT_MS = Number(process.env.ATTACHMENT_DOWNLOAD_TIMEOUT_MS || 15_000);
+// Hosts attachment URLs may be downloaded from: the provider's attachment
+// store, e.g. "my-bucket.s3.amazonaws.com" or "*.s3.eu-west-1.amazonaws.com".
+// The URL comes from the webhook payload, so nothing else is fetched, and
+// nothing at all while this is unset.
+const DOWNLOAD_HOSTS = (process.env.ATTACHMENT_URL_HOSTS ?? "")
+  .split(",")
+  .map(h => h.trim().toLowerCase())
+  .filter(Boolean);
+
+// Attachment as received from an inbound provider, before it is stored
+export type InboundAttachment = {
+  filename: string;
+  contentType: string | null;
+  size: number | null;
+  content: Buffer | null;
+  url: string | null;
+};
+
+type ExtractedAttachment = {
+  text: string;
+  sheetLineItems: ParsedProposalLineItem[];
+};
+
+export function attachmentKind(
+  filename: string,
+  contentType: string | null
+): AttachmentKind {
+  const ext = filename.toLowerCase().split(".").pop() ?? "";
+  const type = (contentType ?? "").toLowerCase();
+
+  if (ext === "pdf" || type === "application/pdf") return "PDF";
+  if (ext === "csv" || type === "text/csv") return "CSV";
+  if (
+    ext === "xlsx" ||
+    type === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  ) {
+    return "SPREADSHEET";
+  }
+  if (ext === "txt" || type.startsWith("text/plain")) return "TEXT";
+  return "OTHER";
+}
+
+/* ---------------------------------------------------
+ * Tables (CSV rows / worksheet rows) → text and line items
+ * --------------------------------------------------*/
+
+// RFC 4180-ish: quoted fields, "" escapes, CRLF or LF
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      // a quote mid-field (27" monitor) is literal
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map(r => r.map(c => c.trim()))
+    .filter(r => r.some(c => c !== ""));
+}
+
+type ColumnRole = "description" | "quantity" | "unitPrice" | "totalPrice";
+
+// Checked in order: "Unit Price" must not be read as a quantity ("units")
+const HEADER_PATTERNS: [ColumnRole, RegExp][] = [
+  ["totalPrice", /\b(total|amount|line\s*total|extended|ext\.?\s*price)\b/i],
+  ["unitPrice", /\b(unit\s*(price|cost|rate)|rate|price|cost|each)\b/i],
+  ["quantity", /^(qty|quantity|units|nos?\.?|no\.?\s*of\s*units|count)\b/i],
+  ["description", /\b(item|description|product|particulars|model|name|sku)\b/i],
+];
+
+const SUMMARY_ROW = /\b(sub\s*-?total|total|tax|gst|vat|discount|shipping|freight)\b/i;
+
+function parseNumber(raw: string): number | null {
+  const cleaned = raw.replace(/[^\d.\-]/g, "");
+  if (!cleaned || !/\d/.test(cleaned)) return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : null;
+}
+
+function headerColumns(row: string[]): Partial<Record<ColumnRole, number>> {
+  const cols: Partial<Record<ColumnRole, number>> = {};
+  row.forEach((cell, idx) => {
+    for (const [role, re] of HEADER_PATTERNS) {
+      if (cols[role] === undefined && re.test(cell)) {
+        cols[role] = idx;
+        break;
+      }
+    }
+  });
+  return cols;
+}
+
+// Finds a header row with a description and a price column, then reads
+// each following row as a line item. Totals/tax rows are skipped.
+export function lineItemsFromTable(rows: string[][]): ParsedProposalLineItem[] {
+  const headerIdx = rows
+    .slice(0, 10)
+    .findIndex(r => {
+      const cols = headerColumns(r);
+      return (
+        cols.description !== undefined &&
+        (cols.unitPrice !== undefined || cols.totalPrice !== undefined)
+      );
+    });
+  if (headerIdx === -1) return [];
+
+  const cols = headerColumns(rows[headerIdx]);
+  const cell = (r: string[], role: ColumnRole) =>
+    cols[role] === undefined ? "" : r[cols[role]!] ?? "";
+
+  const items: ParsedProposalLineItem[] = [];
+  for (const r of rows.slice(headerIdx + 1)) {
+    const description = cell(r, "description");
+    if (!description || SUMMARY_ROW.test(description)) continue;
+
+    const quantity = parseNumber(cell(r, "quantity"));
+    const unitPrice = parseNumber(cell(r, "unitPrice"));
+    const totalPrice = parseNumber(cell(r, "totalPrice"));
+    if (unitPrice === null && totalPrice === null) continue;
+
+    items.push({ rfpItemIndex: null, description, quantity, unitPrice, totalPrice });
+  }
+  return items;
+}
+
+function tableToText(rows: string[][]): string {
+  return rows.map(r => r.join(" | ")).join("\n");
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === "object") {
+    if ("result" in value) return cellToString(value.result as ExcelJS.CellValue);
+    if ("richText" in value) return value.richText.map(t => t.text).join("");
+    if ("text" in value) return String(value.text);
+    if ("error" in value) return "";
+  }
+  return String(value);
+}
+
+async function readWorkbook(content: Buffer): Promise<ExtractedAttachment> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(content as any);
+
+  const texts: string[] = [];
+  const sheetLineItems: ParsedProposalLineItem[] = [];
+
+  workbook.eachSheet(sheet => {
+    const rows: string[][] = [];
+    sheet.eachRow(row => {
+      // row.values is 1-based
+      const values = (row.values as ExcelJS.CellValue[]).slice(1);
+      rows.push(values.map(v => cellToString(v).trim()));
+    });
+    if (rows.length === 0) return;
+
+    texts.push(`Sheet: ${sheet.name}\n${tableToText(rows)}`);
+    sheetLineItems.push(...lineItemsFromTable(rows));
+  });
+
+  return { text: texts.join("\n\n"), sheetLineItems };
+}
+
+/* ---------------------------------------------------
+ * Extraction
+ * --------------------------------------------------*/
+
+function isAllowedDownloadHost(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return DOWNLOAD_HOSTS.some(pattern =>
+    pattern.startsWith("*.") ? host.endsWith(pattern.slice(1)) : host === pattern
+  );
+}
+
+// Downloads an attachment the provider stored elsewhere. Only https URLs
+// on DOWNLOAD_HOSTS, no redirects, and the body is read no further than
+// MAX_ATTACHMENT_BYTES.
+async function downloadAttachment(rawUrl: string): Promise<Buffer> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new Error("Attachment URL is not a valid URL");
+  }
+  if (url.protocol !== "https:" || !isAllowedDownloadHost(url.hostname)) {
+    throw new Error(`Attachment host ${url.hostname} is not in ATTACHMENT_URL_HOSTS`);
+  }
+
+  const resp = await fetch(url, {
+    redirect: "error",
+    signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+  });
+  if (!resp.ok || !resp.body) {
+    throw new Error(`Downloading attachment failed with HTTP ${resp.status}`);
+  }
+  if (Number(resp.headers.get("content-length")) > MAX_ATTACHMENT_BYTES) {
+    await resp.body.cancel();
+    throw new Error(`Attachment is larger than ${MAX_ATTACHMENT_BYTES} bytes`);
+  }
+
+  const reader = resp.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_ATTACHMENT_BYTES) {
+      await reader.cancel();
+      throw new Error(`Attachment is larger than ${MAX_ATTACHMENT_BYTES} bytes`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function extractContent(
+  att: EmailAttachment,
+  content: Buffer
+): Promise<ExtractedAttachment> {
+  switch (att.kind) {
+    case "PDF": {
+      const pdf = await pdfParse(content);
+      return { text: pdf.text.trim(), sheetLineItems: [] };
+    }
+    case "SPREADSHEET":
+      return readWorkbook(content);
+    case "CSV": {
+      const rows = parseCsv(content.toString("utf8"));
+      return { text: tableToText(rows), sheetLineItems: lineItemsFromTable(rows) };
+    }
+    case "TEXT":
+      return { text: content.toString("utf8").trim(), sheetLineItems: [] };
+    default:
+      throw new Error(`Unsupported attachment type: ${att.contentType ?? att.filename}`);
+  }
+}
+
+// downloaded: the bytes fetched from att.url, to be stored on the
+// attachment so they are served from here from then on
+async function extractAttachment(
+  att: EmailAttachment
+): Promise<ExtractedAttachment & { downloaded: Buffer | null }> {
+  if (!att.content && !att.url) {
+    throw new Error("Attachment has neither content nor a URL");
+  }
+  const downloaded = att.content ? null : await downloadAttachment(att.url!);
+  const content = downloaded ?? Buffer.from(att.content!);
+  if (content.length > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`Attachment is larger than ${MAX_ATTACHMENT_BYTES} bytes`);
+  }
+
+  return { ...(await extractContent(att, content)), downloaded };
+}
+
+export async function storeAttachments(
+  emailId: string,
+  attachments: InboundAttachment[],
+  client: Prisma.TransactionClient = prisma
+): Promise<EmailAttachment[]> {
+  return Promise.all(
+    attachments.map(att =>
+      client.emailAttachment.create({
+        data: {
+          emailId,
+          filename: att.filename,
+          contentType: att.contentType,
+          size: att.size ?? att.content?.length ?? null,
+          content: att.content ? new Uint8Array(att.content) : null,
+          url: att.url,
+          kind: attachmentKind(att.filename, att.contentType),
+        },
+      })
+    )
+  );
+}
+
+// Extracts text (and price-sheet line items) from every attachment of the
+// email that hasn't been processed yet. Failures are recorded on the
+// attachment and don't stop the email from being parsed.
+export async function extractEmailAttachments(
+  emailId: string
+): Promise<EmailAttachment[]> {
+  const attachments = await prisma.emailAttachment.findMany({
+    where: { emailId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return Promise.all(
+    attachments.map(async att => {
+      if (att.extractedAt || att.kind === "OTHER") return att;
+
+      try {
+        const { text, sheetLineItems, downloaded } = await extractAttachment(att);
+        return prisma.emailAttachment.update({
+          where: { id: att.id },
+          data: {
+            ...(downloaded
+              ? { content: new Uint8Array(downloaded), size: downloaded.length }
+              : {}),
+            extractedText: text.slice(0, MAX_TEXT_CHARS),
+            sheetLineItems: sheetLineItems as any,
+            extractedAt: new Date(),
+            extractionError: null,
+          },
+        });
+      } catch (err: any) {
+        console.error(`Error extracting attachment ${att.id}:`, err);
+        return prisma.emailAttachment.update({
+          where: { id: att.id },
+          data: {
+            extractedAt: new Date(),
+            extractionError: String(err?.message ?? err),
+          },
+        });
+      }
+    })
+  );
+}
+
+// Email body followed by each attachment's text, plus the line items of
+// any price sheet among them
+export function buildParseInput(
+  bodyText: string | null,
+  attachments: EmailAttachment[]
+): { text: string; sheetLineItems?: { items: ParsedProposalLineItem[]; source: string } } {
+  const parts = bodyText?.trim() ? [bodyText.trim()] : [];
+  const items: ParsedProposalLineItem[] = [];
+  const sheets: string[] = [];
+
+  for (const att of attachments) {
+    if (att.extractedText) {
+      parts.push(`--- Attachment: ${att.filename} ---\n${att.extractedText}`);
+    }
+    const lines = (att.sheetLineItems ?? []) as unknown as ParsedProposalLineItem[];
+    if (lines.length > 0) {
+      items.push(...lines);
+      sheets.push(att.filename);
+    }
+  }
+
+  return {
+    text: parts.join("\n\n"),
+    sheetLineItems: items.length > 0 ? { items, source: sheets.join(", ") } : undefined,
+  };
+}
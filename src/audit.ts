@@ -0,0 +1,164 @@
+// src/audit.ts
+import { Request } from "express";
+import { AuditActorType, AuditEntityType, Prisma } from ".prisma/client";
+import prisma from "./lib/prisma";
+import { AiExtraction } from "./ai";
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+// Never copied into snapshots: secrets, file bytes, and email bodies
+// (they stay on the email itself)
+const OMITTED_KEYS = new Set(["passwordHash", "tokenHash", "content", "bodyText", "bodyHtml"]);
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  "RFP",
+  "VENDOR",
+  "PROPOSAL",
+  "EMAIL",
+  "USER",
+  "ORGANIZATION",
+  "EVALUATION",
+  "FX_RATE",
+];
+
+export type AuditActor = {
+  type: AuditActorType;
+  id: string | null;
+  label: string;
+};
+
+export type AuditEventInput = {
+  organizationId: string | null;
+  actor: AuditActor;
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+  metadata?: unknown;
+};
+
+export type AuditFilters = {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: string;
+  actorId?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+  // id of the last event of the previous page
+  cursor?: string;
+};
+
+/* ---------------------------------------------------
+ * Actors
+ * --------------------------------------------------*/
+
+// The signed-in user making the request
+export function actorFromRequest(req: Request): AuditActor {
+  if (!req.auth) throw new Error("Request is not authenticated");
+  return { type: "USER", id: req.auth.userId, label: req.auth.email };
+}
+
+// Background work: the email worker, the reminder scheduler, ...
+export function systemActor(label: string): AuditActor {
+  return { type: "SYSTEM", id: null, label };
+}
+
+export function webhookActor(provider: string): AuditActor {
+  return { type: "WEBHOOK", id: null, label: `webhook:${provider}` };
+}
+
+/* ---------------------------------------------------
+ * Recording
+ * --------------------------------------------------*/
+
+// JSON copy of a row as it was at the time of the event
+function snapshot(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  if (value === undefined || value === null) return Prisma.DbNull;
+  return JSON.parse(
+    JSON.stringify(value, (key, v) => (OMITTED_KEYS.has(key) ? undefined : v))
+  );
+}
+
+export async function recordAudit(
+  event: AuditEventInput,
+  client: Prisma.TransactionClient = prisma
+) {
+  return client.auditEvent.create({
+    data: {
+      organizationId: event.organizationId,
+      actorType: event.actor.type,
+      actorId: event.actor.id,
+      actorLabel: event.actor.label,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      before: snapshot(event.before),
+      after: snapshot(event.after),
+      metadata: snapshot(event.metadata),
+    },
+  });
+}
+
+// recordAudit for a route: actor and organization come from the request.
+// Pass the mutation's transaction so the event commits (or not) with it.
+export function auditRequest(
+  req: Request,
+  event: Omit<AuditEventInput, "organizationId" | "actor">,
+  client: Prisma.TransactionClient = prisma
+) {
+  const actor = actorFromRequest(req);
+  return recordAudit({ ...event, organizationId: req.auth!.organizationId, actor }, client);
+}
+
+// For helpers that run their own transaction: writes the caller's audit
+// events inside it, once the result is known
+export type AuditInTransaction<T> = (tx: Prisma.TransactionClient, result: T) => Promise<unknown>;
+
+// What an AI extraction event records about the model call
+export function aiExtractionMetadata(extraction: AiExtraction<unknown>) {
+  return {
+    provider: extraction.provider,
+    model: extraction.model,
+    promptVersion: extraction.promptVersion,
+    repairAttempts: extraction.repairAttempts,
+    lowConfidenceFields: extraction.lowConfidenceFields,
+  };
+}
+
+/* ---------------------------------------------------
+ * Querying
+ * --------------------------------------------------*/
+
+// Newest first, one page at a time
+export async function listAuditEvents(organizationId: string, filters: AuditFilters = {}) {
+  const take = Math.min(Math.max(filters.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const events = await prisma.auditEvent.findMany({
+    where: {
+      organizationId,
+      ...(filters.entityType ? { entityType: filters.entityType } : {}),
+      ...(filters.entityId ? { entityId: filters.entityId } : {}),
+      ...(filters.action ? { action: filters.action } : {}),
+      ...(filters.actorId ? { actorId: filters.actorId } : {}),
+      ...(filters.since || filters.until
+        ? {
+            createdAt: {
+              ...(filters.since ? { gte: filters.since } : {}),
+              ...(filters.until ? { lt: filters.until } : {}),
+            },
+          }
+        : {}),
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: take + 1,
+    ...(filters.cursor ? { cursor: { id: filters.cursor }, skip: 1 } : {}),
+  });
+
+  return {
+    events: events.slice(0, take),
+    nextCursor: events.length > take ? events[take - 1].id : null,
+  };
+}
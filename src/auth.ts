@@ -0,0 +1,161 @@
+// src/auth.ts
+import crypto from "crypto";
+import { promisify } from "util";
+import { NextFunction, Request, Response } from "express";
+import { UserRole } from ".prisma/client";
+import prisma from "./lib/prisma";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const TOKEN_TTL_DAYS = Number(process.env.AUTH_TOKEN_TTL_DAYS || 30);
+// lastUsedAt is only rewritten when older than this, not on every request
+const TOKEN_TOUCH_MS = 5 * 60 * 1000;
+
+export const USER_ROLES: UserRole[] = ["ADMIN", "BUYER", "EVALUATOR", "VIEWER"];
+
+// Who may change RFPs, vendors and proposals
+export const EDITOR_ROLES: UserRole[] = ["ADMIN", "BUYER"];
+// Who may score proposals (but not edit them)
+export const SCORER_ROLES: UserRole[] = ["ADMIN", "BUYER", "EVALUATOR"];
+
+export type AuthContext = {
+  userId: string;
+  email: string;
+  organizationId: string;
+  role: UserRole;
+  tokenId: string;
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+/* ---------------------------------------------------
+ * Passwords and tokens
+ * --------------------------------------------------*/
+
+// "scrypt$<salt hex>$<key hex>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = stored.split("$");
+  if (scheme !== "scrypt" || !saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, "hex");
+  const key = await scrypt(password, Buffer.from(saltHex, "hex"), expected.length);
+  return crypto.timingSafeEqual(key, expected);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Returns the plain token once; only its hash is kept
+export async function issueToken(userId: string, name?: string | null) {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const record = await prisma.apiToken.create({
+    data: {
+      userId,
+      tokenHash: hashToken(token),
+      name: name ?? null,
+      expiresAt: TOKEN_TTL_DAYS > 0 ? new Date(Date.now() + TOKEN_TTL_DAYS * 86_400_000) : null,
+    },
+  });
+  return { token, expiresAt: record.expiresAt };
+}
+
+export async function revokeToken(tokenId: string) {
+  await prisma.apiToken.update({
+    where: { id: tokenId },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/* ---------------------------------------------------
+ * Middleware
+ * --------------------------------------------------*/
+
+// Authorization: Bearer <token> → req.auth
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const match = (req.headers.authorization ?? "").match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const record = await prisma.apiToken.findUnique({
+      where: { tokenHash: hashToken(match[1]) },
+      include: { user: true },
+    });
+    const now = new Date();
+    if (
+      !record ||
+      record.revokedAt ||
+      (record.expiresAt && record.expiresAt < now) ||
+      record.user.disabledAt
+    ) {
+      return res.status(401).json({ error: "Invalid or expired token" });
+    }
+
+    if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() > TOKEN_TOUCH_MS) {
+      await prisma.apiToken.update({
+        where: { id: record.id },
+        data: { lastUsedAt: now },
+      });
+    }
+
+    req.auth = {
+      userId: record.user.id,
+      email: record.user.email,
+      organizationId: record.user.organizationId,
+      role: record.user.role,
+      tokenId: record.id,
+    };
+    next();
+  } catch (err) {
+    console.error("Error authenticating request:", err);
+    res.status(500).json({ error: "Failed to authenticate request" });
+  }
+}
+
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth || !roles.includes(req.auth.role)) {
+      return res
+        .status(403)
+        .json({ error: `Requires one of the roles ${roles.join(", ")}` });
+    }
+    next();
+  };
+}
+
+// Reads are open to every role; anything else needs one of `roles`.
+// Routes mounted before this one decide for themselves.
+export function requireRoleForWrites(...roles: UserRole[]) {
+  const check = requireRole(...roles);
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.method === "GET" || req.method === "HEAD" || req.method === "OPTIONS") {
+      return next();
+    }
+    check(req, res, next);
+  };
+}
+
+// The caller's organization; every tenant-owned query filters on it
+export function orgOf(req: Request): string {
+  if (!req.auth) throw new Error("Request is not authenticated");
+  return req.auth.organizationId;
+}
@@ -0,0 +1,434 @@
+// src/comparisonReport.ts
+import crypto from "crypto";
+import { Prisma, Rfp } from ".prisma/client";
+import prisma from "./lib/prisma";
+import {
+  AiExtraction,
+  RecommendationBrief,
+  RecommendationBriefProposal,
+  RecommendationNarrative,
+  generateRecommendationNarrative,
+} from "./ai";
+import { writeRecommendationOffline } from "./llm/offline";
+import { AuditInTransaction } from "./audit";
+import { ProposalWithScores, ScoringCriterion, resolveScoringCriteria } from "./proposalScoring";
+import { RfpComparison } from "./rfpComparison";
+import { unconfirmedRfpFields } from "./utils/rfpSpec";
+
+// Weight shift (either way) for the what-if rankings in the sensitivity
+// analysis
+const SENSITIVITY_STEP = Number(process.env.REPORT_SENSITIVITY_STEP || 0.1);
+
+export type CriterionContribution = {
+  key: string;
+  label: string;
+  weight: number;       // normalised, 0–1
+  score: number;        // 0–1
+  contribution: number; // weight × score
+};
+
+export type ProposalExplanation = {
+  rank: number;
+  proposalId: string;
+  vendorId: string;
+  vendorName: string;
+  totalScore: number;
+  price: number | null; // in the RFP currency
+  complianceStatus: string;
+  contributions: CriterionContribution[];
+  // taken off the sum of contributions for a hard compliance failure
+  compliancePenalty: number;
+};
+
+export type CriterionGap = {
+  key: string;
+  label: string;
+  recommendedContribution: number;
+  runnerUpContribution: number;
+  gap: number;
+};
+
+export type BudgetComparison = {
+  budget: number;
+  currency: string | null;
+  recommendedPrice: number | null;
+  difference: number | null;      // price − budget; negative is under
+  differencePercent: number | null;
+  withinBudget: boolean | null;
+  proposalsWithinBudget: number;
+};
+
+// Where the leader changes as one criterion's weight moves and the others
+// scale to keep the total at 1
+export type TippingPoint = {
+  weight: number;
+  newLeaderProposalId: string;
+  newLeaderVendorName: string;
+};
+
+export type CriterionSensitivity = {
+  key: string;
+  label: string;
+  weight: number;
+  increase: TippingPoint | null;
+  decrease: TippingPoint | null;
+  // ranking (proposal ids) with the weight SENSITIVITY_STEP lower / higher
+  shifted: { weight: number; ranking: string[]; rankingChanged: boolean }[];
+};
+
+export type ReportNarrative = RecommendationNarrative & {
+  // "template" unless a model wrote it
+  source: "llm" | "template";
+  provider: string | null;
+  model: string | null;
+  promptVersion: string | null;
+};
+
+export type ComparisonReport = {
+  rfpId: string;
+  rfpTitle: string;
+  currency: string | null;
+  generatedAt: Date;
+  ranking: ProposalExplanation[];
+  excludedProposalIds: string[];
+  recommendation: {
+    proposalId: string;
+    vendorName: string;
+    runnerUpProposalId: string | null;
+    margin: number | null;
+    // criteria that put it ahead of the runner-up, and those it loses on
+    advantages: CriterionGap[];
+    tradeOffs: CriterionGap[];
+  } | null;
+  budget: BudgetComparison | null;
+  sensitivity: CriterionSensitivity[];
+  // null when the caller asked for no narrative
+  narrative: ReportNarrative | null;
+};
+
+function criterionLabel(c: ScoringCriterion): string {
+  return c.type === "evaluation" ? c.label : c.key;
+}
+
+function round(value: number, digits = 4): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+/* ---------------------------------------------------
+ * Explanation
+ * --------------------------------------------------*/
+
+// From weight × score rather than the rounded contributions
+function unpenalizedTotal(contributions: CriterionContribution[]): number {
+  return contributions.reduce((acc, c) => acc + c.weight * c.score, 0);
+}
+
+function explainProposal(
+  p: ProposalWithScores,
+  rank: number,
+  criteria: ScoringCriterion[],
+  weights: Record<string, number>
+): ProposalExplanation {
+  const contributions = criteria.map(c => {
+    const score = p.scores.criterionScores[c.key] ?? 0;
+    return {
+      key: c.key,
+      label: criterionLabel(c),
+      weight: weights[c.key] ?? 0,
+      score,
+      contribution: round((weights[c.key] ?? 0) * score),
+    };
+  });
+  const raw = unpenalizedTotal(contributions);
+
+  return {
+    rank,
+    proposalId: p.id,
+    vendorId: p.vendorId,
+    vendorName: p.vendor.name,
+    totalScore: p.scores.totalScore,
+    price: p.pricing.convertedAmount,
+    complianceStatus: p.compliance.status,
+    contributions,
+    compliancePenalty: round(raw - p.scores.totalScore),
+  };
+}
+
+function criterionGaps(top: ProposalExplanation, next: ProposalExplanation): CriterionGap[] {
+  return top.contributions
+    .map(c => {
+      const other = next.contributions.find(o => o.key === c.key)?.contribution ?? 0;
+      return {
+        key: c.key,
+        label: c.label,
+        recommendedContribution: c.contribution,
+        runnerUpContribution: other,
+        gap: round(c.contribution - other),
+      };
+    })
+    .sort((a, b) => b.gap - a.gap);
+}
+
+// The RFP budget, unless it's an AI value still awaiting review
+function confirmedBudget(rfp: Rfp): number | null {
+  return unconfirmedRfpFields(rfp).has("budget") ? null : rfp.budget ?? null;
+}
+
+function compareWithBudget(rfp: Rfp, ranking: ProposalExplanation[]): BudgetComparison | null {
+  const budget = confirmedBudget(rfp);
+  if (budget == null) return null;
+
+  const price = ranking[0]?.price ?? null;
+  const difference = price === null ? null : price - budget;
+  return {
+    budget,
+    currency: rfp.currency ?? null,
+    recommendedPrice: price,
+    difference,
+    differencePercent:
+      difference === null || budget === 0 ? null : round((difference / budget) * 100, 1),
+    withinBudget: difference === null ? null : difference <= 0,
+    proposalsWithinBudget: ranking.filter(p => p.price !== null && p.price <= budget).length,
+  };
+}
+
+/* ---------------------------------------------------
+ * Sensitivity
+ * --------------------------------------------------*/
+
+// Each proposal's total as a line in the criterion's weight x:
+// total(x) = intercept + slope·x, the other weights scaled by (1−x)/(1−w)
+// and the compliance penalty applied as the same multiplier as now
+function totalsAsLines(ranking: ProposalExplanation[], key: string, weight: number) {
+  return ranking.map(p => {
+    const raw = unpenalizedTotal(p.contributions);
+    const multiplier = raw > 0 ? p.totalScore / raw : 1;
+    const score = p.contributions.find(c => c.key === key)?.score ?? 0;
+    const rest = (raw - weight * score) / (1 - weight);
+    return {
+      proposal: p,
+      intercept: multiplier * rest,
+      slope: multiplier * (score - rest),
+    };
+  });
+}
+
+function rankingAt(lines: ReturnType<typeof totalsAsLines>, x: number): string[] {
+  return [...lines]
+    .sort((a, b) => b.intercept + b.slope * x - (a.intercept + a.slope * x))
+    .map(l => l.proposal.proposalId);
+}
+
+function analyzeCriterion(
+  ranking: ProposalExplanation[],
+  key: string,
+  label: string,
+  weight: number
+): CriterionSensitivity {
+  const result: CriterionSensitivity = {
+    key,
+    label,
+    weight,
+    increase: null,
+    decrease: null,
+    shifted: [],
+  };
+  // the only criterion: reweighting can't change anything
+  if (weight >= 1 || ranking.length === 0) return result;
+
+  const lines = totalsAsLines(ranking, key, weight);
+  const [leader, ...others] = lines;
+
+  // the first crossing with the leader on each side is where it loses
+  // the lead, and to whom
+  for (const other of others) {
+    const slopeGap = leader.slope - other.slope;
+    if (slopeGap === 0) continue;
+    const x = (other.intercept - leader.intercept) / slopeGap;
+    if (x < 0 || x > 1 || x === weight) continue;
+
+    const side = x > weight ? "increase" : "decrease";
+    const current = result[side];
+    if (!current || Math.abs(x - weight) < Math.abs(current.weight - weight)) {
+      result[side] = {
+        weight: round(x),
+        newLeaderProposalId: other.proposal.proposalId,
+        newLeaderVendorName: other.proposal.vendorName,
+      };
+    }
+  }
+
+  const current = ranking.map(p => p.proposalId);
+  for (const x of [weight - SENSITIVITY_STEP, weight + SENSITIVITY_STEP]) {
+    if (x < 0 || x > 1) continue;
+    const shifted = rankingAt(lines, x);
+    result.shifted.push({
+      weight: round(x),
+      ranking: shifted,
+      rankingChanged: shifted.some((id, i) => id !== current[i]),
+    });
+  }
+
+  return result;
+}
+
+/* ---------------------------------------------------
+ * Report
+ * --------------------------------------------------*/
+
+// Explains a comparison: what each criterion contributed, why the leader
+// leads, budget fit and how sensitive the ranking is to the weights.
+// The narrative is added separately (see writeReportNarrative).
+export function explainComparison(rfp: Rfp, comparison: RfpComparison): ComparisonReport {
+  const criteria = resolveScoringCriteria(rfp);
+  const weights = comparison.criteriaWeights;
+  const ranking = comparison.proposals.map((p, i) => explainProposal(p, i + 1, criteria, weights));
+  const [top, next] = ranking;
+  const gaps = top && next ? criterionGaps(top, next) : [];
+
+  return {
+    rfpId: rfp.id,
+    rfpTitle: rfp.title,
+    currency: comparison.currency,
+    generatedAt: new Date(),
+    ranking,
+    excludedProposalIds: comparison.excludedProposals.map(e => e.proposalId),
+    recommendation: top
+      ? {
+          proposalId: top.proposalId,
+          vendorName: top.vendorName,
+          runnerUpProposalId: next?.proposalId ?? null,
+          margin: next ? round(top.totalScore - next.totalScore) : null,
+          advantages: gaps.filter(g => g.gap > 0),
+          tradeOffs: gaps.filter(g => g.gap < 0).reverse(),
+        }
+      : null,
+    budget: compareWithBudget(rfp, ranking),
+    sensitivity: criteria.map(c =>
+      analyzeCriterion(ranking, c.key, criterionLabel(c), weights[c.key] ?? 0)
+    ),
+    narrative: null,
+  };
+}
+
+function briefProposal(p: ProposalExplanation, comparison: RfpComparison): RecommendationBriefProposal {
+  const scored = comparison.proposals.find(s => s.id === p.proposalId);
+  return {
+    vendorName: p.vendorName,
+    totalScore: round(p.totalScore, 3),
+    price: p.price,
+    deliveryDays: scored?.deliveryDays ?? null,
+    warrantyMonths: scored?.warrantyMonths ?? null,
+    complianceStatus: p.complianceStatus,
+  };
+}
+
+function briefFor(report: ComparisonReport, comparison: RfpComparison, rfp: Rfp): RecommendationBrief {
+  const [top, next] = report.ranking;
+  const rec = report.recommendation;
+
+  return {
+    rfpTitle: report.rfpTitle,
+    currency: report.currency,
+    budget: confirmedBudget(rfp),
+    proposalCount: report.ranking.length,
+    recommended: top ? briefProposal(top, comparison) : null,
+    runnerUp: next ? briefProposal(next, comparison) : null,
+    criterionGaps: rec
+      ? [...rec.advantages, ...rec.tradeOffs].map(g => ({
+          label: g.label,
+          recommendedScore: round(g.recommendedContribution, 3),
+          runnerUpScore: round(g.runnerUpContribution, 3),
+          gap: round(g.gap, 3),
+        }))
+      : [],
+    tippingPoints: report.sensitivity.flatMap(s =>
+      [s.decrease, s.increase]
+        .filter((t): t is TippingPoint => t !== null)
+        .map(t => ({
+          label: s.label,
+          currentWeight: round(s.weight, 3),
+          weight: round(t.weight, 3),
+          newLeader: t.newLeaderVendorName,
+        }))
+    ),
+  };
+}
+
+// Narratives are stored per brief: the same comparison reads back the
+// same narrative, a changed one (new proposal, weights, scores) needs a
+// new one
+function narrativeInputHash(brief: RecommendationBrief): string {
+  return crypto.createHash("sha256").update(JSON.stringify(brief)).digest("hex");
+}
+
+function templateNarrative(brief: RecommendationBrief): ReportNarrative {
+  return {
+    ...writeRecommendationOffline(brief),
+    source: "template",
+    provider: null,
+    model: null,
+    promptVersion: null,
+  };
+}
+
+// The narrative stored for this comparison, or the offline template if
+// none was written for it yet. Never calls a model.
+export async function findReportNarrative(
+  rfp: Rfp,
+  report: ComparisonReport,
+  comparison: RfpComparison
+): Promise<ReportNarrative> {
+  const brief = briefFor(report, comparison, rfp);
+  const stored = await prisma.comparisonNarrative.findUnique({
+    where: { rfpId_inputHash: { rfpId: rfp.id, inputHash: narrativeInputHash(brief) } },
+  });
+  // stored by writeReportNarrative below
+  return stored ? (stored.narrative as unknown as ReportNarrative) : templateNarrative(brief);
+}
+
+// Asks the LLM layer for the narrative and stores it for this comparison,
+// together with what `audit` records. If no provider answers, the offline
+// template writes it instead and nothing is stored; extraction is null in
+// that case.
+export async function writeReportNarrative(
+  rfp: Rfp,
+  report: ComparisonReport,
+  comparison: RfpComparison,
+  audit?: AuditInTransaction<AiExtraction<RecommendationNarrative>>
+): Promise<{
+  narrative: ReportNarrative;
+  extraction: AiExtraction<RecommendationNarrative> | null;
+}> {
+  const brief = briefFor(report, comparison, rfp);
+
+  let extraction: AiExtraction<RecommendationNarrative>;
+  try {
+    extraction = await generateRecommendationNarrative(brief);
+  } catch (err) {
+    console.error(`Recommendation narrative for RFP ${rfp.id} fell back to the template:`, err);
+    return { narrative: templateNarrative(brief), extraction: null };
+  }
+
+  const narrative: ReportNarrative = {
+    ...extraction.value,
+    source: extraction.provider === "offline" ? "template" : "llm",
+    provider: extraction.provider,
+    model: extraction.model,
+    promptVersion: extraction.promptVersion,
+  };
+  const key = { rfpId: rfp.id, inputHash: narrativeInputHash(brief) };
+  const stored: Prisma.InputJsonValue = JSON.parse(JSON.stringify(narrative));
+
+  await prisma.$transaction(async tx => {
+    await tx.comparisonNarrative.upsert({
+      where: { rfpId_inputHash: key },
+      create: { ...key, narrative: stored },
+      update: { narrative: stored },
+    });
+    await audit?.(tx, extraction);
+  });
+
+  return { narrative, extraction };
+}
@@ -0,0 +1,284 @@
+// src/compliance.ts
+import {
+  ComplianceStatus,
+  EmailMessage,
+  Prisma,
+  Proposal,
+  ProposalLineItem,
+  Rfp,
+} from ".prisma/client";
+import prisma from "./lib/prisma";
+import { FxConverter, buildFxConverter, priceInCurrency } from "./fx";
+import { specForRfp, unconfirmedRfpFields } from "./utils/rfpSpec";
+
+export type ComplianceCheck = {
+  key: string;           // e.g. "warranty", "delivery", "budget", "item:0:spec:1"
+  label: string;
+  status: ComplianceStatus;
+  hard: boolean;         // hard requirement: a FAIL disqualifies / penalizes
+  reason: string;
+  rfpItemIndex?: number;
+};
+
+export type ComplianceResult = {
+  // FAIL if any hard check failed, PASS if every check passed,
+  // otherwise UNKNOWN (something needs a human look)
+  status: ComplianceStatus;
+  hardFailures: number;
+  checks: ComplianceCheck[];
+};
+
+export type ProposalForCompliance = Proposal & {
+  lineItems?: ProposalLineItem[];
+  email?: (EmailMessage & { attachments?: { extractedText: string | null }[] }) | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "at", "be", "for", "in", "is", "least", "min",
+  "minimum", "of", "or", "the", "to", "with",
+]);
+
+// "16 GB RAM" -> ["16gb", "ram"]
+function specTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/(\d)\s+([a-z])/g, "$1$2")
+    .split(/[^a-z0-9.+#]+/)
+    .map(t => t.replace(/^\.+|\.+$/g, ""))
+    .filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+function proposalText(p: ProposalForCompliance): string {
+  return [
+    p.notes,
+    p.terms,
+    ...(p.lineItems ?? []).map(li => li.description),
+    p.email?.bodyText,
+    ...(p.email?.attachments ?? []).map(a => a.extractedText),
+  ]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase()
+    .replace(/(\d)\s+([a-z])/g, "$1$2");
+}
+
+function formatDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+export function checkProposalCompliance(
+  rfp: Rfp,
+  proposal: ProposalForCompliance,
+  opts: { fx?: FxConverter } = {}
+): ComplianceResult {
+  const spec = specForRfp(rfp);
+  const checks: ComplianceCheck[] = [];
+  // AI values nobody has confirmed yet can't pass or fail a hard check
+  const unreviewed = new Set(proposal.lowConfidenceFields ?? []);
+  const awaitingReview = (field: string) => ({
+    status: "UNKNOWN" as const,
+    reason: `Low-confidence ${field} awaiting review`,
+  });
+  // ...and the same goes for the RFP's own requirements
+  const rfpUnconfirmed = unconfirmedRfpFields(rfp);
+  const requirementAwaitingReview = (field: string) => ({
+    status: "UNKNOWN" as const,
+    reason: `Low-confidence RFP ${field} awaiting review`,
+  });
+
+  // Warranty
+  if (spec.minimumWarrantyMonths != null) {
+    const min = spec.minimumWarrantyMonths;
+    const w = proposal.warrantyMonths;
+    checks.push({
+      key: "warranty",
+      label: `Warranty of at least ${min} months`,
+      hard: true,
+      ...(rfpUnconfirmed.has("minimumWarrantyMonths")
+        ? requirementAwaitingReview("minimumWarrantyMonths")
+        : w == null
+        ? { status: "UNKNOWN", reason: "Proposal does not state a warranty" }
+        : unreviewed.has("warrantyMonths")
+        ? awaitingReview("warrantyMonths")
+        : w >= min
+        ? { status: "PASS", reason: `Offers ${w} months` }
+        : { status: "FAIL", reason: `Offers ${w} months, below the ${min} required` }),
+    });
+  }
+
+  // Delivery: quote date + deliveryDays must land on or before the deadline
+  const deadline =
+    rfp.deliveryDeadline ??
+    (spec.deliveryDeadlineDaysFromNow != null
+      ? new Date(rfp.createdAt.getTime() + spec.deliveryDeadlineDaysFromNow * DAY_MS)
+      : null);
+  if (deadline) {
+    const days = proposal.deliveryDays;
+    const label = `Delivery by ${formatDate(deadline)}`;
+    if (rfpUnconfirmed.has("deliveryDeadlineDaysFromNow")) {
+      checks.push({
+        key: "delivery",
+        label,
+        hard: true,
+        ...requirementAwaitingReview("deliveryDeadlineDaysFromNow"),
+      });
+    } else if (days == null) {
+      checks.push({
+        key: "delivery",
+        label,
+        hard: true,
+        status: "UNKNOWN",
+        reason: "Proposal does not state a delivery time",
+      });
+    } else if (unreviewed.has("deliveryDays")) {
+      checks.push({
+        key: "delivery",
+        label,
+        hard: true,
+        ...awaitingReview("deliveryDays"),
+      });
+    } else {
+      const eta = new Date(proposal.createdAt.getTime() + days * DAY_MS);
+      checks.push({
+        key: "delivery",
+        label,
+        hard: true,
+        ...(eta <= deadline
+          ? { status: "PASS", reason: `Delivers in ${days} days (by ${formatDate(eta)})` }
+          : {
+              status: "FAIL",
+              reason: `Delivers in ${days} days (by ${formatDate(eta)}), after the deadline`,
+            }),
+      });
+    }
+  }
+
+  // Budget (compared in the RFP currency)
+  if (spec.budget != null) {
+    const budget = spec.budget;
+    const pricing = priceInCurrency(proposal, rfp.currency, opts.fx);
+    const label = `Total within budget of ${budget} ${rfp.currency ?? ""}`.trim();
+    let result: Pick<ComplianceCheck, "status" | "reason">;
+    if (rfpUnconfirmed.has("budget") || rfpUnconfirmed.has("currency")) {
+      result = requirementAwaitingReview(rfpUnconfirmed.has("budget") ? "budget" : "currency");
+    } else if (proposal.totalPrice == null) {
+      result = { status: "UNKNOWN", reason: "Proposal does not state a total price" };
+    } else if (unreviewed.has("totalPrice") || unreviewed.has("currency")) {
+      result = awaitingReview(unreviewed.has("totalPrice") ? "totalPrice" : "currency");
+    } else if (pricing.convertedAmount == null) {
+      result = {
+        status: "UNKNOWN",
+        reason: `No FX rate to convert ${pricing.originalCurrency} to ${rfp.currency}`,
+      };
+    } else if (pricing.convertedAmount <= budget) {
+      result = { status: "PASS", reason: `Total ${pricing.convertedAmount.toFixed(2)}` };
+    } else {
+      result = {
+        status: "FAIL",
+        reason: `Total ${pricing.convertedAmount.toFixed(2)} exceeds budget by ${(
+          pricing.convertedAmount - budget
+        ).toFixed(2)}`,
+      };
+    }
+    checks.push({ key: "budget", label, hard: true, ...result });
+  }
+
+  // Items and their key specs (soft: wording in free text is not proof).
+  // Specs match whole tokens, so "ram" isn't found in "program".
+  const text = proposalText(proposal);
+  const words = new Set(specTokens(text));
+  const hasLineItems = (proposal.lineItems ?? []).length > 0;
+  const itemsUnconfirmed = rfpUnconfirmed.has("items");
+
+  spec.items.forEach((item, idx) => {
+    if (hasLineItems) {
+      const quoted = proposal.lineItems!.some(li => li.rfpItemIndex === idx);
+      checks.push({
+        key: `item:${idx}`,
+        label: `Quotes "${item.name}"`,
+        hard: false,
+        rfpItemIndex: idx,
+        ...(itemsUnconfirmed
+          ? requirementAwaitingReview("items")
+          : quoted
+          ? { status: "PASS", reason: "Item has a quoted line" }
+          : { status: "FAIL", reason: "No quoted line for this item" }),
+      });
+    }
+
+    item.keySpecs.forEach((keySpec, specIdx) => {
+      const tokens = specTokens(keySpec);
+      const missing = tokens.filter(t => !words.has(t));
+      let result: Pick<ComplianceCheck, "status" | "reason">;
+
+      if (itemsUnconfirmed) {
+        result = requirementAwaitingReview("items");
+      } else if (!text || tokens.length === 0) {
+        result = { status: "UNKNOWN", reason: "Nothing to compare against" };
+      } else if (missing.length === 0) {
+        result = { status: "PASS", reason: "Mentioned in the proposal" };
+      } else if (missing.length === tokens.length) {
+        result = { status: "FAIL", reason: "Not mentioned in the proposal" };
+      } else {
+        result = {
+          status: "UNKNOWN",
+          reason: `Partially mentioned; missing: ${missing.join(", ")}`,
+        };
+      }
+
+      checks.push({
+        key: `item:${idx}:spec:${specIdx}`,
+        label: `${item.name}: ${keySpec}`,
+        hard: false,
+        rfpItemIndex: idx,
+        ...result,
+      });
+    });
+  });
+
+  const hardFailures = checks.filter(c => c.hard && c.status === "FAIL").length;
+  const status: ComplianceStatus =
+    hardFailures > 0
+      ? "FAIL"
+      : checks.every(c => c.status === "PASS")
+      ? "PASS"
+      : "UNKNOWN";
+
+  return { status, hardFailures, checks };
+}
+
+// Re-runs the checks for a stored proposal and saves the checklist on it
+export async function refreshProposalCompliance(
+  proposalId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<ComplianceResult> {
+  const proposal = await client.proposal.findUniqueOrThrow({
+    where: { id: proposalId },
+    include: {
+      rfp: true,
+      lineItems: true,
+      email: { include: { attachments: { select: { extractedText: true } } } },
+    },
+  });
+
+  const fxRates = await client.fxRate.findMany({
+    where: { organizationId: proposal.rfp.organizationId, asOf: { lte: new Date() } },
+  });
+
+  const result = checkProposalCompliance(proposal.rfp, proposal, {
+    fx: buildFxConverter(fxRates),
+  });
+
+  await client.proposal.update({
+    where: { id: proposalId },
+    data: {
+      complianceStatus: result.status,
+      complianceChecks: result.checks as any,
+      complianceCheckedAt: new Date(),
+    },
+  });
+
+  return result;
+}
@@ -0,0 +1,471 @@
+// src/documentExports.ts
+import { Rfp } from ".prisma/client";
+import ExcelJS from "exceljs";
+import PDFDocument from "pdfkit";
+import {
+  AlignmentType,
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import { specForRfp } from "./utils/rfpSpec";
+import { resolveScoringCriteria } from "./proposalScoring";
+import { RfpComparison } from "./rfpComparison";
+import { ComparisonReport } from "./comparisonReport";
+
+/* ---------------------------------------------------
+ * Everything here is rendered in-process (exceljs, pdfkit, docx); nothing
+ * is sent to an outside service.
+ * --------------------------------------------------*/
+
+export const XLSX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+export const DOCX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const PDF_CONTENT_TYPE = "application/pdf";
+
+// How the budget appears in the vendor-facing RFP document
+export type BudgetVisibility = "show" | "hide";
+export const BUDGET_VISIBILITIES: BudgetVisibility[] = ["show", "hide"];
+
+const BEST_FILL: ExcelJS.Fill = {
+  type: "pattern",
+  pattern: "solid",
+  fgColor: { argb: "FFD9EAD3" },
+};
+
+function formatDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function money(amount: number | null, currency: string | null): string {
+  if (amount === null) return "n/a";
+  const n = amount.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return currency ? `${n} ${currency}` : n;
+}
+
+const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+// "Acme Laptops RFP" → "acme-laptops-rfp", for download filenames
+export function fileSlug(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "rfp"
+  );
+}
+
+/* ---------------------------------------------------
+ * Comparison workbook (XLSX)
+ * --------------------------------------------------*/
+
+// One column per proposal in ranked order: the figures the ranking used,
+// then the item matrix and every compliance check on their own sheets
+export async function buildComparisonWorkbook(
+  rfp: Rfp,
+  comparison: RfpComparison
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const currency = comparison.currency;
+  const proposals = comparison.proposals;
+  const criteria = resolveScoringCriteria(rfp);
+
+  // Side by side
+  const sheet = workbook.addWorksheet("Comparison", {
+    views: [{ state: "frozen", xSplit: 1, ySplit: 1 }],
+  });
+  sheet.addRow(["", ...proposals.map(p => p.vendor.name)]).font = { bold: true };
+
+  const rows: [string, (p: (typeof proposals)[number], i: number) => ExcelJS.CellValue][] = [
+    ["Rank", (_, i) => i + 1],
+    ["Total score", p => p.scores.totalScore],
+    ["Quoted price", p => p.pricing.originalAmount],
+    ["Quoted currency", p => p.pricing.originalCurrency],
+    [`Price (${currency ?? "RFP currency"})`, p => p.pricing.convertedAmount],
+    ["FX rate", p => p.pricing.fxRate],
+    ["Delivery (days)", p => p.deliveryDays],
+    ["Warranty (months)", p => p.warrantyMonths],
+    ["Payment terms", p => p.terms],
+    ["Compliance", p => p.compliance.status],
+    ["Hard failures", p => p.compliance.hardFailures],
+    ["Items not quoted", p => p.missingItemIndexes.length],
+    ["Late", p => (p.isLate ? "Yes" : "No")],
+    ["Review status", p => p.reviewStatus],
+    ...criteria.map(
+      c =>
+        [
+          `Score: ${c.type === "evaluation" ? c.label : c.key} (${percent(comparison.criteriaWeights[c.key] ?? 0)})`,
+          (p: (typeof proposals)[number]) => p.scores.criterionScores[c.key] ?? null,
+        ] as [string, (p: (typeof proposals)[number], i: number) => ExcelJS.CellValue]
+    ),
+  ];
+  for (const [label, value] of rows) {
+    const row = sheet.addRow([label, ...proposals.map((p, i) => value(p, i) ?? null)]);
+    row.getCell(1).font = { bold: true };
+  }
+
+  sheet.getColumn(1).width = 28;
+  proposals.forEach((p, i) => {
+    const column = sheet.getColumn(i + 2);
+    column.width = 20;
+    if (p.id === comparison.bestProposalId) {
+      column.eachCell(cell => {
+        cell.fill = BEST_FILL;
+      });
+    }
+  });
+  sheet.getRow(3).numFmt = "0.000";
+
+  // Item matrix: unit price and line total per vendor, lowest unit price
+  // highlighted
+  const items = workbook.addWorksheet("Items", {
+    views: [{ state: "frozen", xSplit: 3, ySplit: 1 }],
+  });
+  items.addRow([
+    "#",
+    "Item",
+    "Quantity",
+    ...proposals.flatMap(p => [`${p.vendor.name} unit price`, `${p.vendor.name} total`]),
+  ]).font = { bold: true };
+
+  for (const line of comparison.itemMatrix) {
+    const row = items.addRow([
+      line.rfpItemIndex + 1,
+      line.name,
+      line.quantity,
+      ...proposals.flatMap((p): ExcelJS.CellValue[] => {
+        const quote = line.quotes.find(q => q.proposalId === p.id);
+        return quote?.quoted ? [quote.unitPrice, quote.totalPrice] : ["not quoted", null];
+      }),
+    ]);
+    const lowest = proposals.findIndex(p => p.id === line.lowestUnitPriceProposalId);
+    if (lowest !== -1) row.getCell(4 + lowest * 2).fill = BEST_FILL;
+  }
+  items.getColumn(2).width = 32;
+
+  // Compliance checks, one row each
+  const checks = workbook.addWorksheet("Compliance", {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  checks.addRow(["Vendor", "Check", "Hard", "Status", "Reason", "Excluded"]).font = { bold: true };
+  for (const p of proposals) {
+    for (const c of p.compliance.checks) {
+      checks.addRow([p.vendor.name, c.label, c.hard ? "Yes" : "No", c.status, c.reason, "No"]);
+    }
+  }
+  for (const e of comparison.excludedProposals) {
+    for (const c of e.compliance.checks) {
+      checks.addRow([e.vendorName, c.label, c.hard ? "Yes" : "No", c.status, c.reason, "Yes"]);
+    }
+  }
+  checks.getColumn(1).width = 24;
+  checks.getColumn(2).width = 36;
+  checks.getColumn(5).width = 48;
+
+  const settings = workbook.addWorksheet("Weights");
+  settings.addRow(["Criterion", "Type", "Weight"]).font = { bold: true };
+  for (const c of criteria) {
+    settings.addRow([
+      c.type === "evaluation" ? c.label : c.key,
+      c.type,
+      comparison.criteriaWeights[c.key] ?? 0,
+    ]).getCell(3).numFmt = "0%";
+  }
+  settings.getColumn(1).width = 28;
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/* ---------------------------------------------------
+ * Evaluation summary (PDF)
+ * --------------------------------------------------*/
+
+// Collects the document's output; resolves once doc.end() is called
+function collectPdf(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+}
+
+// The comparison report laid out for approvers: recommendation, ranking
+// with per-criterion contributions, budget fit and sensitivity
+export async function buildEvaluationSummaryPdf(
+  report: ComparisonReport,
+  comparison: RfpComparison
+): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", margin: 50 });
+  const output = collectPdf(doc);
+  const currency = report.currency;
+
+  const heading = (text: string) => {
+    doc.moveDown().font("Helvetica-Bold").fontSize(13).text(text).moveDown(0.3);
+    doc.font("Helvetica").fontSize(10);
+  };
+  const bullets = (lines: string[]) => {
+    if (lines.length) doc.list(lines, { bulletRadius: 1.5 });
+    else doc.text("None.");
+  };
+
+  doc.font("Helvetica-Bold").fontSize(18).text(`Evaluation summary: ${report.rfpTitle}`);
+  doc
+    .font("Helvetica")
+    .fontSize(9)
+    .fillColor("gray")
+    .text(`Generated ${report.generatedAt.toISOString()}`)
+    .fillColor("black");
+
+  heading("Recommendation");
+  if (report.narrative) {
+    doc.font("Helvetica-Bold").text(report.narrative.headline).font("Helvetica").moveDown(0.3);
+    doc.text(report.narrative.summary);
+    if (report.narrative.tradeOffs.length) {
+      doc.moveDown(0.3).text("Trade-offs:");
+      bullets(report.narrative.tradeOffs);
+    }
+    if (report.narrative.risks.length) {
+      doc.moveDown(0.3).text("Risks:");
+      bullets(report.narrative.risks);
+    }
+  } else if (report.recommendation) {
+    doc.text(
+      `${report.recommendation.vendorName} ranks first` +
+        (report.recommendation.margin !== null
+          ? ` by ${report.recommendation.margin.toFixed(3)}.`
+          : ".")
+    );
+  } else {
+    doc.text("No proposals were ranked.");
+  }
+
+  if (report.ranking.length) {
+    heading("Ranking");
+    const criteria = report.ranking[0].contributions;
+    const header = ["#", "Vendor", "Price", "Compliance", ...criteria.map(c => `${c.label} (${percent(c.weight)})`), "Total"];
+    doc.fontSize(8).table({
+      data: [
+        header.map(text => ({ text, font: { src: "Helvetica-Bold" }, backgroundColor: "#eeeeee" })),
+        ...report.ranking.map(p => [
+          String(p.rank),
+          p.vendorName,
+          money(p.price, currency),
+          p.complianceStatus,
+          ...p.contributions.map(c => `${c.score.toFixed(2)} / ${c.contribution.toFixed(3)}`),
+          p.totalScore.toFixed(3),
+        ]),
+      ],
+    });
+    doc
+      .fillColor("gray")
+      .text("Criterion cells: score (0-1) / weighted contribution to the total.")
+      .fillColor("black")
+      .fontSize(10);
+  }
+
+  heading("Budget");
+  if (report.budget) {
+    const b = report.budget;
+    doc.text(`Budget: ${money(b.budget, b.currency)}`);
+    doc.text(`Recommended price: ${money(b.recommendedPrice, b.currency)}`);
+    if (b.difference !== null) {
+      doc.text(
+        `${b.difference > 0 ? "Over" : "Under"} budget by ${money(Math.abs(b.difference), b.currency)}` +
+          (b.differencePercent !== null ? ` (${Math.abs(b.differencePercent)}%)` : "")
+      );
+    }
+    doc.text(`Proposals within budget: ${b.proposalsWithinBudget} of ${report.ranking.length}`);
+    if (report.narrative?.budget) doc.moveDown(0.3).text(report.narrative.budget);
+  } else {
+    doc.text("The RFP has no budget.");
+  }
+
+  heading("Sensitivity to weights");
+  bullets(
+    report.sensitivity.map(s => {
+      const points = [s.decrease, s.increase]
+        .filter(t => t !== null)
+        .map(t => `at ${percent(t!.weight)} ${t!.newLeaderVendorName} leads`);
+      return `${s.label} (${percent(s.weight)}): ` + (points.length ? points.join("; ") : "the leader holds at any weight");
+    })
+  );
+
+  if (comparison.evaluations?.visible) {
+    const e = comparison.evaluations;
+    heading("Evaluators");
+    doc.text(
+      `${e.evaluatorsSubmitted} submitted, ${e.evaluatorsPending} pending, ` +
+        `${e.evaluatorsRescoring} reopened for rescoring; ` +
+        `${e.highVarianceCount} scores with high disagreement.`
+    );
+  }
+
+  if (report.excludedProposalIds.length) {
+    heading("Excluded");
+    doc.text(`${report.excludedProposalIds.length} proposal(s) excluded for failing hard compliance checks.`);
+  }
+
+  if (report.narrative) {
+    doc
+      .moveDown()
+      .fontSize(8)
+      .fillColor("gray")
+      .text(
+        report.narrative.source === "llm"
+          ? `Narrative written by ${report.narrative.provider} (${report.narrative.model}), prompt ${report.narrative.promptVersion}.`
+          : "Narrative generated from a fixed template."
+      );
+  }
+
+  doc.end();
+  return output;
+}
+
+/* ---------------------------------------------------
+ * Vendor-facing RFP document (DOCX)
+ * --------------------------------------------------*/
+
+function cell(text: string, bold = false): TableCell {
+  return new TableCell({
+    children: [new Paragraph({ children: [new TextRun({ text, bold })] })],
+  });
+}
+
+// The RFP from its structured spec, for sending to vendors: items with
+// key specs, budget (or, by default, a note that it isn't disclosed),
+// deadlines and commercial terms. Nothing internal (scoring, evaluators,
+// the buyer's original request text) is included.
+export async function buildRfpDocument(
+  rfp: Rfp,
+  opts: { budget?: BudgetVisibility; organizationName?: string } = {}
+): Promise<Buffer> {
+  const spec = specForRfp(rfp);
+  const budgetVisibility = opts.budget ?? "hide";
+
+  const h = (text: string) => new Paragraph({ text, heading: HeadingLevel.HEADING_2 });
+  const p = (text: string) => new Paragraph({ text, spacing: { after: 120 } });
+  const bullet = (text: string) => new Paragraph({ text, bullet: { level: 0 } });
+
+  const itemTable = new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: [cell("#", true), cell("Item", true), cell("Quantity", true), cell("Key specifications", true)],
+      }),
+      ...spec.items.map(
+        (item, i) =>
+          new TableRow({
+            children: [
+              cell(String(i + 1)),
+              cell(item.name),
+              cell(String(item.quantity)),
+              new TableCell({
+                children: item.keySpecs.length
+                  ? item.keySpecs.map(s => bullet(s))
+                  : [new Paragraph("—")],
+              }),
+            ],
+          })
+      ),
+    ],
+  });
+
+  const deadlines: string[] = [];
+  if (rfp.submissionDeadline) {
+    deadlines.push(
+      `Proposals are due by ${formatDate(rfp.submissionDeadline)}. ` +
+        (rfp.latePolicy === "REJECT"
+          ? "Late proposals will not be accepted."
+          : "Late proposals may be considered but will be marked as late.")
+    );
+  }
+  if (rfp.deliveryDeadline) {
+    deadlines.push(`Delivery required by ${formatDate(rfp.deliveryDeadline)}.`);
+  } else if (spec.deliveryDeadlineDaysFromNow != null) {
+    deadlines.push(`Delivery required within ${spec.deliveryDeadlineDaysFromNow} days of award.`);
+  }
+
+  const terms: string[] = [];
+  if (spec.paymentTerms) terms.push(`Payment terms: ${spec.paymentTerms}`);
+  if (spec.minimumWarrantyMonths != null) {
+    terms.push(`Minimum warranty: ${spec.minimumWarrantyMonths} months`);
+  }
+  if (spec.currency) terms.push(`Quote in ${spec.currency}`);
+
+  // Written from the spec: the original request text is the buyer's own
+  // and often names the budget
+  const itemCount = spec.items.length;
+  const overview =
+    `We invite proposals for ${spec.title}` +
+    (itemCount === 0
+      ? "."
+      : `, covering the ${itemCount === 1 ? "item" : `${itemCount} items`} listed below.`);
+
+  let budgetText: string;
+  if (spec.budget == null) {
+    budgetText = "No budget has been set for this request.";
+  } else if (budgetVisibility === "show") {
+    budgetText =
+      `The budget is ${money(spec.budget, spec.currency)}. ` +
+      "Proposals with a total above it will not meet the requirements.";
+  } else {
+    budgetText =
+      "The budget is not disclosed. Proposals are checked against it and " +
+      "those above it will not meet the requirements.";
+  }
+
+  const doc = new Document({
+    title: spec.title,
+    sections: [
+      {
+        children: [
+          new Paragraph({ text: "Request for Proposal", heading: HeadingLevel.TITLE }),
+          new Paragraph({ text: spec.title, heading: HeadingLevel.HEADING_1 }),
+          ...(opts.organizationName ? [p(`Issued by ${opts.organizationName}`)] : []),
+          p(`Date issued: ${formatDate(rfp.publishedAt ?? new Date())}`),
+
+          h("Overview"),
+          p(overview),
+
+          h("Items"),
+          spec.items.length ? itemTable : p("None specified."),
+
+          h("Budget"),
+          p(budgetText),
+
+          h("Deadlines"),
+          ...(deadlines.length ? deadlines.map(bullet) : [p("None specified.")]),
+
+          h("Commercial terms"),
+          ...(terms.length ? terms.map(bullet) : [p("None specified.")]),
+
+          h("How to respond"),
+          p(
+            "Reply with your unit price per item, total price, currency, delivery time " +
+              "(in days), warranty (in months) and payment terms."
+          ),
+          new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            children: [new TextRun({ text: `Reference: ${rfp.id}`, size: 16, color: "808080" })],
+          }),
+        ],
+      },
+    ],
+  });
+
+  return Packer.toBuffer(doc);
+}
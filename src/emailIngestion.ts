@@ -0,0 +1,315 @@
+// src/emailIngestion.ts
+import { EmailJob, Prisma } from ".prisma/client";
+import prisma from "./lib/prisma";
+import { generateProposalFromText } from "./ai";
+import { refreshProposalCompliance } from "./compliance";
+import { buildParseInput, extractEmailAttachments } from "./attachments";
+import { LateProposalError, checkProposalTiming } from "./rfpLifecycle";
+import { buildAiSnapshot } from "./proposalReview";
+import { isUninvitedVendor, recordInvitationResponse } from "./rfpInvitations";
+import { AuditActor, aiExtractionMetadata, recordAudit, systemActor } from "./audit";
+import {
+  createProposalRevision,
+  findPredecessorProposal,
+} from "./proposalRevisions";
+
+const POLL_MS = Number(process.env.EMAIL_WORKER_POLL_MS || 5000);
+const BACKOFF_BASE_MS = Number(process.env.EMAIL_JOB_BACKOFF_MS || 30_000);
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+// RUNNING jobs older than this are assumed orphaned (worker crashed)
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+const WORKER_ACTOR = systemActor("email-worker");
+
+/* ---------------------------------------------------
+ * Parsing: stored inbound email → proposal
+ * --------------------------------------------------*/
+
+// Parses an email that is already linked to an RFP and vendor. Re-parsing
+// an email replaces the fields and line items of its existing proposal; a
+// new email from a vendor who already quoted becomes the next revision.
+// actor is who gets the audit entries (the worker unless a person asked).
+export async function processInboundEmail(
+  emailId: string,
+  opts: { actor?: AuditActor } = {}
+) {
+  const actor = opts.actor ?? WORKER_ACTOR;
+  const email = await prisma.emailMessage.findUniqueOrThrow({
+    where: { id: emailId },
+    include: { rfp: true, vendor: true, proposal: { include: { lineItems: true } } },
+  });
+
+  if (!email.rfp || !email.vendor) {
+    throw new Error("Email is not linked to an RFP and vendor");
+  }
+
+  // Re-parsing keeps the original lateness verdict
+  const isLate = email.proposal
+    ? email.proposal.isLate
+    : checkProposalTiming(email.rfp, email.receivedAt ?? email.createdAt);
+
+  const attachments = await extractEmailAttachments(email.id);
+  const { text, sheetLineItems } = buildParseInput(email.bodyText, attachments);
+  if (!text) {
+    throw new Error("Email has no text body or readable attachments to parse");
+  }
+
+  const { rfp, vendor } = email;
+  const extraction = await generateProposalFromText(text, {
+    rfp,
+    vendor,
+    sheetLineItems,
+  });
+  const parsed = extraction.value;
+
+  const fields = {
+    totalPrice: parsed.totalPrice,
+    currency: parsed.currency ?? rfp.currency ?? null,
+    deliveryDays: parsed.deliveryDays,
+    warrantyMonths: parsed.warrantyMonths,
+    terms: parsed.terms,
+    notes: parsed.notes,
+    fieldConfidence: extraction.fieldConfidence as any,
+    lowConfidenceFields: extraction.lowConfidenceFields,
+    // a fresh parse needs a fresh review
+    aiSnapshot: buildAiSnapshot(parsed) as any,
+    reviewStatus: "DRAFT_PARSED" as const,
+    reviewedBy: null,
+    reviewedAt: null,
+  };
+
+  const include = { vendor: true, email: true, lineItems: true } as const;
+  const uninvitedVendor = await isUninvitedVendor(rfp.id, vendor.id);
+
+  // The email's status, the invitation and the audit trail are written in
+  // the same transaction as the proposal
+  const recordParse = async (
+    tx: Prisma.TransactionClient,
+    proposal: Prisma.ProposalGetPayload<{ include: typeof include }>
+  ) => {
+    await tx.emailMessage.update({
+      where: { id: email.id },
+      data: { status: "PARSED", error: null, uninvitedVendor },
+    });
+    await recordInvitationResponse(rfp.id, vendor.id, tx);
+
+    const { vendor: _vendor, email: _email, ...proposalFields } = proposal;
+    await recordAudit(
+      {
+        organizationId: rfp.organizationId,
+        actor,
+        action: "proposal.ai_extraction",
+        entityType: "PROPOSAL",
+        entityId: proposal.id,
+        before: email.proposal,
+        after: proposalFields,
+        metadata: { emailId: email.id, ...aiExtractionMetadata(extraction) },
+      },
+      tx
+    );
+    await recordAudit(
+      {
+        organizationId: rfp.organizationId,
+        actor,
+        action: "email.status_change",
+        entityType: "EMAIL",
+        entityId: email.id,
+        before: { status: email.status },
+        after: { status: "PARSED", proposalId: proposal.id },
+      },
+      tx
+    );
+  };
+
+  const existing = email.proposal;
+  const proposal = existing
+    ? await prisma.$transaction(async tx => {
+        const proposal = await tx.proposal.update({
+          where: { id: existing.id },
+          data: {
+            ...fields,
+            lineItems: { deleteMany: {}, create: parsed.lineItems },
+          },
+          include,
+        });
+        await recordParse(tx, proposal);
+        return proposal;
+      })
+    : await createProposalRevision(
+        {
+          ...fields,
+          rfpId: rfp.id,
+          vendorId: vendor.id,
+          source: "EMAIL",
+          emailId: email.id,
+          isLate,
+          lineItems: { create: parsed.lineItems },
+        },
+        await findPredecessorProposal(email),
+        include,
+        recordParse
+      );
+
+  const compliance = await refreshProposalCompliance(proposal.id);
+
+  return { proposal, parsed, extraction, compliance };
+}
+
+/* ---------------------------------------------------
+ * Job queue (EmailJob table)
+ * --------------------------------------------------*/
+
+export async function enqueueEmailParse(
+  emailId: string,
+  opts?: { maxAttempts?: number },
+  client: Prisma.TransactionClient = prisma
+): Promise<EmailJob> {
+  await client.emailMessage.update({
+    where: { id: emailId },
+    data: { status: "PENDING", error: null },
+  });
+
+  return client.emailJob.create({
+    data: {
+      emailId,
+      maxAttempts: opts?.maxAttempts ?? 5,
+    },
+  });
+}
+
+function backoffMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+async function requeueStaleJobs() {
+  await prisma.emailJob.updateMany({
+    where: {
+      status: "RUNNING",
+      lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) },
+    },
+    data: { status: "QUEUED", lockedAt: null },
+  });
+}
+
+// Takes the next due job. The conditional update means two workers can't
+// both claim the same row.
+async function claimNextJob(): Promise<EmailJob | null> {
+  const next = await prisma.emailJob.findFirst({
+    where: { status: "QUEUED", runAt: { lte: new Date() } },
+    orderBy: { runAt: "asc" },
+  });
+  if (!next) return null;
+
+  const claimed = await prisma.emailJob.updateMany({
+    where: { id: next.id, status: "QUEUED" },
+    data: {
+      status: "RUNNING",
+      lockedAt: new Date(),
+      attempts: { increment: 1 },
+    },
+  });
+  if (claimed.count === 0) return null;
+
+  return prisma.emailJob.findUnique({ where: { id: next.id } });
+}
+
+async function runJob(job: EmailJob) {
+  try {
+    await processInboundEmail(job.emailId);
+
+    await prisma.emailJob.update({
+      where: { id: job.id },
+      data: { status: "SUCCEEDED", lockedAt: null, lastError: null },
+    });
+  } catch (err: any) {
+    const message = String(err?.message ?? err);
+    console.error(
+      `Email job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`,
+      err
+    );
+
+    // a late proposal won't become on time by retrying
+    if (job.attempts >= job.maxAttempts || err instanceof LateProposalError) {
+      await prisma.$transaction(async tx => {
+        await tx.emailJob.update({
+          where: { id: job.id },
+          data: { status: "FAILED", lockedAt: null, lastError: message },
+        });
+        const email = await tx.emailMessage.update({
+          where: { id: job.emailId },
+          data: { status: "FAILED", error: message },
+        });
+        await recordAudit(
+          {
+            organizationId: email.organizationId,
+            actor: WORKER_ACTOR,
+            action: "email.status_change",
+            entityType: "EMAIL",
+            entityId: email.id,
+            after: { status: "FAILED", error: message },
+            metadata: { jobId: job.id, attempts: job.attempts },
+          },
+          tx
+        );
+      });
+      return;
+    }
+
+    await prisma.emailJob.update({
+      where: { id: job.id },
+      data: {
+        status: "QUEUED",
+        lockedAt: null,
+        lastError: message,
+        runAt: new Date(Date.now() + backoffMs(job.attempts)),
+      },
+    });
+  }
+}
+
+// Runs every due job once; returns how many were processed
+export async function drainEmailJobs(limit = 50): Promise<number> {
+  await requeueStaleJobs();
+
+  let processed = 0;
+  while (processed < limit) {
+    const job = await claimNextJob();
+    if (!job) break;
+    await runJob(job);
+    processed++;
+  }
+  return processed;
+}
+
+/* ---------------------------------------------------
+ * In-process worker loop
+ * --------------------------------------------------*/
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export function startEmailWorker() {
+  if (running) return;
+  running = true;
+
+  const tick = async () => {
+    try {
+      await drainEmailJobs();
+    } catch (err) {
+      console.error("Email worker error:", err);
+    }
+    if (running) {
+      timer = setTimeout(tick, POLL_MS);
+    }
+  };
+
+  timer = setTimeout(tick, 0);
+}
+
+export function stopEmailWorker() {
+  running = false;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
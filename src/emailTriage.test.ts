@@ -0,0 +1,95 @@
+// src/emailTriage.test.ts
+// The queries go to a stub client that records what it was asked for.
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { EmailMessage, Organization, Prisma, Rfp } from ".prisma/client";
+
+// emailTriage.ts builds the Prisma client on import, which never connects
+// unless queried
+process.env.DATABASE_URL ??= "postgres://localhost/triage-test";
+
+function stubClient(rows: { rfps: Partial<Rfp>[]; invitedRfpIds: string[] }) {
+  const queries: Record<string, any> = {};
+  const findMany = (model: string, result: unknown[]) => async (args: unknown) => {
+    queries[model] = args;
+    return result;
+  };
+
+  const client = {
+    rfp: { findMany: findMany("rfp", rows.rfps) },
+    rfpInvitation: {
+      findMany: findMany("rfpInvitation", rows.invitedRfpIds.map(rfpId => ({ rfpId }))),
+    },
+    emailMessage: { findMany: findMany("emailMessage", []) },
+  } as unknown as Prisma.TransactionClient;
+
+  return { client, queries };
+}
+
+const email = {
+  id: "email-1",
+  organizationId: "org-1",
+  from: "sales@acme.example",
+  subject: "Our quote",
+  bodyText: "Please find our price for the office chairs attached.",
+  inReplyTo: null,
+  references: [],
+} as unknown as EmailMessage;
+
+function rfp(id: string, title: string): Partial<Rfp> {
+  return { id, title, structuredSpec: { items: [{ name: title, quantity: 1, keySpecs: [] }] } };
+}
+
+test("RFP suggestions only consider the organization's open RFPs and its invitations", async () => {
+  const { suggestRfps } = await import("./emailTriage");
+  const { client, queries } = stubClient({ rfps: [], invitedRfpIds: [] });
+
+  await suggestRfps(email, ["vendor-1"], client);
+
+  assert.deepEqual(queries.rfp.where, {
+    organizationId: "org-1",
+    status: { in: ["PUBLISHED", "CLOSED"] },
+  });
+  assert.deepEqual(queries.rfpInvitation.where, {
+    vendorId: { in: ["vendor-1"] },
+    rfp: { organizationId: "org-1" },
+  });
+});
+
+test("of two RFPs the email mentions equally, the one the vendor was invited to ranks first", async () => {
+  const { suggestRfps } = await import("./emailTriage");
+  const { client } = stubClient({
+    rfps: [rfp("rfp-lamps", "Office lamps"), rfp("rfp-desks", "Office desks")],
+    invitedRfpIds: ["rfp-desks"],
+  });
+
+  const suggestions = await suggestRfps(email, ["vendor-1"], client);
+
+  assert.deepEqual(
+    suggestions.map(s => s.id),
+    ["rfp-desks", "rfp-lamps"]
+  );
+  assert.ok(suggestions[0].reasons.includes("The suggested vendor was invited to this RFP"));
+});
+
+test("mail outside any organization gets no RFP suggestions", async () => {
+  const { suggestRfps } = await import("./emailTriage");
+  const { client, queries } = stubClient({ rfps: [rfp("rfp-chairs", "Office chairs")], invitedRfpIds: [] });
+
+  const suggestions = await suggestRfps({ ...email, organizationId: null }, ["vendor-1"], client);
+
+  assert.deepEqual(suggestions, []);
+  assert.equal(queries.rfp, undefined);
+});
+
+test("quarantined mail is neither parsed nor given suggestions", async () => {
+  const { inboundFollowUp } = await import("./emailTriage");
+  const org = { id: "org-1" } as Organization;
+  const noOrg = "No organization for recipient rfp@unknown.example";
+
+  assert.equal(inboundFollowUp(null, noOrg, true), null);
+  assert.equal(inboundFollowUp(null, noOrg, false), null);
+  assert.equal(inboundFollowUp(org, "No vendor found with email x@y.example", true), "suggest");
+  assert.equal(inboundFollowUp(org, null, true), "parse");
+  assert.equal(inboundFollowUp(org, null, false), null);
+});
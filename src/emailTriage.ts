@@ -0,0 +1,418 @@
+// src/emailTriage.ts
+import {
+  EmailMessage,
+  Organization,
+  Prisma,
+  Rfp,
+  RfpStatus,
+  Vendor,
+} from ".prisma/client";
+import prisma from "./lib/prisma";
+import { extractEmailAddress, extractRfpSelectorFromSubject } from "./utils/email";
+import { specForRfp } from "./utils/rfpSpec";
+import { findVendorByEmail } from "./vendors";
+import {
+  COMPANY_SUFFIXES,
+  companyLabel,
+  domainOf,
+  isFreemailDomain,
+  normalizeCompany,
+  similarity,
+} from "./utils/company";
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "from", "your", "our", "this", "that", "please",
+  "proposal", "quote", "quotation", "request", "rfp", "regards", "thanks",
+]);
+
+const MAX_SUGGESTIONS = 5;
+const MIN_SCORE = 0.3;
+const RFP_CANDIDATES = 100;
+// RFPs an inbound proposal can still be for
+const OPEN_RFP_STATUSES: RfpStatus[] = ["PUBLISHED", "CLOSED"];
+// Words of the email looked up in vendor names, to find vendors it mentions
+const MENTION_WORDS = 100;
+
+export type InboundMatch = {
+  vendor: Vendor | null;
+  rfp: Rfp | null;
+  // null when both were found
+  unmatchedReason: string | null;
+};
+
+export type TriageSuggestion = {
+  id: string;
+  name: string;
+  score: number;       // 0–1
+  reasons: string[];
+};
+
+export type TriageSuggestions = {
+  vendors: TriageSuggestion[];
+  rfps: TriageSuggestion[];
+};
+
+type EmailForMatching = {
+  from: string | null;
+  subject: string | null;
+  inReplyTo: string | null;
+  references: string[];
+};
+
+/* ---------------------------------------------------
+ * Exact matching (what the webhook links automatically)
+ * --------------------------------------------------*/
+
+// Recipient addresses of an inbound email: To plus the envelope headers
+// providers pass through (a Bcc'd inbox only shows up in those)
+function recipientAddresses(to: string | null, headers: Record<string, string>): string[] {
+  return [to, headers["delivered-to"], headers["x-original-to"]]
+    .flatMap(list => (list ?? "").split(","))
+    .map(extractEmailAddress)
+    .filter((a): a is string => !!a && a.includes("@"));
+}
+
+// Which organization an inbound email is for: a recipient equal to an
+// organization's inboundEmail, or a plus-tag naming its slug
+// (rfp+acme@...). Failing that INBOUND_DEFAULT_ORGANIZATION (a slug), or
+// the only organization if there is just one.
+export async function resolveInboundOrganization(inbound: {
+  to: string | null;
+  headers: Record<string, string>;
+}): Promise<Organization | null> {
+  const recipients = recipientAddresses(inbound.to, inbound.headers);
+
+  if (recipients.length > 0) {
+    const exact = await prisma.organization.findFirst({
+      where: { inboundEmail: { in: recipients } },
+    });
+    if (exact) return exact;
+
+    const slugs = recipients
+      .map(a => a.match(/^[^@+]+\+([^@]+)@/)?.[1])
+      .filter((s): s is string => !!s);
+    if (slugs.length > 0) {
+      const tagged = await prisma.organization.findFirst({
+        where: { slug: { in: slugs } },
+      });
+      if (tagged) return tagged;
+    }
+  }
+
+  const fallback = process.env.INBOUND_DEFAULT_ORGANIZATION;
+  if (fallback) {
+    return prisma.organization.findUnique({ where: { slug: fallback } });
+  }
+
+  const only = await prisma.organization.findMany({ take: 2 });
+  return only.length === 1 ? only[0] : null;
+}
+
+// Where mail for no known organization is kept so somebody sees it:
+// INBOUND_QUARANTINE_ORGANIZATION (a slug), by default the "default"
+// organization the organizations migration created
+export async function quarantineOrganization(): Promise<Organization | null> {
+  const slug = process.env.INBOUND_QUARANTINE_ORGANIZATION || "default";
+  return prisma.organization.findUnique({ where: { slug } });
+}
+
+// Within one organization: vendor by sender address (any of its
+// contacts); RFP by RFPID tag, thread, or subject keyword
+export async function matchInboundEmail(
+  organizationId: string,
+  email: EmailForMatching
+): Promise<InboundMatch> {
+  const vendor = await findVendorByEmail(organizationId, email.from);
+
+  const { rfpId, keyword } = extractRfpSelectorFromSubject(email.subject);
+  let rfp: Rfp | null = null;
+  let rfpReason: string | null = null;
+
+  if (rfpId) {
+    rfp = await prisma.rfp.findFirst({ where: { id: rfpId, organizationId } });
+    if (!rfp) rfpReason = `RFP not found for RFPID ${rfpId} in subject`;
+  }
+
+  // Replies in a thread we know (our RFP mail or an earlier vendor
+  // reply) inherit its RFP even if the subject lost the tag
+  const threadIds = [email.inReplyTo, ...email.references].filter(
+    (id): id is string => !!id
+  );
+  if (!rfp && !rfpReason && threadIds.length > 0) {
+    const threadEmail = await prisma.emailMessage.findFirst({
+      where: { organizationId, messageId: { in: threadIds }, rfpId: { not: null } },
+      include: { rfp: true },
+      orderBy: { createdAt: "desc" },
+    });
+    rfp = threadEmail?.rfp ?? null;
+  }
+
+  if (!rfp && !rfpReason && keyword) {
+    rfp = await prisma.rfp.findFirst({
+      where: { organizationId, title: { contains: keyword, mode: "insensitive" } },
+      orderBy: { createdAt: "desc" },
+    });
+    if (!rfp) rfpReason = `No RFP found matching keyword "${keyword}" from subject`;
+  }
+
+  if (!rfp && !rfpReason) {
+    rfpReason = "No RFP reference (RFPID:<id> or RFP: <keyword>) in subject";
+  }
+
+  const reasons = [
+    !email.from
+      ? "Missing 'from' address"
+      : !vendor
+      ? `No vendor found with email ${email.from}`
+      : null,
+    rfpReason,
+  ].filter(Boolean);
+
+  return {
+    vendor,
+    rfp,
+    unmatchedReason: reasons.length ? reasons.join("; ") : null,
+  };
+}
+
+// What happens to a stored inbound email next. Linked mail with something
+// to read is parsed; unmatched mail waits in the triage inbox with
+// suggestions, except quarantined mail (no organization of its own), which
+// isn't for the quarantine's vendors and RFPs and is left alone.
+export function inboundFollowUp(
+  organization: Organization | null,
+  unmatchedReason: string | null,
+  hasContent: boolean
+): "parse" | "suggest" | null {
+  if (unmatchedReason) return organization ? "suggest" : null;
+  return hasContent ? "parse" : null;
+}
+
+/* ---------------------------------------------------
+ * Suggestions for the triage inbox
+ * --------------------------------------------------*/
+
+function tokens(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .map(t => (t.length > 4 && t.endsWith("s") ? t.slice(0, -1) : t))
+      .filter(t => t.length >= 3 && !STOPWORDS.has(t))
+  );
+}
+
+// Strongest signal counts fully; each further one adds a little
+function combine(scores: number[]): number {
+  const sorted = [...scores].sort((a, b) => b - a);
+  const total = sorted.reduce((acc, s, i) => acc + (i === 0 ? s : s * 0.25), 0);
+  return Math.min(1, Math.round(total * 100) / 100);
+}
+
+function rank(
+  candidates: Map<string, { name: string; scores: number[]; reasons: string[] }>
+): TriageSuggestion[] {
+  return [...candidates.entries()]
+    .map(([id, c]) => ({ id, name: c.name, score: combine(c.scores), reasons: c.reasons }))
+    .filter(s => s.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+async function threadEmails(
+  email: EmailMessage,
+  client: Prisma.TransactionClient = prisma
+) {
+  const ids = [email.inReplyTo, ...email.references].filter(
+    (id): id is string => !!id
+  );
+  if (ids.length === 0) return [];
+  return client.emailMessage.findMany({
+    where: {
+      organizationId: email.organizationId,
+      messageId: { in: ids },
+      id: { not: email.id },
+    },
+  });
+}
+
+// Vendors worth scoring: in the email's thread, with a contact at the
+// sender's domain, with a name sharing a trigram with the domain's company
+// label, or named after a word of the email. The database narrows them
+// down so an email isn't scored against every vendor.
+async function candidateVendors(
+  email: EmailMessage,
+  thread: EmailMessage[],
+  senderDomain: string | null,
+  domainLabel: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  const threadVendorIds = thread
+    .map(t => t.vendorId)
+    .filter((id): id is string => !!id);
+  const usableDomain = senderDomain && !isFreemailDomain(senderDomain) ? senderDomain : null;
+  const labelTrigrams = usableDomain
+    ? [...new Set([...domainLabel].map((_, i) => domainLabel.slice(i, i + 3)))].filter(
+        t => t.length === 3
+      )
+    : [];
+  const words = [
+    ...new Set(
+      `${email.subject ?? ""}\n${email.bodyText ?? ""}`
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(w => w.length >= 3 && !STOPWORDS.has(w))
+    ),
+  ].slice(0, MENTION_WORDS);
+
+  const or: Prisma.VendorWhereInput[] = [
+    ...(threadVendorIds.length ? [{ id: { in: threadVendorIds } }] : []),
+    ...(usableDomain
+      ? [{ contacts: { some: { email: { endsWith: `@${usableDomain}` } } } }]
+      : []),
+    ...[...labelTrigrams, ...words].map(t => ({
+      name: { contains: t, mode: "insensitive" as const },
+    })),
+  ];
+  if (or.length === 0) return [];
+
+  return client.vendor.findMany({
+    where: { organizationId: email.organizationId!, archivedAt: null, OR: or },
+    include: { contacts: { select: { email: true } } },
+  });
+}
+
+// Candidates come from the email's organization only
+export async function suggestVendors(
+  email: EmailMessage,
+  client: Prisma.TransactionClient = prisma
+): Promise<TriageSuggestion[]> {
+  if (!email.organizationId) return [];
+
+  const senderDomain = domainOf(email.from);
+  const domainLabel = senderDomain ? companyLabel(senderDomain) : "";
+  const body = `${email.subject ?? ""}\n${email.bodyText ?? ""}`.toLowerCase();
+  const thread = await threadEmails(email, client);
+  const vendors = await candidateVendors(email, thread, senderDomain, domainLabel, client);
+
+  const candidates = new Map<string, { name: string; scores: number[]; reasons: string[] }>();
+  const add = (v: Vendor, score: number, reason: string) => {
+    const c = candidates.get(v.id) ?? { name: v.name, scores: [], reasons: [] };
+    c.scores.push(score);
+    c.reasons.push(reason);
+    candidates.set(v.id, c);
+  };
+
+  for (const v of vendors) {
+    if (thread.some(t => t.vendorId === v.id)) {
+      add(v, 0.9, "Reply in a thread with this vendor");
+    }
+
+    const vendorDomains = [v.email, ...v.contacts.map(c => c.email)].map(domainOf);
+    if (
+      senderDomain &&
+      vendorDomains.includes(senderDomain) &&
+      !isFreemailDomain(senderDomain)
+    ) {
+      add(v, 0.8, `Sender domain ${senderDomain} matches the vendor's contacts`);
+    }
+
+    const name = normalizeCompany(v.name);
+    const nameScore = similarity(name, domainLabel);
+    if (domainLabel && nameScore >= 0.5 && !isFreemailDomain(senderDomain!)) {
+      add(v, 0.7 * nameScore, `Sender domain resembles "${v.name}"`);
+    }
+
+    const plainName = v.name.toLowerCase().replace(COMPANY_SUFFIXES, "").trim();
+    if (plainName.length >= 4 && body.includes(plainName)) {
+      add(v, 0.5, `Email mentions "${v.name}"`);
+    }
+  }
+
+  return rank(candidates);
+}
+
+// vendorIds: vendors the email is linked to or likely from; RFPs they
+// were invited to rank higher. Only RFPs still taking proposals are
+// suggested (a CLOSED one takes late ones).
+export async function suggestRfps(
+  email: EmailMessage,
+  vendorIds: string[],
+  client: Prisma.TransactionClient = prisma
+): Promise<TriageSuggestion[]> {
+  if (!email.organizationId) return [];
+  const organizationId = email.organizationId;
+  const [rfps, invitations, thread] = await Promise.all([
+    client.rfp.findMany({
+      where: { organizationId, status: { in: OPEN_RFP_STATUSES } },
+      orderBy: { createdAt: "desc" },
+      take: RFP_CANDIDATES,
+    }),
+    vendorIds.length
+      ? client.rfpInvitation.findMany({
+          where: { vendorId: { in: vendorIds }, rfp: { organizationId } },
+          select: { rfpId: true },
+        })
+      : Promise.resolve([]),
+    threadEmails(email, client),
+  ]);
+
+  const invited = new Set(invitations.map(i => i.rfpId));
+  const content = tokens(`${email.subject ?? ""}\n${email.bodyText ?? ""}`);
+  const candidates = new Map<string, { name: string; scores: number[]; reasons: string[] }>();
+
+  for (const rfp of rfps) {
+    const c = { name: rfp.title, scores: [] as number[], reasons: [] as string[] };
+
+    if (thread.some(t => t.rfpId === rfp.id)) {
+      c.scores.push(0.9);
+      c.reasons.push("Reply in a thread about this RFP");
+    }
+    if (invited.has(rfp.id)) {
+      c.scores.push(0.4);
+      c.reasons.push("The suggested vendor was invited to this RFP");
+    }
+
+    const spec = specForRfp(rfp);
+    const rfpTokens = tokens([spec.title, ...spec.items.map(i => i.name)].join(" "));
+    const hits = [...rfpTokens].filter(t => content.has(t));
+    if (rfpTokens.size > 0 && hits.length > 0) {
+      c.scores.push(0.6 * (hits.length / rfpTokens.size));
+      c.reasons.push(`Mentions ${hits.slice(0, 5).join(", ")}`);
+    }
+
+    if (c.scores.length) candidates.set(rfp.id, c);
+  }
+
+  return rank(candidates);
+}
+
+export async function suggestMatches(
+  email: EmailMessage,
+  client: Prisma.TransactionClient = prisma
+): Promise<TriageSuggestions> {
+  const vendors = email.vendorId ? [] : await suggestVendors(email, client);
+  const vendorIds = email.vendorId
+    ? [email.vendorId]
+    : vendors.slice(0, 2).map(v => v.id);
+  const rfps = email.rfpId ? [] : await suggestRfps(email, vendorIds, client);
+
+  return { vendors, rfps };
+}
+
+// Recomputes and stores the suggestions shown in the triage inbox
+export async function refreshTriageSuggestions(
+  emailId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  const email = await client.emailMessage.findUniqueOrThrow({ where: { id: emailId } });
+  const suggestions = await suggestMatches(email, client);
+
+  const stored: Prisma.InputJsonValue = suggestions;
+  await client.emailMessage.update({
+    where: { id: emailId },
+    data: { suggestions: stored },
+  });
+
+  return suggestions;
+}
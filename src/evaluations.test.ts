@@ -0,0 +1,93 @@
+// src/evaluations.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { Evaluation, Prisma, Rfp } from ".prisma/client";
+import type { AuthContext } from "./auth";
+import type { EvaluationCriterion } from "./evaluations";
+
+// evaluations.ts builds the Prisma client on import, which never connects
+// unless queried
+process.env.DATABASE_URL ??= "postgres://localhost/evaluations-test";
+
+const quality: EvaluationCriterion = {
+  key: "quality",
+  type: "evaluation",
+  weight: 1,
+  label: "Quality",
+  scale: 10,
+};
+const proposals = [{ id: "p-1", vendorId: "v-1" }];
+const at = new Date("2026-03-01T00:00:00Z");
+
+function evaluation(
+  id: string,
+  state: { submittedAt?: Date | null; rescoreRequestedAt?: Date | null },
+  score: number,
+  submittedScore: number | null
+) {
+  return {
+    id,
+    rfpId: "rfp-1",
+    evaluatorId: `user-${id}`,
+    submittedAt: state.submittedAt ?? null,
+    rescoreRequestedAt: state.rescoreRequestedAt ?? null,
+    scores: [{ proposalId: "p-1", criterionKey: "quality", score, submittedScore }],
+  } as unknown as Evaluation & {
+    scores: { proposalId: string; criterionKey: string; submittedScore: number | null }[];
+  };
+}
+
+test("a reopened evaluator's unsubmitted edits don't move the consensus", async () => {
+  const { buildConsensus } = await import("./evaluations");
+
+  const { summary, consensus } = buildConsensus([quality], proposals, [
+    evaluation("a", { submittedAt: at }, 8, 8),
+    // reopened, submitted 6 and is now trying 1
+    evaluation("b", { rescoreRequestedAt: at }, 1, 6),
+    // still drafting
+    evaluation("c", {}, 2, null),
+  ]);
+
+  assert.equal(consensus["p-1"].quality, 0.7);
+  assert.equal(summary.evaluatorsSubmitted, 1);
+  assert.equal(summary.evaluatorsRescoring, 1);
+  assert.equal(summary.evaluatorsPending, 1);
+  assert.equal(summary.proposals[0].criteria[0].evaluatorCount, 2);
+});
+
+test("proposals nobody has submitted a score for have no consensus", async () => {
+  const { buildConsensus } = await import("./evaluations");
+
+  const { consensus, summary } = buildConsensus([quality], proposals, [
+    evaluation("c", {}, 9, null),
+  ]);
+
+  assert.deepEqual(consensus, {});
+  assert.equal(summary.proposals[0].criteria[0].consensus, null);
+});
+
+function clientWithOwn(own: Partial<Evaluation> | null) {
+  return {
+    evaluation: { findUnique: async () => own },
+  } as unknown as Prisma.TransactionClient;
+}
+
+test("blind mode hides others' scores until the caller has submitted, and not again after a reopen", async () => {
+  const { isBlinded } = await import("./evaluations");
+  const rfp = { id: "rfp-1", blindEvaluation: true } as Rfp;
+  const evaluator = { userId: "user-a", role: "EVALUATOR" } as AuthContext;
+  const buyer = { userId: "user-b", role: "BUYER" } as AuthContext;
+
+  assert.equal(await isBlinded(rfp, evaluator, clientWithOwn(null)), true);
+  assert.equal(await isBlinded(rfp, buyer, clientWithOwn(null)), false);
+  assert.equal(await isBlinded(rfp, evaluator, clientWithOwn({ submittedAt: null })), true);
+  assert.equal(await isBlinded(rfp, evaluator, clientWithOwn({ submittedAt: at })), false);
+  assert.equal(
+    await isBlinded(rfp, evaluator, clientWithOwn({ submittedAt: null, rescoreRequestedAt: at })),
+    false
+  );
+  assert.equal(
+    await isBlinded({ ...rfp, blindEvaluation: false }, evaluator, clientWithOwn(null)),
+    false
+  );
+});
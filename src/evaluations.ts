@@ -0,0 +1,385 @@
+// src/evaluations.ts
+import { Evaluation, Prisma, Rfp } from ".prisma/client";
+import prisma from "./lib/prisma";
+import { getClock } from "./lib/clock";
+import { AuthContext } from "./auth";
+import { AuditInTransaction } from "./audit";
+import { ScoringCriterion, resolveScoringCriteria } from "./proposalScoring";
+
+// Standard deviation of evaluators' scores (as a fraction of the scale)
+// above which a proposal / criterion is flagged for discussion
+const VARIANCE_THRESHOLD = Number(process.env.EVALUATION_VARIANCE_THRESHOLD || 0.2);
+
+export type EvaluationCriterion = Extract<ScoringCriterion, { type: "evaluation" }>;
+
+export type ScoreEntry = {
+  proposalId: string;
+  criterionKey: string;
+  score: number;
+  comment?: string | null;
+};
+
+export type CriterionConsensus = {
+  key: string;
+  label: string;
+  scale: number;
+  evaluatorCount: number;
+  mean: number | null;       // on the criterion's scale
+  consensus: number | null;  // mean / scale, 0–1; what scoring uses
+  min: number | null;
+  max: number | null;
+  stdDev: number | null;     // fraction of the scale
+  highVariance: boolean;
+};
+
+export type ProposalConsensus = {
+  proposalId: string;
+  vendorId: string;
+  criteria: CriterionConsensus[];
+};
+
+export type EvaluationSummary = {
+  // false when the caller may not see evaluators' scores yet (blind mode)
+  visible: boolean;
+  evaluatorsSubmitted: number;
+  evaluatorsPending: number;
+  // reopened after submission; their last submitted scores still count
+  evaluatorsRescoring: number;
+  proposals: ProposalConsensus[];
+  highVarianceCount: number;
+};
+
+export function evaluationCriteria(rfp: Rfp): EvaluationCriterion[] {
+  return resolveScoringCriteria(rfp).filter(
+    (c): c is EvaluationCriterion => c.type === "evaluation"
+  );
+}
+
+// Proposals evaluators score: the same ones the comparison ranks
+export function proposalsToEvaluate(rfpId: string) {
+  return prisma.proposal.findMany({
+    where: { rfpId, isLatest: true, reviewStatus: { not: "REJECTED" } },
+    include: { vendor: { select: { id: true, name: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+// Blind mode: anyone still scoring (a draft evaluation), and evaluators
+// who haven't submitted, only see their own scores. Being reopened for
+// rescoring doesn't blind an evaluator again.
+export async function isBlinded(
+  rfp: Rfp,
+  auth: AuthContext,
+  client: Prisma.TransactionClient = prisma
+): Promise<boolean> {
+  if (!rfp.blindEvaluation) return false;
+
+  const own = await client.evaluation.findUnique({
+    where: { rfpId_evaluatorId: { rfpId: rfp.id, evaluatorId: auth.userId } },
+  });
+  if (own) return !own.submittedAt && !own.rescoreRequestedAt;
+  return auth.role === "EVALUATOR";
+}
+
+/* ---------------------------------------------------
+ * Scoring
+ * --------------------------------------------------*/
+
+// Checks entries against the RFP's evaluation criteria and competing
+// proposals; returns the problems found
+export async function validateScoreEntries(rfp: Rfp, raw: unknown): Promise<string[]> {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return ["scores must be a non-empty array"];
+  }
+
+  const criteria = evaluationCriteria(rfp);
+  const proposalIds = new Set((await proposalsToEvaluate(rfp.id)).map(p => p.id));
+  const errors: string[] = [];
+
+  raw.forEach((e: any, i) => {
+    const where = `scores[${i}]`;
+    const criterion = criteria.find(c => c.key === e?.criterionKey);
+
+    if (!e || typeof e !== "object") {
+      errors.push(`${where} must be an object`);
+    } else if (!proposalIds.has(e.proposalId)) {
+      errors.push(`${where}.proposalId is not a proposal under evaluation`);
+    } else if (!criterion) {
+      errors.push(
+        `${where}.criterionKey must be one of ${criteria.map(c => c.key).join(", ") || "(none)"}`
+      );
+    } else if (
+      typeof e.score !== "number" ||
+      !Number.isFinite(e.score) ||
+      e.score < 0 ||
+      e.score > criterion.scale
+    ) {
+      errors.push(`${where}.score must be a number from 0 to ${criterion.scale}`);
+    } else if (e.comment != null && typeof e.comment !== "string") {
+      errors.push(`${where}.comment must be a string`);
+    }
+  });
+
+  return errors;
+}
+
+// Saves (or overwrites) the evaluator's scores, creating their evaluation
+// on first use. Callers check it isn't submitted yet. A saved score is no
+// longer a carried-over one; it counts once the evaluation is submitted.
+export async function saveScores(
+  rfpId: string,
+  evaluatorId: string,
+  entries: ScoreEntry[],
+  audit?: AuditInTransaction<Evaluation>
+) {
+  return prisma.$transaction(async tx => {
+    const evaluation = await tx.evaluation.upsert({
+      where: { rfpId_evaluatorId: { rfpId, evaluatorId } },
+      create: { rfpId, evaluatorId },
+      update: {},
+    });
+
+    for (const e of entries) {
+      const data = {
+        score: e.score,
+        comment: e.comment ?? null,
+        carriedFromProposalId: null,
+      };
+      await tx.evaluationScore.upsert({
+        where: {
+          evaluationId_proposalId_criterionKey: {
+            evaluationId: evaluation.id,
+            proposalId: e.proposalId,
+            criterionKey: e.criterionKey,
+          },
+        },
+        create: {
+          evaluationId: evaluation.id,
+          proposalId: e.proposalId,
+          criterionKey: e.criterionKey,
+          ...data,
+        },
+        update: data,
+      });
+    }
+
+    await audit?.(tx, evaluation);
+    return tx.evaluation.findUniqueOrThrow({
+      where: { id: evaluation.id },
+      include: { scores: { orderBy: { createdAt: "asc" } } },
+    });
+  });
+}
+
+// Locks the evaluation's scores in: they become the ones the consensus
+// counts. Callers check every proposal is scored and none is stale.
+export async function submitEvaluation(
+  evaluation: Evaluation,
+  audit?: AuditInTransaction<Evaluation>
+) {
+  return prisma.$transaction(async tx => {
+    const scores = await tx.evaluationScore.findMany({
+      where: { evaluationId: evaluation.id },
+      select: { id: true, score: true },
+    });
+    for (const s of scores) {
+      await tx.evaluationScore.update({
+        where: { id: s.id },
+        data: { submittedScore: s.score },
+      });
+    }
+
+    const submitted = await tx.evaluation.update({
+      where: { id: evaluation.id },
+      data: { submittedAt: getClock().now(), rescoreRequestedAt: null },
+      include: { scores: { orderBy: { createdAt: "asc" } } },
+    });
+    await audit?.(tx, submitted);
+    return submitted;
+  });
+}
+
+// Sends a submitted evaluation back to its evaluator. Like a revised
+// proposal does, it keeps counting on its submitted scores meanwhile and
+// doesn't blind the evaluator again.
+export async function reopenEvaluation(
+  evaluation: Evaluation,
+  audit?: AuditInTransaction<Evaluation>
+) {
+  return prisma.$transaction(async tx => {
+    const reopened = await tx.evaluation.update({
+      where: { id: evaluation.id },
+      data: { submittedAt: null, rescoreRequestedAt: getClock().now() },
+    });
+    await audit?.(tx, reopened);
+    return reopened;
+  });
+}
+
+// Proposal × criterion pairs the evaluation has no score for
+export async function missingScores(
+  rfp: Rfp,
+  evaluationId: string | null
+): Promise<{ proposalId: string; criterionKey: string }[]> {
+  const [proposals, scores] = await Promise.all([
+    proposalsToEvaluate(rfp.id),
+    evaluationId
+      ? prisma.evaluationScore.findMany({ where: { evaluationId } })
+      : Promise.resolve([]),
+  ]);
+
+  const missing: { proposalId: string; criterionKey: string }[] = [];
+  for (const p of proposals) {
+    for (const c of evaluationCriteria(rfp)) {
+      if (!scores.some(s => s.proposalId === p.id && s.criterionKey === c.key)) {
+        missing.push({ proposalId: p.id, criterionKey: c.key });
+      }
+    }
+  }
+  return missing;
+}
+
+// Scores copied from an earlier revision the evaluator hasn't confirmed
+// or changed yet
+export async function staleScores(
+  evaluationId: string
+): Promise<{ proposalId: string; criterionKey: string }[]> {
+  return prisma.evaluationScore.findMany({
+    where: { evaluationId, carriedFromProposalId: { not: null } },
+    select: { proposalId: true, criterionKey: true },
+  });
+}
+
+// A new revision replaces the proposal evaluators scored: their scores
+// move onto it marked as carried over, and submitted evaluations are
+// reopened so the evaluators rescore it. Runs in the revision's
+// transaction.
+export async function carryOverEvaluationScores(
+  fromProposalId: string,
+  toProposalId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  const scores = await client.evaluationScore.findMany({
+    where: { proposalId: fromProposalId },
+  });
+  if (scores.length === 0) return;
+
+  await client.evaluationScore.createMany({
+    data: scores.map(s => ({
+      evaluationId: s.evaluationId,
+      proposalId: toProposalId,
+      criterionKey: s.criterionKey,
+      score: s.score,
+      submittedScore: s.submittedScore,
+      comment: s.comment,
+      carriedFromProposalId: fromProposalId,
+    })),
+  });
+  await client.evaluation.updateMany({
+    where: {
+      id: { in: [...new Set(scores.map(s => s.evaluationId))] },
+      submittedAt: { not: null },
+    },
+    data: { submittedAt: null, rescoreRequestedAt: getClock().now() },
+  });
+}
+
+/* ---------------------------------------------------
+ * Consensus
+ * --------------------------------------------------*/
+
+function round(value: number | null, digits = 3): number | null {
+  if (value === null) return null;
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+function summarizeScores(criterion: EvaluationCriterion, scores: number[]): CriterionConsensus {
+  const n = scores.length;
+  const mean = n ? scores.reduce((a, b) => a + b, 0) / n : null;
+  const stdDev =
+    mean !== null && n > 1
+      ? Math.sqrt(scores.reduce((acc, s) => acc + (s - mean) ** 2, 0) / n) / criterion.scale
+      : null;
+
+  return {
+    key: criterion.key,
+    label: criterion.label,
+    scale: criterion.scale,
+    evaluatorCount: n,
+    mean: round(mean),
+    consensus: mean === null ? null : round(mean / criterion.scale),
+    min: n ? Math.min(...scores) : null,
+    max: n ? Math.max(...scores) : null,
+    stdDev: round(stdDev),
+    highVariance: stdDev !== null && stdDev > VARIANCE_THRESHOLD,
+  };
+}
+
+type EvaluationWithScores = Evaluation & {
+  scores: { proposalId: string; criterionKey: string; submittedScore: number | null }[];
+};
+
+// Consensus over submitted evaluations, and ones reopened for rescoring on
+// their last submitted scores: edits an evaluator makes while reopened
+// don't count until they submit again
+export function buildConsensus(
+  criteria: EvaluationCriterion[],
+  proposals: { id: string; vendorId: string }[],
+  evaluations: EvaluationWithScores[]
+): { summary: EvaluationSummary; consensus: Record<string, Record<string, number>> } {
+  const submitted = evaluations.filter(e => e.submittedAt);
+  const rescoring = evaluations.filter(e => !e.submittedAt && e.rescoreRequestedAt);
+  const counted = [...submitted, ...rescoring];
+
+  const consensus: Record<string, Record<string, number>> = {};
+  const summaries: ProposalConsensus[] = proposals.map(p => {
+    const perCriterion = criteria.map(c =>
+      summarizeScores(
+        c,
+        counted.flatMap(e =>
+          e.scores
+            .filter(s => s.proposalId === p.id && s.criterionKey === c.key)
+            .map(s => s.submittedScore)
+            .filter((s): s is number => s !== null)
+        )
+      )
+    );
+
+    for (const c of perCriterion) {
+      if (c.consensus !== null) (consensus[p.id] ??= {})[c.key] = c.consensus;
+    }
+    return { proposalId: p.id, vendorId: p.vendorId, criteria: perCriterion };
+  });
+
+  return {
+    summary: {
+      visible: true,
+      evaluatorsSubmitted: submitted.length,
+      evaluatorsPending: evaluations.length - counted.length,
+      evaluatorsRescoring: rescoring.length,
+      proposals: summaries,
+      highVarianceCount: summaries
+        .flatMap(p => p.criteria)
+        .filter(c => c.highVariance).length,
+    },
+    consensus,
+  };
+}
+
+// Per proposal and criterion, plus the proposalId → key → 0–1 map
+// compareProposalsForRfp takes
+export async function summarizeEvaluations(rfp: Rfp): Promise<{
+  summary: EvaluationSummary;
+  consensus: Record<string, Record<string, number>>;
+}> {
+  const [proposals, evaluations] = await Promise.all([
+    proposalsToEvaluate(rfp.id),
+    prisma.evaluation.findMany({
+      where: { rfpId: rfp.id },
+      include: { scores: true },
+    }),
+  ]);
+
+  return buildConsensus(evaluationCriteria(rfp), proposals, evaluations);
+}
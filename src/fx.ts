@@ -0,0 +1,143 @@
+// src/fx.ts
+import { FxRate } from ".prisma/client";
+
+export type FxConversion = {
+  amount: number;
+  rate: number;
+  rateAsOf: Date | null; // null when no conversion was needed
+  via: string | null;    // cross currency used, if any
+};
+
+export type FxConverter = {
+  convert(amount: number, from: string, to: string): FxConversion | null;
+};
+
+// Proposal price as quoted and as compared (in the RFP currency)
+export type ProposalPricing = {
+  originalAmount: number | null;
+  originalCurrency: string | null;
+  convertedAmount: number | null;
+  convertedCurrency: string | null;
+  fxRate: number | null;
+  fxRateAsOf: Date | null;
+  fxVia: string | null;
+  fxMissing: boolean; // true when no rate could convert the quote
+};
+
+export function normalizeCurrency(c: string | null | undefined): string | null {
+  if (!c) return null;
+  const trimmed = c.trim().toUpperCase();
+  return trimmed || null;
+}
+
+// Builds a converter over a set of stored rates. For each pair the latest
+// rate on or before `asOf` is used; inverse rates and a single cross
+// currency hop (e.g. USD -> EUR -> INR) are derived when needed.
+export function buildFxConverter(
+  rates: FxRate[],
+  asOf: Date = new Date()
+): FxConverter {
+  // "BASE/QUOTE" -> latest usable rate
+  const latest = new Map<string, FxRate>();
+  for (const r of rates) {
+    if (r.asOf > asOf || !(r.rate > 0)) continue;
+    const key = `${normalizeCurrency(r.baseCurrency)}/${normalizeCurrency(r.quoteCurrency)}`;
+    const current = latest.get(key);
+    if (!current || r.asOf > current.asOf) {
+      latest.set(key, r);
+    }
+  }
+
+  function direct(from: string, to: string): { rate: number; asOf: Date } | null {
+    const fwd = latest.get(`${from}/${to}`);
+    const inv = latest.get(`${to}/${from}`);
+
+    // prefer the more recent of the two directions
+    if (fwd && (!inv || fwd.asOf >= inv.asOf)) {
+      return { rate: fwd.rate, asOf: fwd.asOf };
+    }
+    if (inv) {
+      return { rate: 1 / inv.rate, asOf: inv.asOf };
+    }
+    return null;
+  }
+
+  const currencies = new Set<string>();
+  for (const key of latest.keys()) {
+    const [b, q] = key.split("/");
+    currencies.add(b);
+    currencies.add(q);
+  }
+
+  return {
+    convert(amount, fromRaw, toRaw) {
+      const from = normalizeCurrency(fromRaw);
+      const to = normalizeCurrency(toRaw);
+      if (!from || !to) return null;
+
+      if (from === to) {
+        return { amount, rate: 1, rateAsOf: null, via: null };
+      }
+
+      const d = direct(from, to);
+      if (d) {
+        return { amount: amount * d.rate, rate: d.rate, rateAsOf: d.asOf, via: null };
+      }
+
+      for (const via of currencies) {
+        if (via === from || via === to) continue;
+        const a = direct(from, via);
+        const b = a ? direct(via, to) : null;
+        if (a && b) {
+          const rate = a.rate * b.rate;
+          // a cross rate is only as fresh as its older leg
+          const rateAsOf = a.asOf < b.asOf ? a.asOf : b.asOf;
+          return { amount: amount * rate, rate, rateAsOf, via };
+        }
+      }
+
+      return null;
+    },
+  };
+}
+
+// Converts a quote into the target (RFP) currency. Quotes without a
+// currency are assumed to be in the target currency. The rate is looked
+// up even without a total, for line item prices.
+export function priceInCurrency(
+  p: { totalPrice: number | null; currency: string | null },
+  targetCurrency: string | null,
+  fx: FxConverter | undefined
+): ProposalPricing {
+  const originalCurrency = normalizeCurrency(p.currency) ?? targetCurrency;
+  const pricing: ProposalPricing = {
+    originalAmount: p.totalPrice,
+    originalCurrency,
+    convertedAmount: null,
+    convertedCurrency: targetCurrency ?? originalCurrency,
+    fxRate: null,
+    fxRateAsOf: null,
+    fxVia: null,
+    fxMissing: false,
+  };
+
+  // No RFP currency, or same currency: compare as quoted
+  if (!targetCurrency || !originalCurrency || originalCurrency === targetCurrency) {
+    pricing.convertedAmount = p.totalPrice;
+    pricing.fxRate = 1;
+    return pricing;
+  }
+
+  const conversion = fx?.convert(1, originalCurrency, targetCurrency);
+  if (!conversion) {
+    // nothing to compare without a price either way
+    pricing.fxMissing = p.totalPrice != null;
+    return pricing;
+  }
+
+  pricing.convertedAmount = p.totalPrice == null ? null : p.totalPrice * conversion.rate;
+  pricing.fxRate = conversion.rate;
+  pricing.fxRateAsOf = conversion.rateAsOf;
+  pricing.fxVia = conversion.via;
+  return pricing;
+}
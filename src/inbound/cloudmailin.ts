@@ -0,0 +1,52 @@
+import { Request } from "express";
+import { InboundAttachment } from "../attachments";
+import {
+  InboundAdapter,
+  InboundEmail,
+  VerifyResult,
+  buildInboundEmail,
+  normalizeHeaders,
+  verifyBasicAuth,
+} from "./adapter";
+
+// CloudMailin "JSON (normalized)" format: envelope, headers, plain, html,
+// attachments (inline base64 `content`, or `url` with an attachment store)
+function cloudMailinAttachments(raw: unknown): InboundAttachment[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((a: any) => a && (a.content || a.url))
+    .map((a: any) => ({
+      filename: a.file_name || a.filename || "attachment",
+      contentType: a.content_type || null,
+      size: Number.isFinite(Number(a.size)) ? Number(a.size) : null,
+      content: a.content ? Buffer.from(String(a.content), "base64") : null,
+      url: a.url || null,
+    }));
+}
+
+export class CloudMailinAdapter implements InboundAdapter {
+  name = "cloudmailin";
+
+  // CloudMailin posts with the credentials embedded in the target URL
+  verify(req: Request): VerifyResult {
+    return verifyBasicAuth(req, "CLOUDMAILIN_BASIC_AUTH");
+  }
+
+  async parse(req: Request): Promise<InboundEmail> {
+    const body = (req.body || {}) as any;
+    if (typeof body !== "object" || (!body.headers && !body.envelope)) {
+      throw new Error("Expected CloudMailin JSON with 'headers' and 'envelope'");
+    }
+    const envelope = body.envelope || {};
+
+    return buildInboundEmail(this.name, {
+      from: envelope.from || undefined,
+      to: envelope.to || undefined,
+      text: body.plain,
+      html: body.html,
+      headers: normalizeHeaders(body.headers),
+      attachments: cloudMailinAttachments(body.attachments),
+      spf: envelope.spf?.result ? String(envelope.spf.result).toLowerCase() : undefined,
+    });
+  }
+}
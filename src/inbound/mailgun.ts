@@ -0,0 +1,83 @@
+import { Request } from "express";
+import {
+  InboundAdapter,
+  InboundEmail,
+  VerifyResult,
+  buildInboundEmail,
+  hmacSha256Hex,
+  missingSecret,
+  normalizeHeaders,
+  safeEqual,
+  uploadedFiles,
+} from "./adapter";
+import { parseRawMime } from "./mime";
+
+// Signed timestamps older than this are treated as replays
+const MAX_SIGNATURE_AGE_S = 15 * 60;
+
+// Mailgun route forwarding (form fields; files as attachment-1..n). A
+// route whose URL ends in "mime" posts the raw message as `body-mime`.
+export class MailgunAdapter implements InboundAdapter {
+  name = "mailgun";
+
+  // HMAC-SHA256(timestamp + token) with the webhook signing key
+  verify(req: Request): VerifyResult {
+    const key = process.env.MAILGUN_WEBHOOK_SIGNING_KEY;
+    if (!key) return missingSecret("MAILGUN_WEBHOOK_SIGNING_KEY");
+
+    const body = (req.body || {}) as any;
+    // routes post flat form fields; JSON webhooks nest them
+    const sig = typeof body.signature === "object" && body.signature ? body.signature : body;
+    const { timestamp, token, signature } = sig;
+    if (!timestamp || !token || typeof signature !== "string") {
+      return { ok: false, reason: "Missing Mailgun timestamp, token or signature" };
+    }
+
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!Number.isFinite(age) || age > MAX_SIGNATURE_AGE_S) {
+      return { ok: false, reason: "Mailgun signature timestamp is too old" };
+    }
+
+    return safeEqual(hmacSha256Hex(key, `${timestamp}${token}`), signature)
+      ? { ok: true, method: "hmac" }
+      : { ok: false, reason: "Invalid Mailgun signature" };
+  }
+
+  async parse(req: Request): Promise<InboundEmail> {
+    const body = (req.body || {}) as any;
+
+    if (typeof body["body-mime"] === "string" && body["body-mime"].trim()) {
+      return parseRawMime(body["body-mime"], this.name);
+    }
+    if (!body.sender && !body.from) {
+      throw new Error("Expected Mailgun route form fields");
+    }
+
+    let headerPairs: [string, unknown][] = [];
+    try {
+      const parsed = JSON.parse(body["message-headers"] || "[]");
+      if (Array.isArray(parsed)) headerPairs = parsed;
+    } catch {
+      // headers are optional; the named fields below still work
+    }
+
+    const attachments = uploadedFiles(req).map(f => ({
+      filename: f.originalname || f.fieldname,
+      contentType: f.mimetype || null,
+      size: f.size,
+      content: f.buffer,
+      url: null,
+    }));
+
+    return buildInboundEmail(this.name, {
+      from: body.sender || body.from,
+      to: body.recipient || body.To || body.to,
+      subject: body.subject ?? body.Subject ?? null,
+      text: body["body-plain"],
+      html: body["body-html"],
+      messageId: body["Message-Id"] || undefined,
+      headers: normalizeHeaders(headerPairs),
+      attachments,
+    });
+  }
+}
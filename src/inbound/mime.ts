@@ -0,0 +1,105 @@
+import { Request } from "express";
+import { AddressObject, simpleParser } from "mailparser";
+import {
+  InboundAdapter,
+  InboundEmail,
+  VerifyResult,
+  buildInboundEmail,
+  hmacSha256Hex,
+  missingSecret,
+  normalizeHeaders,
+  safeEqual,
+  uploadedFiles,
+} from "./adapter";
+
+function firstAddress(addr: AddressObject | AddressObject[] | undefined): string | undefined {
+  const list = Array.isArray(addr) ? addr : addr ? [addr] : [];
+  for (const a of list) {
+    const found = a.value.find(v => v.address);
+    if (found?.address) return found.address;
+  }
+  return undefined;
+}
+
+// Parses a complete RFC 822 message: multipart bodies, quoted-printable /
+// base64 transfer encodings, charsets and attachments
+export async function parseRawMime(
+  raw: Buffer | string,
+  provider = "mime"
+): Promise<InboundEmail> {
+  const mail = await simpleParser(raw);
+
+  const headerEntries: [string, unknown][] = [];
+  for (const line of mail.headerLines) {
+    const idx = line.line.indexOf(":");
+    headerEntries.push([line.key, idx > 0 ? line.line.slice(idx + 1).trim() : ""]);
+  }
+
+  const references = mail.references
+    ? Array.isArray(mail.references)
+      ? mail.references
+      : [mail.references]
+    : [];
+
+  return buildInboundEmail(provider, {
+    from: firstAddress(mail.from),
+    to: firstAddress(mail.to),
+    subject: mail.subject ?? null,
+    text: mail.text,
+    html: mail.html || undefined,
+    messageId: mail.messageId,
+    inReplyTo: mail.inReplyTo,
+    references,
+    headers: normalizeHeaders(headerEntries),
+    attachments: mail.attachments.map(a => ({
+      filename: a.filename || "attachment",
+      contentType: a.contentType || null,
+      size: a.size ?? a.content.length,
+      content: a.content,
+      url: null,
+    })),
+  });
+}
+
+// Raw message as the request body (Content-Type: message/rfc822), or an
+// .eml uploaded as multipart form data — handy for replaying mail locally
+export class MimeAdapter implements InboundAdapter {
+  name = "mime";
+
+  private rawMessage(req: Request): Buffer | string | null {
+    const file = uploadedFiles(req)[0];
+    return Buffer.isBuffer(req.body)
+      ? req.body
+      : file
+      ? file.buffer
+      : typeof req.body?.raw === "string"
+      ? req.body.raw
+      : null;
+  }
+
+  // X-Inbound-Signature: sha256=<hex HMAC of the raw message>
+  verify(req: Request): VerifyResult {
+    const secret = process.env.MIME_INBOUND_SECRET;
+    if (!secret) return missingSecret("MIME_INBOUND_SECRET");
+
+    const raw = this.rawMessage(req);
+    const header = String(req.headers["x-inbound-signature"] ?? "");
+    if (!raw || !header) {
+      return { ok: false, reason: "Missing X-Inbound-Signature header" };
+    }
+
+    const given = header.replace(/^sha256=/i, "");
+    return safeEqual(hmacSha256Hex(secret, raw), given)
+      ? { ok: true, method: "hmac" }
+      : { ok: false, reason: "Invalid X-Inbound-Signature" };
+  }
+
+  async parse(req: Request): Promise<InboundEmail> {
+    const raw = this.rawMessage(req);
+
+    if (!raw || raw.length === 0) {
+      throw new Error("Expected a raw RFC 822 message in the request body");
+    }
+    return parseRawMime(raw, this.name);
+  }
+}
@@ -0,0 +1,50 @@
+import { Request } from "express";
+import {
+  InboundAdapter,
+  InboundEmail,
+  VerifyResult,
+  buildInboundEmail,
+  normalizeHeaders,
+  verifyBasicAuth,
+} from "./adapter";
+
+// Postmark inbound webhook JSON. Its "MessageID" is Postmark's own id; the
+// RFC Message-ID comes from the Headers list.
+export class PostmarkAdapter implements InboundAdapter {
+  name = "postmark";
+
+  // Postmark supports basic auth credentials in the inbound webhook URL
+  verify(req: Request): VerifyResult {
+    return verifyBasicAuth(req, "POSTMARK_INBOUND_BASIC_AUTH");
+  }
+
+  async parse(req: Request): Promise<InboundEmail> {
+    const body = (req.body || {}) as any;
+    if (typeof body !== "object" || (!body.From && !body.FromFull)) {
+      throw new Error("Expected Postmark inbound JSON with 'From'");
+    }
+
+    const headers = normalizeHeaders(
+      (Array.isArray(body.Headers) ? body.Headers : []).map((h: any) => [h.Name, h.Value])
+    );
+    const attachments = (Array.isArray(body.Attachments) ? body.Attachments : [])
+      .filter((a: any) => a && a.Content)
+      .map((a: any) => ({
+        filename: a.Name || "attachment",
+        contentType: a.ContentType || null,
+        size: Number.isFinite(Number(a.ContentLength)) ? Number(a.ContentLength) : null,
+        content: Buffer.from(String(a.Content), "base64"),
+        url: null,
+      }));
+
+    return buildInboundEmail(this.name, {
+      from: body.FromFull?.Email || body.From,
+      to: body.OriginalRecipient || body.ToFull?.[0]?.Email || body.To,
+      subject: body.Subject ?? null,
+      text: body.TextBody,
+      html: body.HtmlBody,
+      headers,
+      attachments,
+    });
+  }
+}
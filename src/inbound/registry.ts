@@ -0,0 +1,43 @@
+import "dotenv/config";
+import { InboundAdapter } from "./adapter";
+import { CloudMailinAdapter } from "./cloudmailin";
+import { MailgunAdapter } from "./mailgun";
+import { MimeAdapter } from "./mime";
+import { PostmarkAdapter } from "./postmark";
+import { SendGridAdapter } from "./sendgrid";
+
+/* ---------------------------------------------------
+ * Inbound email adapters. POST /webhooks/email/:provider picks one by
+ * name; plain /webhooks/email uses INBOUND_EMAIL_PROVIDER (default
+ * "cloudmailin") so switching providers is a config change.
+ *
+ * Each adapter verifies the request before it is parsed:
+ *   CLOUDMAILIN_BASIC_AUTH        "user:pass" from the webhook URL
+ *   SENDGRID_INBOUND_BASIC_AUTH   "user:pass" from the webhook URL
+ *   POSTMARK_INBOUND_BASIC_AUTH   "user:pass" from the webhook URL
+ *   MAILGUN_WEBHOOK_SIGNING_KEY   HMAC key for timestamp + token
+ *   MIME_INBOUND_SECRET           HMAC key for X-Inbound-Signature
+ *   INBOUND_ALLOW_UNVERIFIED      "true" accepts providers without a
+ *                                 configured secret (local dev only)
+ * --------------------------------------------------*/
+
+const ADAPTERS: InboundAdapter[] = [
+  new CloudMailinAdapter(),
+  new SendGridAdapter(),
+  new MailgunAdapter(),
+  new PostmarkAdapter(),
+  new MimeAdapter(),
+];
+
+export function getInboundAdapter(name: string): InboundAdapter | null {
+  const key = name.trim().toLowerCase();
+  return ADAPTERS.find(a => a.name === key) ?? null;
+}
+
+export function defaultInboundProvider(): string {
+  return process.env.INBOUND_EMAIL_PROVIDER || "cloudmailin";
+}
+
+export function inboundProviderNames(): string[] {
+  return ADAPTERS.map(a => a.name);
+}
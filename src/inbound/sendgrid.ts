@@ -0,0 +1,75 @@
+import { Request } from "express";
+import {
+  InboundAdapter,
+  InboundEmail,
+  VerifyResult,
+  buildInboundEmail,
+  parseHeaderBlock,
+  uploadedFiles,
+  verifyBasicAuth,
+} from "./adapter";
+import { parseRawMime } from "./mime";
+
+function parseJsonField(raw: unknown): any {
+  if (typeof raw !== "string") return raw ?? null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+// "{@example.com : pass}" → "pass"; "pass" → "pass"
+function resultFromField(raw: unknown): string | undefined {
+  if (typeof raw !== "string" || !raw.trim()) return undefined;
+  const m = raw.match(/:\s*([a-z]+)/i) ?? raw.match(/^\s*([a-z]+)/i);
+  return m ? m[1].toLowerCase() : undefined;
+}
+
+// SendGrid Inbound Parse (multipart/form-data). With "POST the raw, full
+// MIME message" enabled the whole message arrives in the `email` field.
+export class SendGridAdapter implements InboundAdapter {
+  name = "sendgrid";
+
+  // Inbound Parse has no payload signature; credentials go in the URL
+  verify(req: Request): VerifyResult {
+    return verifyBasicAuth(req, "SENDGRID_INBOUND_BASIC_AUTH");
+  }
+
+  async parse(req: Request): Promise<InboundEmail> {
+    const body = (req.body || {}) as any;
+    const spf = resultFromField(body.SPF);
+    const dkim = resultFromField(body.dkim);
+
+    if (typeof body.email === "string" && body.email.trim()) {
+      const parsed = await parseRawMime(body.email, this.name);
+      return { ...parsed, spf: spf ?? parsed.spf, dkim: dkim ?? parsed.dkim };
+    }
+    if (!body.from && !body.envelope) {
+      throw new Error("Expected SendGrid Inbound Parse form fields");
+    }
+
+    const envelope = parseJsonField(body.envelope) ?? {};
+    const info = parseJsonField(body["attachment-info"]) ?? {};
+
+    const attachments = uploadedFiles(req).map(f => ({
+      filename: info[f.fieldname]?.filename || f.originalname || f.fieldname,
+      contentType: info[f.fieldname]?.type || f.mimetype || null,
+      size: f.size,
+      content: f.buffer,
+      url: null,
+    }));
+
+    return buildInboundEmail(this.name, {
+      from: envelope.from || body.from,
+      to: (Array.isArray(envelope.to) ? envelope.to[0] : envelope.to) || body.to,
+      subject: body.subject ?? null,
+      text: body.text,
+      html: body.html,
+      headers: parseHeaderBlock(body.headers),
+      attachments,
+      spf,
+      dkim,
+    });
+  }
+}
@@ -0,0 +1,37 @@
+export interface Clock {
+  now(): Date;
+}
+
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+// Fixed time that only moves when told to (tests / replaying a schedule)
+export class ManualClock implements Clock {
+  constructor(private current: Date = new Date()) {}
+
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+
+  set(next: Date) {
+    this.current = new Date(next.getTime());
+  }
+
+  advance(ms: number) {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+}
+
+let clock: Clock = new SystemClock();
+
+export function getClock(): Clock {
+  return clock;
+}
+
+// Lets tests / scripts swap in their own clock
+export function setClock(next: Clock | null) {
+  clock = next ?? new SystemClock();
+}
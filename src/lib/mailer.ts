@@ -0,0 +1,149 @@
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import nodemailer, { Transporter } from "nodemailer";
+
+export interface OutboundMail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  messageId: string;
+  inReplyTo?: string;
+  // where vendor replies should go (the organization's inbound address)
+  replyTo?: string;
+}
+
+export interface SendResult {
+  messageId: string;
+  transport: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(mail: OutboundMail): Promise<SendResult>;
+}
+
+/* ---------------------------------------------------
+ * SMTP (real delivery via nodemailer)
+ * --------------------------------------------------*/
+
+export class SmtpTransport implements MailTransport {
+  name = "smtp";
+  private transporter: Transporter;
+
+  constructor() {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new Error("SMTP_HOST is not set");
+    }
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port: Number(process.env.SMTP_PORT || 587),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+
+  async send(mail: OutboundMail): Promise<SendResult> {
+    const info = await this.transporter.sendMail({
+      from: mail.from,
+      to: mail.to,
+      subject: mail.subject,
+      text: mail.text,
+      html: mail.html,
+      messageId: mail.messageId,
+      replyTo: mail.replyTo,
+      inReplyTo: mail.inReplyTo,
+      references: mail.inReplyTo,
+    });
+
+    return { messageId: info.messageId || mail.messageId, transport: this.name };
+  }
+}
+
+/* ---------------------------------------------------
+ * File (writes one JSON file per message, for local testing)
+ * --------------------------------------------------*/
+
+export class FileTransport implements MailTransport {
+  name = "file";
+
+  constructor(private dir: string) {}
+
+  async send(mail: OutboundMail): Promise<SendResult> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+
+    const safeId = mail.messageId.replace(/[^a-zA-Z0-9.-]/g, "_");
+    const file = path.join(this.dir, `${Date.now()}-${safeId}.json`);
+    await fs.promises.writeFile(file, JSON.stringify(mail, null, 2), "utf8");
+
+    return { messageId: mail.messageId, transport: this.name };
+  }
+}
+
+/* ---------------------------------------------------
+ * Memory (keeps messages in-process, for tests / demos)
+ * --------------------------------------------------*/
+
+export class MemoryTransport implements MailTransport {
+  name = "memory";
+  sent: OutboundMail[] = [];
+
+  async send(mail: OutboundMail): Promise<SendResult> {
+    this.sent.push(mail);
+    return { messageId: mail.messageId, transport: this.name };
+  }
+}
+
+/* ---------------------------------------------------
+ * Transport selection (MAIL_TRANSPORT=smtp|file|memory)
+ * --------------------------------------------------*/
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+
+  const kind = (process.env.MAIL_TRANSPORT || "file").toLowerCase();
+
+  switch (kind) {
+    case "smtp":
+      transport = new SmtpTransport();
+      break;
+    case "memory":
+      transport = new MemoryTransport();
+      break;
+    case "file":
+      transport = new FileTransport(
+        process.env.MAIL_FILE_DIR || path.join(process.cwd(), "outbox")
+      );
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+
+  return transport;
+}
+
+// Lets tests / scripts swap in their own transport
+export function setMailTransport(next: MailTransport | null) {
+  transport = next;
+}
+
+export function getMailFromAddress(): string {
+  return process.env.MAIL_FROM || "procurement@localhost";
+}
+
+export function generateMessageId(): string {
+  const from = getMailFromAddress();
+  const domain = from.includes("@")
+    ? from.split("@")[1].replace(/>.*$/, "")
+    : "localhost";
+  return `<${crypto.randomUUID()}@${domain}>`;
+}
@@ -0,0 +1,66 @@
+import { LlmJsonRequest, LlmProvider, cleanModelJson } from "./provider";
+
+export class GeminiProvider implements LlmProvider {
+  name = "gemini";
+
+  constructor(
+    public model: string,
+    private apiKey: string | undefined,
+    private timeoutMs: number
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async generateJson({ systemPrompt, userPrompt }: LlmJsonRequest): Promise<string> {
+    if (!this.apiKey) {
+      throw new Error("GEMINI_API_KEY is not set");
+    }
+
+    const url = `https://generativelanguage.googleapis.com/v1/models/${this.model}:generateContent`;
+
+    const body = {
+      contents: [
+        {
+          parts: [
+            { text: systemPrompt },
+            { text: userPrompt },
+          ],
+        },
+      ],
+      generationConfig: {
+        temperature: 0,
+      },
+    };
+
+    const resp = await fetch(`${url}?key=${this.apiKey}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!resp.ok) {
+      const text = await resp.text();
+      throw new Error(
+        `Gemini error: ${resp.status} ${resp.statusText} - ${text}`
+      );
+    }
+
+    const data: any = await resp.json();
+
+    const text =
+      data.candidates?.[0]?.content?.parts
+        ?.map((p: any) => p.text)
+        .join("\n") ?? "";
+
+    if (!text) {
+      throw new Error("Gemini returned empty content");
+    }
+
+    return cleanModelJson(text);
+  }
+}
@@ -0,0 +1,352 @@
+import {
+  ParsedProposalSpec,
+  RecommendationBrief,
+  RecommendationNarrative,
+  RfpStructuredSpec,
+} from "../ai";
+import { LlmJsonRequest, LlmProvider } from "./provider";
+import { FieldConfidence } from "./validation";
+
+/* ---------------------------------------------------
+ * Deterministic rule/regex extractor (and templated narratives). No
+ * network; same input always gives the same output. Used for tests,
+ * air-gapped demos and as the last fallback when every model provider is
+ * down.
+ * --------------------------------------------------*/
+
+const CURRENCY_PATTERNS: [RegExp, string][] = [
+  [/₹|\brs\.?(?=\s*\d)|\binr\b|\brupees?\b/i, "INR"],
+  [/\$|\busd\b|\bdollars?\b/i, "USD"],
+  [/€|\beur\b|\beuros?\b/i, "EUR"],
+  [/£|\bgbp\b|\bpounds?\b/i, "GBP"],
+];
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  lakh: 100_000,
+  lakhs: 100_000,
+  lac: 100_000,
+  m: 1_000_000,
+  mn: 1_000_000,
+  million: 1_000_000,
+  cr: 10_000_000,
+  crore: 10_000_000,
+  crores: 10_000_000,
+};
+
+// Pattern matches are reliable enough to use but below what a model
+// reports for clear statements; guesses (fallback patterns) are flagged.
+const MATCH_CONFIDENCE = 0.7;
+const GUESS_CONFIDENCE = 0.4;
+
+type Sources = Record<string, FieldConfidence>;
+
+const AMOUNT = String.raw`(\d[\d,]*(?:\.\d+)?)\s*(k|thousand|lakhs?|lac|mn|m|million|cr|crores?)?\b`;
+
+function parseAmount(num: string, suffix?: string): number | null {
+  const n = Number(num.replace(/,/g, ""));
+  if (!Number.isFinite(n)) return null;
+  return suffix ? n * (MULTIPLIERS[suffix.toLowerCase()] ?? 1) : n;
+}
+
+function toDays(n: number, unit: string): number {
+  const u = unit.toLowerCase();
+  if (u.startsWith("week")) return n * 7;
+  if (u.startsWith("month")) return n * 30;
+  return n;
+}
+
+function toMonths(n: number, unit: string): number {
+  return /^y/i.test(unit) ? n * 12 : n;
+}
+
+function extractDeliveryDays(text: string, sources: Sources, field: string): number | null {
+  const m =
+    text.match(/\b(?:within|in|delivery(?:\s+(?:in|within|time|of))?:?)\s+(\d+)\s*(days?|weeks?|months?)\b/i) ??
+    text.match(/\b(\d+)\s*(days?|weeks?|months?)\s+(?:delivery|lead\s*time)\b/i);
+  if (!m) return null;
+  sources[field] = { confidence: MATCH_CONFIDENCE, source: m[0] };
+  return toDays(Number(m[1]), m[2]);
+}
+
+function extractWarrantyMonths(text: string, sources: Sources, field: string): number | null {
+  const m =
+    text.match(/\b(\d+)[\s-]*(years?|yrs?|months?)\s*(?:of\s+)?(?:\w+\s+)?warranty\b/i) ??
+    text.match(/\bwarranty[^\d.\n]{0,30}(\d+)\s*(years?|yrs?|months?)\b/i);
+  if (!m) return null;
+  sources[field] = { confidence: MATCH_CONFIDENCE, source: m[0] };
+  return toMonths(Number(m[1]), m[2]);
+}
+
+function extractPaymentTerms(text: string, sources: Sources, field: string): string | null {
+  const net = text.match(/\bnet[\s-]?(\d+)\b/i);
+  if (net) {
+    sources[field] = { confidence: MATCH_CONFIDENCE, source: net[0] };
+    return `Net-${net[1]}`;
+  }
+
+  const advance = text.match(/\b(\d+)\s*%\s*(?:advance|upfront)\b/i);
+  if (advance) {
+    sources[field] = { confidence: MATCH_CONFIDENCE, source: advance[0] };
+    return `Advance ${advance[1]}%`;
+  }
+
+  const line = text.match(/\bpayment(?:\s+terms?)?\s*[:\-]\s*([^\n.]+)/i);
+  if (!line) return null;
+  sources[field] = { confidence: GUESS_CONFIDENCE, source: line[0] };
+  return line[1].trim();
+}
+
+function currencyWithSource(
+  text: string,
+  sources: Sources,
+  field: string,
+  window = ""
+): string | null {
+  for (const [re, code] of CURRENCY_PATTERNS) {
+    const m = window.match(re) ?? text.match(re);
+    if (m) {
+      sources[field] = { confidence: MATCH_CONFIDENCE, source: m[0] };
+      return code;
+    }
+  }
+  return null;
+}
+
+function splitSpecs(raw: string): string[] {
+  return raw
+    .split(/,|\band\b|;/i)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+/* ---------------------------------------------------
+ * RFP
+ * --------------------------------------------------*/
+
+export function extractRfpSpecOffline(
+  text: string
+): RfpStructuredSpec & { fieldConfidence: Sources } {
+  const sources: Sources = {};
+  const firstSentence = text.trim().split(/[.\n]/)[0]?.trim() ?? "";
+  const title = firstSentence.length > 80
+    ? `${firstSentence.slice(0, 77).trim()}...`
+    : firstSentence;
+  if (title) {
+    sources.title = { confidence: GUESS_CONFIDENCE, source: firstSentence };
+  }
+
+  // "20 laptops with 16GB RAM, 512GB SSD" / "15 x 27-inch monitors"
+  const items: RfpStructuredSpec["items"] = [];
+  const itemRe =
+    /\b(\d+)\s*(?:x\s+|units?\s+of\s+|nos?\.?\s+)?([a-z][a-z\- ]*?[a-z])(?:\s+(?:with|having)\s+([^.;\n]+?)|\s+(\d[^.;\n]*?))?(?=\s+and\s+\d|[.;\n]|$)/gi;
+  const budgetIdx = text.search(/\bbudget\b/i);
+
+  for (const m of text.matchAll(itemRe)) {
+    const name = m[2].trim();
+    // skip durations, money and warranty phrases that look like "<n> <word>"
+    if (/^(days?|weeks?|months?|years?|yrs?|k|lakhs?|million|percent)\b/i.test(name)) continue;
+    if (budgetIdx !== -1 && m.index! > budgetIdx && m.index! - budgetIdx < 25) continue;
+
+    items.push({
+      name,
+      quantity: Number(m[1]),
+      keySpecs: splitSpecs(m[3] ?? m[4] ?? ""),
+    });
+  }
+
+  if (items.length > 0) {
+    sources.items = {
+      confidence: MATCH_CONFIDENCE,
+      source: items.map(i => `${i.quantity} ${i.name}`).join("; "),
+    };
+  }
+
+  const budgetMatch = text.match(new RegExp(String.raw`\bbudget\b[^\d\n]{0,30}` + AMOUNT, "i"));
+  const budgetWindow = budgetMatch
+    ? text.slice(budgetMatch.index!, budgetMatch.index! + budgetMatch[0].length + 10)
+    : "";
+  if (budgetMatch) {
+    sources.budget = { confidence: MATCH_CONFIDENCE, source: budgetMatch[0] };
+  }
+
+  return {
+    title: title || "Untitled RFP",
+    items,
+    budget: budgetMatch ? parseAmount(budgetMatch[1], budgetMatch[2]) : null,
+    currency: currencyWithSource(text, sources, "currency", budgetWindow),
+    deliveryDeadlineDaysFromNow: extractDeliveryDays(text, sources, "deliveryDeadlineDaysFromNow"),
+    paymentTerms: extractPaymentTerms(text, sources, "paymentTerms"),
+    minimumWarrantyMonths: extractWarrantyMonths(text, sources, "minimumWarrantyMonths"),
+    fieldConfidence: sources,
+  };
+}
+
+/* ---------------------------------------------------
+ * Proposal
+ * --------------------------------------------------*/
+
+export function extractProposalOffline(
+  text: string
+): ParsedProposalSpec & { fieldConfidence: Sources } {
+  const sources: Sources = {};
+  // "Laptop: 20 x 1,200" / "20 laptops @ $1200" / "20 x Monitor at 300 each"
+  const lineItems: ParsedProposalSpec["lineItems"] = [];
+  const atRe =
+    /\b(\d+)\s*(?:x\s*)?([a-z][a-z0-9\- ]*?)\s*(?:@|at)\s*(?:[$₹€£]|rs\.?|inr|usd|eur|gbp)?\s*(\d[\d,]*(?:\.\d+)?)/gi;
+  const lineSources: string[] = [];
+  for (const m of text.matchAll(atRe)) {
+    lineSources.push(m[0]);
+    const quantity = Number(m[1]);
+    const unitPrice = Number(m[3].replace(/,/g, ""));
+    lineItems.push({
+      rfpItemIndex: null,
+      description: m[2].trim(),
+      quantity,
+      unitPrice,
+      totalPrice: quantity * unitPrice,
+    });
+  }
+
+  if (lineSources.length > 0) {
+    sources.lineItems = { confidence: MATCH_CONFIDENCE, source: lineSources.join("; ") };
+  }
+
+  let totalPrice: number | null = null;
+  const totalMatch = text.match(
+    new RegExp(String.raw`\b(?:grand\s+)?total(?:\s+(?:price|cost|amount))?\b[^\d\n]{0,20}` + AMOUNT, "i")
+  );
+  if (totalMatch) {
+    totalPrice = parseAmount(totalMatch[1], totalMatch[2]);
+    sources.totalPrice = { confidence: MATCH_CONFIDENCE, source: totalMatch[0] };
+  } else if (lineItems.length > 0) {
+    totalPrice = lineItems.reduce((acc, li) => acc + (li.totalPrice ?? 0), 0);
+    sources.totalPrice = { confidence: GUESS_CONFIDENCE, source: lineSources.join("; ") };
+  } else {
+    const priceMatch = text.match(
+      new RegExp(String.raw`\b(?:price|cost|quote|amount)\b[^\d\n]{0,20}` + AMOUNT, "i")
+    );
+    if (priceMatch) {
+      totalPrice = parseAmount(priceMatch[1], priceMatch[2]);
+      sources.totalPrice = { confidence: GUESS_CONFIDENCE, source: priceMatch[0] };
+    }
+  }
+
+  return {
+    totalPrice,
+    currency: currencyWithSource(text, sources, "currency"),
+    deliveryDays: extractDeliveryDays(text, sources, "deliveryDays"),
+    warrantyMonths: extractWarrantyMonths(text, sources, "warrantyMonths"),
+    terms: extractPaymentTerms(text, sources, "terms"),
+    notes: null,
+    lineItems,
+    fieldConfidence: sources,
+  };
+}
+
+// Tipping points closer than this to the current weight are called out
+// as risks in the template narrative
+const CLOSE_CALL_WEIGHT_SHIFT = 0.1;
+
+function money(amount: number, currency: string | null): string {
+  const n = amount.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return currency ? `${n} ${currency}` : n;
+}
+
+const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+// Fixed-wording narrative built straight from the brief; also what the
+// comparison report falls back to when no provider answers
+export function writeRecommendationOffline(brief: RecommendationBrief): RecommendationNarrative {
+  const { recommended: top, runnerUp, currency } = brief;
+  if (!top) {
+    return {
+      headline: `No proposal can be recommended for "${brief.rfpTitle}" yet`,
+      summary: "No ranked proposals were received.",
+      tradeOffs: [],
+      budget: null,
+      risks: [],
+    };
+  }
+
+  const summary = [
+    `${top.vendorName} ranks first of ${brief.proposalCount} with a score of ${top.totalScore.toFixed(2)}` +
+      (runnerUp
+        ? `, ${(top.totalScore - runnerUp.totalScore).toFixed(2)} ahead of ${runnerUp.vendorName}.`
+        : "."),
+  ];
+  const ahead = brief.criterionGaps.filter(g => g.gap > 0).map(g => g.label);
+  if (runnerUp && ahead.length > 0) {
+    summary.push(`Its lead comes from ${ahead.join(", ")}.`);
+  }
+
+  const tradeOffs = runnerUp
+    ? brief.criterionGaps
+        .filter(g => g.gap !== 0)
+        .map(g =>
+          g.gap > 0
+            ? `${top.vendorName} is stronger on ${g.label} (${g.recommendedScore.toFixed(2)} vs ${g.runnerUpScore.toFixed(2)}).`
+            : `${runnerUp.vendorName} is stronger on ${g.label} (${g.runnerUpScore.toFixed(2)} vs ${g.recommendedScore.toFixed(2)}).`
+        )
+    : [];
+
+  let budget: string | null = null;
+  if (brief.budget !== null && top.price !== null) {
+    const diff = top.price - brief.budget;
+    budget =
+      diff === 0
+        ? `The quote of ${money(top.price, currency)} matches the budget.`
+        : `The quote of ${money(top.price, currency)} is ${money(Math.abs(diff), currency)} ` +
+          `(${percent(Math.abs(diff) / brief.budget)}) ${diff > 0 ? "over" : "under"} ` +
+          `the ${money(brief.budget, currency)} budget.`;
+  }
+
+  const risks: string[] = [];
+  if (top.complianceStatus === "FAIL") {
+    risks.push(`${top.vendorName} fails at least one hard compliance check.`);
+  } else if (top.complianceStatus !== "PASS") {
+    risks.push(`Some compliance checks for ${top.vendorName} could not be verified.`);
+  }
+  if (top.price === null) {
+    risks.push(`${top.vendorName} did not state a usable total price.`);
+  }
+  for (const t of brief.tippingPoints) {
+    if (Math.abs(t.weight - t.currentWeight) <= CLOSE_CALL_WEIGHT_SHIFT) {
+      risks.push(
+        `Changing the weight of ${t.label} from ${percent(t.currentWeight)} to ${percent(t.weight)} would make ${t.newLeader} the leader.`
+      );
+    }
+  }
+
+  return {
+    headline: `Recommend ${top.vendorName} for "${brief.rfpTitle}"`,
+    summary: summary.join(" "),
+    tradeOffs,
+    budget,
+    risks,
+  };
+}
+
+export class OfflineProvider implements LlmProvider {
+  name = "offline";
+  model = "rules-v1";
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generateJson({ task }: LlmJsonRequest): Promise<string> {
+    switch (task.kind) {
+      case "rfpSpec":
+        return JSON.stringify(extractRfpSpecOffline(task.text));
+      case "proposal":
+        return JSON.stringify(extractProposalOffline(task.text));
+      case "recommendation":
+        return JSON.stringify(writeRecommendationOffline(task.brief));
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { LlmJsonRequest, LlmProvider, cleanModelJson } from "./provider";
+
+// Any /chat/completions endpoint: Groq, OpenAI, Ollama, LM Studio, vLLM...
+export class OpenAiCompatibleProvider implements LlmProvider {
+  constructor(
+    public name: string,
+    public model: string,
+    private baseUrl: string | undefined,
+    private apiKey: string | undefined,
+    private timeoutMs: number,
+    private requiresApiKey = true
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.baseUrl && (!this.requiresApiKey || !!this.apiKey);
+  }
+
+  async generateJson({ systemPrompt, userPrompt }: LlmJsonRequest): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new Error(`${this.name} is not configured`);
+    }
+
+    const url = `${this.baseUrl!.replace(/\/+$/, "")}/chat/completions`;
+
+    const body = {
+      model: this.model,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      temperature: 0,
+    };
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const resp = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!resp.ok) {
+      const text = await resp.text();
+      throw new Error(
+        `${this.name} error: ${resp.status} ${resp.statusText} - ${text}`
+      );
+    }
+
+    const data: any = await resp.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new Error(`${this.name} returned empty content`);
+    }
+
+    return cleanModelJson(content);
+  }
+}
@@ -0,0 +1,37 @@
+import { RecommendationBrief, RfpStructuredSpec } from "../ai";
+
+// What the caller is extracting. Network providers only need the prompts;
+// the offline provider uses this to run its rule-based extractor (or
+// narrative template) instead.
+export type LlmTask =
+  | { kind: "rfpSpec"; text: string }
+  | {
+      kind: "proposal";
+      text: string;
+      rfpItems: RfpStructuredSpec["items"];
+    }
+  | { kind: "recommendation"; brief: RecommendationBrief };
+
+export interface LlmJsonRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  task: LlmTask;
+}
+
+export interface LlmProvider {
+  name: string;
+  model: string;
+  // false when required settings (API key, URL) are missing
+  isConfigured(): boolean;
+  // Returns the raw JSON string produced for the request
+  generateJson(req: LlmJsonRequest): Promise<string>;
+}
+
+export function cleanModelJson(raw: string): string {
+  return raw
+    .trim()
+    .replace(/^```json/i, "")
+    .replace(/^```/, "")
+    .replace(/```$/, "")
+    .trim();
+}
@@ -0,0 +1,110 @@
+import "dotenv/config";
+import { LlmJsonRequest, LlmProvider } from "./provider";
+import { GeminiProvider } from "./gemini";
+import { OpenAiCompatibleProvider } from "./openaiCompatible";
+import { OfflineProvider } from "./offline";
+
+/* ---------------------------------------------------
+ * Provider registry, configured from env:
+ *   LLM_PROVIDERS     order to try, e.g. "gemini,groq,ollama,offline"
+ *   LLM_TIMEOUT_MS    per-request timeout (default 30000)
+ *   GEMINI_API_KEY / GEMINI_MODEL
+ *   GROQ_API_KEY / GROQ_MODEL
+ *   OPENAI_API_KEY / OPENAI_MODEL / OPENAI_BASE_URL
+ *   OLLAMA_BASE_URL / OLLAMA_MODEL   (OpenAI-compatible /v1 endpoint)
+ * --------------------------------------------------*/
+
+const DEFAULT_ORDER = "gemini,groq,offline";
+
+export type LlmJsonResult = {
+  json: string;
+  provider: string;
+  model: string;
+};
+
+function buildProvider(name: string, timeoutMs: number): LlmProvider | null {
+  const env = process.env;
+
+  switch (name) {
+    case "gemini":
+      return new GeminiProvider(
+        env.GEMINI_MODEL || "gemini-2.5-flash",
+        env.GEMINI_API_KEY,
+        timeoutMs
+      );
+    case "groq":
+      return new OpenAiCompatibleProvider(
+        "groq",
+        env.GROQ_MODEL || "llama-3.1-8b-instant",
+        "https://api.groq.com/openai/v1",
+        env.GROQ_API_KEY,
+        timeoutMs
+      );
+    case "openai":
+      return new OpenAiCompatibleProvider(
+        "openai",
+        env.OPENAI_MODEL || "gpt-4o-mini",
+        env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        env.OPENAI_API_KEY,
+        timeoutMs
+      );
+    case "ollama":
+      return new OpenAiCompatibleProvider(
+        "ollama",
+        env.OLLAMA_MODEL || "llama3.1",
+        env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+        env.OLLAMA_API_KEY,
+        timeoutMs,
+        false
+      );
+    case "offline":
+      return new OfflineProvider();
+    default:
+      console.error(`Unknown LLM provider in LLM_PROVIDERS: ${name}`);
+      return null;
+  }
+}
+
+let providers: LlmProvider[] | null = null;
+
+export function getLlmProviders(): LlmProvider[] {
+  if (providers) return providers;
+
+  const timeoutMs = Number(process.env.LLM_TIMEOUT_MS || 30_000);
+  providers = (process.env.LLM_PROVIDERS || DEFAULT_ORDER)
+    .split(",")
+    .map(s => s.trim().toLowerCase())
+    .filter(Boolean)
+    .map(name => buildProvider(name, timeoutMs))
+    .filter((p): p is LlmProvider => p !== null);
+
+  return providers;
+}
+
+// Lets tests / scripts pin the provider list
+export function setLlmProviders(next: LlmProvider[] | null) {
+  providers = next;
+}
+
+// Tries each configured provider in order; the first success wins
+export async function callLlmForJson(req: LlmJsonRequest): Promise<LlmJsonResult> {
+  const errors: string[] = [];
+
+  for (const provider of getLlmProviders()) {
+    if (!provider.isConfigured()) continue;
+
+    try {
+      const json = await provider.generateJson(req);
+      return { json, provider: provider.name, model: provider.model };
+    } catch (err: any) {
+      console.error(`LLM provider ${provider.name} failed, trying next:`, err);
+      errors.push(`${provider.name}: ${err?.message ?? err}`);
+    }
+  }
+
+  throw new Error(
+    errors.length
+      ? `All LLM providers failed - ${errors.join("; ")}`
+      : "No LLM provider is configured"
+  );
+}
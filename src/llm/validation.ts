@@ -0,0 +1,229 @@
+import {
+  ParsedProposalLineItem,
+  ParsedProposalSpec,
+  RecommendationNarrative,
+  RfpStructuredSpec,
+} from "../ai";
+
+/* ---------------------------------------------------
+ * Validation of model JSON output. Errors are phrased for the model: they
+ * are sent back verbatim in the repair prompt.
+ * --------------------------------------------------*/
+
+export type FieldConfidence = {
+  confidence: number;    // 0–1
+  source: string | null; // snippet of the input the value came from
+};
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; fieldConfidence: Record<string, FieldConfidence> }
+  | { ok: false; errors: string[] };
+
+type Check<T> = (v: unknown, path: string, errors: string[]) => T;
+
+// Nullable fields may be omitted; the prompt asks for null but a missing
+// key means the same thing.
+const nullableNumber =
+  (opts: { integer?: boolean; min?: number } = {}): Check<number | null> =>
+  (v, path, errors) => {
+    if (v === null || v === undefined) return null;
+    if (typeof v !== "number" || !Number.isFinite(v)) {
+      errors.push(`${path} must be a number or null (got ${JSON.stringify(v)})`);
+      return null;
+    }
+    if (opts.integer && !Number.isInteger(v)) {
+      errors.push(`${path} must be a whole number`);
+    }
+    if (opts.min !== undefined && v < opts.min) {
+      errors.push(`${path} must be >= ${opts.min}`);
+    }
+    return v;
+  };
+
+const nullableString: Check<string | null> = (v, path, errors) => {
+  if (v === null || v === undefined) return null;
+  if (typeof v !== "string") {
+    errors.push(`${path} must be a string or null`);
+    return null;
+  }
+  return v.trim() || null;
+};
+
+const requiredString: Check<string> = (v, path, errors) => {
+  if (typeof v !== "string" || !v.trim()) {
+    errors.push(`${path} must be a non-empty string`);
+    return "";
+  }
+  return v.trim();
+};
+
+const currencyCode: Check<string | null> = (v, path, errors) => {
+  const s = nullableString(v, path, errors);
+  if (s === null) return null;
+  if (!/^[A-Za-z]{3}$/.test(s)) {
+    errors.push(`${path} must be a 3-letter ISO currency code like "USD" or null`);
+    return null;
+  }
+  return s.toUpperCase();
+};
+
+const stringList: Check<string[]> = (v, path, errors) => {
+  if (v === null || v === undefined) return [];
+  if (!Array.isArray(v) || v.some(s => typeof s !== "string")) {
+    errors.push(`${path} must be an array of strings`);
+    return [];
+  }
+  return v.map(s => s.trim()).filter(Boolean);
+};
+
+function checkObject(v: unknown, path: string, errors: string[]): Record<string, unknown> | null {
+  if (!v || typeof v !== "object" || Array.isArray(v)) {
+    errors.push(`${path} must be a JSON object`);
+    return null;
+  }
+  return v as Record<string, unknown>;
+}
+
+function checkFieldConfidence(
+  v: unknown,
+  errors: string[]
+): Record<string, FieldConfidence> {
+  if (v === undefined || v === null) return {};
+  const obj = checkObject(v, "fieldConfidence", errors);
+  if (!obj) return {};
+
+  const out: Record<string, FieldConfidence> = {};
+  for (const [field, entry] of Object.entries(obj)) {
+    const path = `fieldConfidence.${field}`;
+    const e = checkObject(entry, path, errors);
+    if (!e) continue;
+
+    const confidence = e.confidence;
+    if (typeof confidence !== "number" || confidence < 0 || confidence > 1) {
+      errors.push(`${path}.confidence must be a number between 0 and 1`);
+      continue;
+    }
+    out[field] = {
+      confidence,
+      source: nullableString(e.source, `${path}.source`, errors),
+    };
+  }
+  return out;
+}
+
+export function validateRfpSpecJson(raw: unknown): ValidationResult<RfpStructuredSpec> {
+  const errors: string[] = [];
+  const obj = checkObject(raw, "response", errors);
+  if (!obj) return { ok: false, errors };
+
+  let items: RfpStructuredSpec["items"] = [];
+  if (!Array.isArray(obj.items)) {
+    errors.push("items must be an array");
+  } else {
+    items = obj.items.map((item: any, i: number) => {
+      const path = `items[${i}]`;
+      const o = checkObject(item, path, errors) ?? {};
+      const quantity = nullableNumber({ min: 1 })(o.quantity, `${path}.quantity`, errors);
+      if (quantity === null) {
+        errors.push(`${path}.quantity is required`);
+      }
+      const keySpecs = o.keySpecs ?? [];
+      if (!Array.isArray(keySpecs) || keySpecs.some(s => typeof s !== "string")) {
+        errors.push(`${path}.keySpecs must be an array of strings`);
+      }
+      return {
+        name: requiredString(o.name, `${path}.name`, errors),
+        quantity: quantity ?? 0,
+        keySpecs: Array.isArray(keySpecs) ? keySpecs.filter(s => typeof s === "string") : [],
+      };
+    });
+  }
+
+  const value: RfpStructuredSpec = {
+    title: requiredString(obj.title, "title", errors),
+    items,
+    budget: nullableNumber({ min: 0 })(obj.budget, "budget", errors),
+    currency: currencyCode(obj.currency, "currency", errors),
+    deliveryDeadlineDaysFromNow: nullableNumber({ integer: true, min: 0 })(
+      obj.deliveryDeadlineDaysFromNow,
+      "deliveryDeadlineDaysFromNow",
+      errors
+    ),
+    paymentTerms: nullableString(obj.paymentTerms, "paymentTerms", errors),
+    minimumWarrantyMonths: nullableNumber({ integer: true, min: 0 })(
+      obj.minimumWarrantyMonths,
+      "minimumWarrantyMonths",
+      errors
+    ),
+  };
+  const fieldConfidence = checkFieldConfidence(obj.fieldConfidence, errors);
+
+  return errors.length ? { ok: false, errors } : { ok: true, value, fieldConfidence };
+}
+
+export function validateProposalJson(raw: unknown): ValidationResult<ParsedProposalSpec> {
+  const errors: string[] = [];
+  const obj = checkObject(raw, "response", errors);
+  if (!obj) return { ok: false, errors };
+
+  let lineItems: ParsedProposalLineItem[] = [];
+  const rawLines = obj.lineItems ?? [];
+  if (!Array.isArray(rawLines)) {
+    errors.push("lineItems must be an array");
+  } else {
+    lineItems = rawLines.map((li: any, i: number) => {
+      const path = `lineItems[${i}]`;
+      const o = checkObject(li, path, errors) ?? {};
+      return {
+        rfpItemIndex: nullableNumber({ integer: true, min: 0 })(
+          o.rfpItemIndex,
+          `${path}.rfpItemIndex`,
+          errors
+        ),
+        description: requiredString(o.description, `${path}.description`, errors),
+        quantity: nullableNumber({ min: 0 })(o.quantity, `${path}.quantity`, errors),
+        unitPrice: nullableNumber({ min: 0 })(o.unitPrice, `${path}.unitPrice`, errors),
+        totalPrice: nullableNumber({ min: 0 })(o.totalPrice, `${path}.totalPrice`, errors),
+      };
+    });
+  }
+
+  const value: ParsedProposalSpec = {
+    totalPrice: nullableNumber({ min: 0 })(obj.totalPrice, "totalPrice", errors),
+    currency: currencyCode(obj.currency, "currency", errors),
+    deliveryDays: nullableNumber({ integer: true, min: 0 })(
+      obj.deliveryDays,
+      "deliveryDays",
+      errors
+    ),
+    warrantyMonths: nullableNumber({ integer: true, min: 0 })(
+      obj.warrantyMonths,
+      "warrantyMonths",
+      errors
+    ),
+    terms: nullableString(obj.terms, "terms", errors),
+    notes: nullableString(obj.notes, "notes", errors),
+    lineItems,
+  };
+  const fieldConfidence = checkFieldConfidence(obj.fieldConfidence, errors);
+
+  return errors.length ? { ok: false, errors } : { ok: true, value, fieldConfidence };
+}
+
+export function validateRecommendationJson(
+  raw: unknown
+): ValidationResult<RecommendationNarrative> {
+  const errors: string[] = [];
+  const obj = checkObject(raw, "response", errors);
+  if (!obj) return { ok: false, errors };
+
+  const value: RecommendationNarrative = {
+    headline: requiredString(obj.headline, "headline", errors),
+    summary: requiredString(obj.summary, "summary", errors),
+    tradeOffs: stringList(obj.tradeOffs, "tradeOffs", errors),
+    budget: nullableString(obj.budget, "budget", errors),
+    risks: stringList(obj.risks, "risks", errors),
+  };
+
+  return errors.length ? { ok: false, errors } : { ok: true, value, fieldConfidence: {} };
+}
@@ -0,0 +1,264 @@
+// src/proposalReview.ts
+import {
+  Proposal,
+  ProposalEdit,
+  ProposalLineItem,
+  ProposalReviewStatus,
+} from ".prisma/client";
+import prisma from "./lib/prisma";
+import { ParsedProposalLineItem, ParsedProposalSpec } from "./ai";
+import { refreshProposalCompliance } from "./compliance";
+import { AuditInTransaction } from "./audit";
+
+const REVIEW_STATUSES: ProposalReviewStatus[] = [
+  "DRAFT_PARSED",
+  "REVIEWED",
+  "REJECTED",
+];
+
+type EditableLineItem = ParsedProposalLineItem;
+
+export type ProposalPatch = {
+  totalPrice?: number | null;
+  currency?: string | null;
+  deliveryDays?: number | null;
+  warrantyMonths?: number | null;
+  terms?: string | null;
+  notes?: string | null;
+  lineItems?: EditableLineItem[];
+  reviewStatus?: ProposalReviewStatus;
+  reviewNote?: string | null;
+};
+
+const NUMBER_FIELDS = ["totalPrice", "deliveryDays", "warrantyMonths"] as const;
+const STRING_FIELDS = ["currency", "terms", "notes"] as const;
+
+// Snapshot of what the AI extracted, kept so later edits can show the
+// original value next to the correction
+export function buildAiSnapshot(parsed: ParsedProposalSpec) {
+  return {
+    totalPrice: parsed.totalPrice,
+    currency: parsed.currency,
+    deliveryDays: parsed.deliveryDays,
+    warrantyMonths: parsed.warrantyMonths,
+    terms: parsed.terms,
+    notes: parsed.notes,
+    lineItems: parsed.lineItems,
+  };
+}
+
+const LINE_ITEM_NUMBER_FIELDS = ["quantity", "unitPrice", "totalPrice"] as const;
+
+// Line items from a request body. rfpItemIndex must point at one of the
+// RFP's itemCount items (or be null for an unmatched line).
+export function validateLineItems(
+  raw: unknown,
+  itemCount: number
+): { lineItems: EditableLineItem[]; errors: string[] } {
+  if (!Array.isArray(raw)) {
+    return { lineItems: [], errors: ["lineItems must be an array"] };
+  }
+
+  const errors: string[] = [];
+  const lineItems: EditableLineItem[] = [];
+
+  raw.forEach((li: any, i) => {
+    const where = `lineItems[${i}]`;
+    const before = errors.length;
+
+    if (!li || typeof li !== "object" || typeof li.description !== "string") {
+      errors.push(`${where} must be an object with a description`);
+      return;
+    }
+
+    const index = li.rfpItemIndex ?? null;
+    if (
+      index !== null &&
+      (!Number.isInteger(index) || index < 0 || index >= itemCount)
+    ) {
+      errors.push(
+        itemCount > 0
+          ? `${where}.rfpItemIndex must be a whole number from 0 to ${itemCount - 1}, or null`
+          : `${where}.rfpItemIndex must be null; the RFP lists no items`
+      );
+    }
+
+    for (const f of LINE_ITEM_NUMBER_FIELDS) {
+      const v = li[f] ?? null;
+      if (v !== null && (typeof v !== "number" || !Number.isFinite(v) || v < 0)) {
+        errors.push(`${where}.${f} must be a non-negative number or null`);
+      }
+    }
+
+    if (errors.length > before) return;
+    lineItems.push({
+      rfpItemIndex: index,
+      description: li.description,
+      quantity: li.quantity ?? null,
+      unitPrice: li.unitPrice ?? null,
+      totalPrice: li.totalPrice ?? null,
+    });
+  });
+
+  return { lineItems, errors };
+}
+
+// itemCount: how many items the proposal's RFP lists (see validateLineItems)
+export function validateProposalPatch(
+  body: any,
+  itemCount: number
+): { patch: ProposalPatch; errors: string[] } {
+  const errors: string[] = [];
+  const patch: ProposalPatch = {};
+
+  for (const f of NUMBER_FIELDS) {
+    if (!(f in body)) continue;
+    const v = body[f];
+    if (v !== null && (typeof v !== "number" || !Number.isFinite(v) || v < 0)) {
+      errors.push(`${f} must be a non-negative number or null`);
+    } else if (v !== null && f !== "totalPrice" && !Number.isInteger(v)) {
+      errors.push(`${f} must be a whole number`);
+    } else {
+      patch[f] = v;
+    }
+  }
+
+  for (const f of STRING_FIELDS) {
+    if (!(f in body)) continue;
+    const v = body[f];
+    if (v !== null && typeof v !== "string") {
+      errors.push(`${f} must be a string or null`);
+    } else {
+      patch[f] = f === "currency" && v ? v.trim().toUpperCase() : v;
+    }
+  }
+
+  if ("lineItems" in body) {
+    const validated = validateLineItems(body.lineItems, itemCount);
+    if (validated.errors.length > 0) {
+      errors.push(...validated.errors);
+    } else {
+      patch.lineItems = validated.lineItems;
+    }
+  }
+
+  if ("reviewStatus" in body) {
+    if (!REVIEW_STATUSES.includes(body.reviewStatus)) {
+      errors.push(`reviewStatus must be one of ${REVIEW_STATUSES.join(", ")}`);
+    } else {
+      patch.reviewStatus = body.reviewStatus;
+    }
+  }
+
+  if ("reviewNote" in body) {
+    patch.reviewNote = typeof body.reviewNote === "string" ? body.reviewNote : null;
+  }
+
+  return { patch, errors };
+}
+
+export function lineItemsForDiff(items: (ProposalLineItem | EditableLineItem)[]) {
+  return items.map(li => ({
+    rfpItemIndex: li.rfpItemIndex,
+    description: li.description,
+    quantity: li.quantity,
+    unitPrice: li.unitPrice,
+    totalPrice: li.totalPrice,
+  }));
+}
+
+export function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Applies a reviewer's corrections. Every changed field gets a
+// ProposalEdit row (AI value / previous value / new value / who).
+// Edited fields count as confirmed; marking the proposal REVIEWED
+// confirms all of them.
+export async function applyProposalPatch(
+  proposalId: string,
+  patch: ProposalPatch,
+  editedBy: string,
+  audit?: AuditInTransaction<{
+    proposal: Proposal & { lineItems: ProposalLineItem[] };
+    edits: ProposalEdit[];
+  }>
+) {
+  const proposal = await prisma.proposal.findUniqueOrThrow({
+    where: { id: proposalId },
+    include: { lineItems: true },
+  });
+  const aiSnapshot = (proposal.aiSnapshot ?? {}) as Record<string, unknown>;
+
+  const changes: { field: string; previousValue: unknown; newValue: unknown }[] = [];
+  const data: Record<string, unknown> = {};
+
+  for (const f of [...NUMBER_FIELDS, ...STRING_FIELDS]) {
+    if (!(f in patch) || sameValue(proposal[f], patch[f])) continue;
+    changes.push({ field: f, previousValue: proposal[f], newValue: patch[f] });
+    data[f] = patch[f];
+  }
+
+  if (patch.lineItems) {
+    const previous = lineItemsForDiff(proposal.lineItems);
+    const next = lineItemsForDiff(patch.lineItems);
+    if (!sameValue(previous, next)) {
+      changes.push({ field: "lineItems", previousValue: previous, newValue: next });
+      data.lineItems = { deleteMany: {}, create: patch.lineItems };
+    }
+  }
+
+  if (patch.reviewStatus && patch.reviewStatus !== proposal.reviewStatus) {
+    changes.push({
+      field: "reviewStatus",
+      previousValue: proposal.reviewStatus,
+      newValue: patch.reviewStatus,
+    });
+    data.reviewStatus = patch.reviewStatus;
+    data.reviewedBy = editedBy;
+    data.reviewedAt = new Date();
+  }
+  if ("reviewNote" in patch) {
+    data.reviewNote = patch.reviewNote;
+  }
+
+  const edited = new Set(changes.map(c => c.field));
+  data.lowConfidenceFields =
+    patch.reviewStatus === "REVIEWED"
+      ? []
+      : proposal.lowConfidenceFields.filter(f => !edited.has(f));
+
+  const edits = await prisma.$transaction(async tx => {
+    const saved = await tx.proposal.update({
+      where: { id: proposalId },
+      data: data as any,
+      include: { lineItems: true },
+    });
+    const edits: ProposalEdit[] = [];
+    for (const c of changes) {
+      edits.push(
+        await tx.proposalEdit.create({
+          data: {
+            proposalId,
+            field: c.field,
+            aiValue: (aiSnapshot[c.field] ?? undefined) as any,
+            previousValue: (c.previousValue ?? undefined) as any,
+            newValue: (c.newValue ?? undefined) as any,
+            editedBy,
+          },
+        })
+      );
+    }
+    await audit?.(tx, { proposal: saved, edits });
+    return edits;
+  });
+
+  const compliance = await refreshProposalCompliance(proposalId);
+
+  const updated = await prisma.proposal.findUniqueOrThrow({
+    where: { id: proposalId },
+    include: { vendor: true, lineItems: true },
+  });
+
+  return { proposal: updated, edits, compliance };
+}
@@ -0,0 +1,114 @@
+// src/proposalRevisions.test.ts
+// Threads are looked up through a stub client holding a few stored rows.
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { EmailMessage, Prisma, Proposal } from ".prisma/client";
+
+// proposalRevisions.ts builds the Prisma client on import, which never
+// connects unless queried
+process.env.DATABASE_URL ??= "postgres://localhost/revisions-test";
+
+function proposal(id: string, overrides: Partial<Proposal> = {}): Proposal {
+  return {
+    id,
+    rfpId: "rfp-1",
+    vendorId: "vendor-1",
+    threadId: null,
+    revision: 1,
+    isLatest: false,
+    createdAt: new Date("2026-02-01T00:00:00Z"),
+    ...overrides,
+  } as unknown as Proposal;
+}
+
+type StoredEmail = { messageId: string; organizationId: string; proposal: Proposal | null };
+
+function stubClient(emails: StoredEmail[], proposals: Proposal[]) {
+  const emailQueries: any[] = [];
+  const client = {
+    emailMessage: {
+      findMany: async ({ where }: any) => {
+        emailQueries.push(where);
+        return emails.filter(
+          e =>
+            e.organizationId === where.organizationId &&
+            where.messageId.in.includes(e.messageId)
+        );
+      },
+    },
+    proposal: {
+      findFirst: async ({ where }: any) => {
+        const matching = proposals.filter(
+          p =>
+            p.isLatest &&
+            (where.OR
+              ? p.id === where.OR[0].id || p.threadId === where.OR[1].threadId
+              : p.rfpId === where.rfpId && p.vendorId === where.vendorId)
+        );
+        return matching[0] ?? null;
+      },
+    },
+  };
+  return { client: client as unknown as Prisma.TransactionClient, emailQueries };
+}
+
+function inbound(overrides: Partial<EmailMessage> = {}) {
+  return {
+    id: "email-new",
+    organizationId: "org-1",
+    rfpId: "rfp-1",
+    vendorId: "vendor-1",
+    inReplyTo: null,
+    references: [],
+    ...overrides,
+  } as EmailMessage;
+}
+
+test("a reply revises the newest proposal in the thread it answers", async () => {
+  const { findPredecessorProposal } = await import("./proposalRevisions");
+  const first = proposal("p1");
+  const second = proposal("p2", { threadId: "p1", revision: 2, isLatest: true });
+  const { client } = stubClient(
+    [{ messageId: "<quote-1@vendor>", organizationId: "org-1", proposal: first }],
+    [first, second]
+  );
+
+  const found = await findPredecessorProposal(
+    inbound({ inReplyTo: "<quote-1@vendor>" }),
+    client
+  );
+  assert.equal(found?.id, "p2");
+});
+
+test("references are only followed within the email's organization", async () => {
+  const { findPredecessorProposal } = await import("./proposalRevisions");
+  const foreign = proposal("other-org");
+  const ours = proposal("ours", { isLatest: true });
+  const { client, emailQueries } = stubClient(
+    [{ messageId: "<quote-1@vendor>", organizationId: "org-2", proposal: foreign }],
+    [foreign, ours]
+  );
+
+  const found = await findPredecessorProposal(
+    inbound({ inReplyTo: "<quote-1@vendor>" }),
+    client
+  );
+  assert.equal(emailQueries[0].organizationId, "org-1");
+  assert.equal(found?.id, "ours");
+});
+
+test("a thread belonging to another vendor falls back to the vendor's latest proposal", async () => {
+  const { findPredecessorProposal } = await import("./proposalRevisions");
+  const theirs = proposal("theirs", { vendorId: "vendor-2", isLatest: true });
+  const ours = proposal("ours", { isLatest: true });
+  const { client } = stubClient(
+    [{ messageId: "<quote-2@other>", organizationId: "org-1", proposal: theirs }],
+    [theirs, ours]
+  );
+
+  const found = await findPredecessorProposal(
+    inbound({ references: ["<quote-2@other>"] }),
+    client
+  );
+  assert.equal(found?.id, "ours");
+});
@@ -0,0 +1,201 @@
+// src/proposalRevisions.ts
+import { EmailMessage, Prisma, Proposal, ProposalLineItem } from ".prisma/client";
+import prisma from "./lib/prisma";
+import { lineItemsForDiff, sameValue } from "./proposalReview";
+import { AuditInTransaction } from "./audit";
+import { carryOverEvaluationScores } from "./evaluations";
+
+// Fields compared between two revisions of a proposal
+const DIFF_FIELDS = [
+  "totalPrice",
+  "currency",
+  "deliveryDays",
+  "warrantyMonths",
+  "terms",
+  "notes",
+] as const;
+
+export type RevisionChange = {
+  field: string;
+  from: unknown;
+  to: unknown;
+};
+
+type ProposalWithLineItems = Proposal & { lineItems: ProposalLineItem[] };
+
+type TxClient = Prisma.TransactionClient;
+
+// Latest revision in the thread the given proposal belongs to
+async function latestInThread(
+  proposal: Proposal,
+  client: TxClient = prisma
+): Promise<Proposal | null> {
+  const threadId = proposal.threadId ?? proposal.id;
+  return client.proposal.findFirst({
+    where: { OR: [{ id: threadId }, { threadId }], isLatest: true },
+    orderBy: { revision: "desc" },
+  });
+}
+
+// Which existing proposal an inbound email revises, if any.
+// 1. In-Reply-To / References pointing at an earlier email with a proposal
+// 2. otherwise the vendor's current proposal for the same RFP
+export async function findPredecessorProposal(
+  email: Pick<
+    EmailMessage,
+    "id" | "organizationId" | "rfpId" | "vendorId" | "inReplyTo" | "references"
+  >,
+  client: TxClient = prisma
+): Promise<Proposal | null> {
+  if (!email.rfpId || !email.vendorId) return null;
+
+  const referenced = [email.inReplyTo, ...email.references].filter(
+    (id): id is string => !!id
+  );
+
+  if (referenced.length > 0) {
+    const threadEmails = await client.emailMessage.findMany({
+      where: {
+        organizationId: email.organizationId,
+        messageId: { in: referenced },
+        id: { not: email.id },
+      },
+      include: { proposal: true },
+    });
+
+    // Closest reference first: In-Reply-To, then References newest → oldest
+    const order = [email.inReplyTo, ...[...email.references].reverse()];
+    threadEmails.sort(
+      (a, b) => order.indexOf(a.messageId) - order.indexOf(b.messageId)
+    );
+
+    for (const e of threadEmails) {
+      const p = e.proposal;
+      if (p && p.rfpId === email.rfpId && p.vendorId === email.vendorId) {
+        return latestInThread(p, client);
+      }
+    }
+  }
+
+  return client.proposal.findFirst({
+    where: { rfpId: email.rfpId, vendorId: email.vendorId, isLatest: true },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+// Thrown when another revision was recorded for the same vendor and RFP
+// while this one was being created; the caller should retry or report 409
+export class RevisionConflictError extends Error {}
+
+// Creates a proposal, making it the next revision of `previous` when given.
+// The previous revision stops counting in comparisons. `previous` must
+// still be the latest revision when the transaction runs (and without
+// one, the vendor must have no proposal yet), else RevisionConflictError.
+export async function createProposalRevision<T extends Prisma.ProposalInclude>(
+  data: Prisma.ProposalUncheckedCreateInput,
+  previous: Proposal | null,
+  include: T,
+  audit?: AuditInTransaction<Prisma.ProposalGetPayload<{ include: T }>>
+) {
+  try {
+    return await prisma.$transaction(async (tx: TxClient) => {
+      if (previous) {
+        const superseded = await tx.proposal.updateMany({
+          where: { id: previous.id, isLatest: true },
+          data: { isLatest: false },
+        });
+        if (superseded.count === 0) {
+          throw new RevisionConflictError(
+            `Proposal ${previous.id} was already revised; reload and try again`
+          );
+        }
+      } else {
+        // a concurrent first proposal still gets past this check; the
+        // partial unique index on latest revisions turns it into a P2002
+        const existing = await tx.proposal.count({
+          where: { rfpId: data.rfpId, vendorId: data.vendorId, isLatest: true },
+        });
+        if (existing > 0) {
+          throw new RevisionConflictError(
+            "The vendor already has a proposal for this RFP; reload and try again"
+          );
+        }
+      }
+
+      const created = await tx.proposal.create({
+        data: {
+          ...data,
+          revision: previous ? previous.revision + 1 : 1,
+          threadId: previous ? previous.threadId ?? previous.id : null,
+          previousRevisionId: previous?.id ?? null,
+          isLatest: true,
+        },
+        include,
+      });
+      if (previous) {
+        await carryOverEvaluationScores(previous.id, created.id, tx);
+      }
+      await audit?.(tx, created);
+      return created;
+    });
+  } catch (err: any) {
+    // two revisions of the same predecessor (previousRevisionId is unique),
+    // or two first proposals (one latest revision per vendor and RFP)
+    if (err?.code === "P2002") {
+      throw new RevisionConflictError(
+        previous
+          ? `Proposal ${previous.id} was already revised; reload and try again`
+          : "The vendor already has a proposal for this RFP; reload and try again"
+      );
+    }
+    throw err;
+  }
+}
+
+export function diffProposals(
+  from: ProposalWithLineItems,
+  to: ProposalWithLineItems
+): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+
+  for (const f of DIFF_FIELDS) {
+    if (!sameValue(from[f], to[f])) {
+      changes.push({ field: f, from: from[f], to: to[f] });
+    }
+  }
+
+  const fromItems = lineItemsForDiff(from.lineItems);
+  const toItems = lineItemsForDiff(to.lineItems);
+  if (!sameValue(fromItems, toItems)) {
+    changes.push({ field: "lineItems", from: fromItems, to: toItems });
+  }
+
+  return changes;
+}
+
+// Every revision in the proposal's thread, oldest first, each with the
+// changes against the revision before it
+export async function getRevisionHistory(proposalId: string) {
+  const proposal = await prisma.proposal.findUniqueOrThrow({
+    where: { id: proposalId },
+  });
+  const threadId = proposal.threadId ?? proposal.id;
+
+  const revisions = await prisma.proposal.findMany({
+    where: { OR: [{ id: threadId }, { threadId }] },
+    include: { lineItems: true, email: true },
+    orderBy: { revision: "asc" },
+  });
+
+  return revisions.map((rev, i) => ({
+    id: rev.id,
+    revision: rev.revision,
+    isLatest: rev.isLatest,
+    source: rev.source,
+    reviewStatus: rev.reviewStatus,
+    createdAt: rev.createdAt,
+    emailId: rev.emailId,
+    emailSubject: rev.email?.subject ?? null,
+    changes: i === 0 ? [] : diffProposals(revisions[i - 1], rev),
+  }));
+}
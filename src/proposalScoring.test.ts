@@ -0,0 +1,137 @@
+// src/proposalScoring.test.ts
+// Plain fixtures, no database: the comparison only reads what it's given.
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { FxRate, ProposalLineItem, Rfp } from ".prisma/client";
+import type { ProposalWithVendor } from "./proposalScoring";
+import { buildFxConverter } from "./fx";
+
+// compliance.ts builds the Prisma client on import, which never connects
+// unless queried
+process.env.DATABASE_URL ??= "postgres://localhost/scoring-test";
+
+function rfp(overrides: Partial<Rfp> = {}): Rfp {
+  return {
+    id: "rfp-1",
+    organizationId: "org-1",
+    title: "Laptops",
+    naturalLanguageInput: "",
+    structuredSpec: { items: [{ name: "Laptop", quantity: 10, keySpecs: [] }] },
+    budget: null,
+    currency: null,
+    deliveryDeadline: null,
+    paymentTerms: null,
+    minimumWarrantyMonths: null,
+    scoringCriteria: null,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    fieldConfidence: null,
+    lowConfidenceFields: [],
+    ...overrides,
+  } as unknown as Rfp;
+}
+
+function proposal(
+  id: string,
+  totalPrice: number,
+  currency: string | null
+): ProposalWithVendor {
+  const lineItem = {
+    id: `${id}-line`,
+    proposalId: id,
+    rfpItemIndex: 0,
+    description: "Laptop",
+    quantity: 10,
+    unitPrice: totalPrice / 10,
+    totalPrice,
+  } as unknown as ProposalLineItem;
+
+  return {
+    id,
+    rfpId: "rfp-1",
+    vendorId: `vendor-${id}`,
+    vendor: { id: `vendor-${id}`, name: `Vendor ${id}` },
+    totalPrice,
+    currency,
+    deliveryDays: 14,
+    warrantyMonths: 12,
+    lowConfidenceFields: [],
+    lineItems: [lineItem],
+  } as unknown as ProposalWithVendor;
+}
+
+function rate(baseCurrency: string, quoteCurrency: string, value: number): FxRate {
+  return {
+    id: `${baseCurrency}/${quoteCurrency}`,
+    organizationId: "org-1",
+    baseCurrency,
+    quoteCurrency,
+    rate: value,
+    asOf: new Date("2026-01-01T00:00:00Z"),
+    source: null,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+  };
+}
+
+test("quotes in different currencies aren't ranked on raw amounts without an RFP currency", async () => {
+  const { compareProposalsForRfp } = await import("./proposalScoring");
+  const result = compareProposalsForRfp(rfp(), [
+    proposal("usd", 1000, "USD"),
+    proposal("jpy", 90000, "JPY"),
+  ]);
+
+  assert.deepEqual(result.mixedCurrencies, ["JPY", "USD"]);
+  assert.deepEqual([...result.fxMissingProposalIds].sort(), ["jpy", "usd"]);
+  for (const p of result.proposals) {
+    assert.equal(p.pricing.convertedAmount, null);
+    assert.equal(p.scores.priceScore, 0);
+  }
+  for (const q of result.itemMatrix[0].quotes) {
+    assert.equal(q.unitPrice, null);
+  }
+});
+
+test("quotes sharing a currency are compared as quoted without an RFP currency", async () => {
+  const { compareProposalsForRfp } = await import("./proposalScoring");
+  const result = compareProposalsForRfp(rfp(), [
+    proposal("cheap", 900, "usd"),
+    proposal("dear", 1200, "USD"),
+  ]);
+
+  assert.deepEqual(result.mixedCurrencies, []);
+  assert.deepEqual(result.fxMissingProposalIds, []);
+  assert.equal(result.bestProposalId, "cheap");
+});
+
+test("quotes are converted into the RFP currency before ranking", async () => {
+  const { compareProposalsForRfp } = await import("./proposalScoring");
+  // 90,000 JPY is 720 USD, cheaper than the 1,000 USD quote
+  const fx = buildFxConverter([rate("JPY", "USD", 0.008)], new Date("2026-02-01T00:00:00Z"));
+  const result = compareProposalsForRfp(
+    rfp({ currency: "USD" }),
+    [proposal("usd", 1000, "USD"), proposal("jpy", 90000, "JPY")],
+    { fx }
+  );
+
+  const jpy = result.proposals.find(p => p.id === "jpy")!;
+  assert.equal(jpy.pricing.convertedAmount, 720);
+  assert.equal(result.bestProposalId, "jpy");
+  assert.equal(result.itemMatrix[0].lowestUnitPriceProposalId, "jpy");
+  assert.equal(result.itemMatrix[0].lowestUnitPrice, 72);
+});
+
+test("a quote without a usable rate keeps its line prices out of the item matrix", async () => {
+  const { compareProposalsForRfp } = await import("./proposalScoring");
+  const result = compareProposalsForRfp(
+    rfp({ currency: "USD" }),
+    [proposal("usd", 1000, "USD"), proposal("jpy", 90000, "JPY")],
+    { fx: buildFxConverter([]) }
+  );
+
+  assert.deepEqual(result.fxMissingProposalIds, ["jpy"]);
+  const jpyQuote = result.itemMatrix[0].quotes.find(q => q.proposalId === "jpy")!;
+  assert.equal(jpyQuote.quoted, true);
+  assert.equal(jpyQuote.unitPrice, null);
+  assert.equal(jpyQuote.totalPrice, null);
+  assert.equal(result.itemMatrix[0].lowestUnitPriceProposalId, "usd");
+});
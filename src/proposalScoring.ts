@@ -1,137 +1,589 @@
 // src/proposalScoring.ts
-import { Proposal, Vendor, Rfp } from ".prisma/client";
+import { Proposal, ProposalLineItem, Vendor, Rfp } from ".prisma/client";
+import {
+  FxConverter,
+  ProposalPricing,
+  normalizeCurrency,
+  priceInCurrency,
+} from "./fx";
+import { specForRfp, unconfirmedRfpFields } from "./utils/rfpSpec";
+import {
+  ComplianceResult,
+  ProposalForCompliance,
+  checkProposalCompliance,
+} from "./compliance";
 
-export type ProposalWithVendor = Proposal & { vendor: Vendor };
+export type ProposalWithVendor = Proposal & {
+  vendor: Vendor;
+  lineItems?: ProposalLineItem[];
+  email?: ProposalForCompliance["email"];
+};
 
 export type ProposalScoreBreakdown = {
   priceScore: number;      // 0–1
   deliveryScore: number;   // 0–1
   warrantyScore: number;   // 0–1
+  criterionScores: Record<string, number>; // 0–1, keyed by criterion key
   totalScore: number;      // weighted sum
 };
 
+// Fields that feed scoring; low-confidence AI values among them are
+// treated as missing until a buyer confirms them
+const SCORED_FIELDS = [
+  "totalPrice",
+  "currency",
+  "deliveryDays",
+  "warrantyMonths",
+  "terms",
+] as const;
+
+function maskUnreviewedFields<T extends ProposalWithVendor>(p: T): T {
+  const unreviewed = p.lowConfidenceFields ?? [];
+  if (!SCORED_FIELDS.some(f => unreviewed.includes(f))) return p;
+
+  const masked = { ...p };
+  for (const f of SCORED_FIELDS) {
+    if (unreviewed.includes(f)) (masked as any)[f] = null;
+  }
+  // a doubtful currency makes the price unusable too
+  if (unreviewed.includes("currency")) masked.totalPrice = null;
+  return masked;
+}
+
 export type ProposalWithScores = ProposalWithVendor & {
+  pricing: ProposalPricing;
   scores: ProposalScoreBreakdown;
+  compliance: ComplianceResult;
+  missingItemIndexes: number[]; // RFP items this vendor didn't quote
+};
+
+// One cell of the item matrix; prices are in the RFP currency
+export type ItemQuote = {
+  proposalId: string;
+  vendorId: string;
+  vendorName: string;
+  quoted: boolean;
+  quantity: number | null;
+  unitPrice: number | null;
+  totalPrice: number | null;
+  quantityShortfall: boolean; // quoted fewer units than requested
+};
+
+export type RfpItemComparison = {
+  rfpItemIndex: number;
+  name: string;
+  quantity: number;
+  quotes: ItemQuote[];
+  lowestUnitPrice: number | null;
+  lowestUnitPriceProposalId: string | null;
+};
+
+// How proposals failing a hard compliance check are treated
+export type ComplianceMode = "penalize" | "exclude" | "ignore";
+
+export type CompareOptions = {
+  fx?: FxConverter;
+  compliance?: ComplianceMode;
+  // vendorId → 0–1 reliability from past RFPs (see vendorScorecard.ts)
+  reliability?: Record<string, number>;
+  // proposalId → criterion key → 0–1 consensus of submitted evaluator
+  // scores (see evaluations.ts)
+  consensus?: Record<string, Record<string, number>>;
 };
 
+// Total score multiplier for proposals with a hard compliance failure
+// (compliance mode "penalize")
+const HARD_FAILURE_PENALTY = 0.5;
+
 export type RfpComparisonResult = {
   rfpId: string;
   rfpTitle: string;
   currency: string | null;
-  criteriaWeights: {
-    price: number;
-    delivery: number;
-    warranty: number;
-  };
+  criteriaWeights: Record<string, number>;
   proposals: ProposalWithScores[];
+  excludedProposals: {
+    proposalId: string;
+    vendorId: string;
+    vendorName: string;
+    compliance: ComplianceResult;
+  }[];
+  itemMatrix: RfpItemComparison[];
+  // proposals whose quote couldn't be converted into the RFP currency;
+  // they score 0 on price rather than being ranked against real prices
+  fxMissingProposalIds: string[];
+  // Currencies quoted when the RFP has no (confirmed) currency to convert
+  // into and the quotes don't share one; prices aren't compared then and
+  // every quote counts as unconvertible. Empty otherwise.
+  mixedCurrencies: string[];
   bestProposalId: string | null;
 };
 
+/* ---------------------------------------------------
+ * Scoring criteria (stored per RFP in Rfp.scoringCriteria)
+ * --------------------------------------------------*/
+
+export type ScoringCriterion =
+  | {
+      key: string;
+      type: "price" | "delivery" | "warranty";
+      weight: number;
+    }
+  | {
+      // Ordered list of preferred terms, best first. Matching is a
+      // case-insensitive substring check against Proposal.terms.
+      key: string;
+      type: "paymentTerms";
+      weight: number;
+      preferredTerms: string[];
+    }
+  | {
+      // Evaluator-supplied 0–1 rating per vendorId (e.g. vendor history)
+      key: string;
+      type: "vendorRating";
+      weight: number;
+      ratings: Record<string, number>;
+    }
+  | {
+      // Computed from the vendor's scorecard (response rate, term
+      // stability); vendors without history score neutral
+      key: string;
+      type: "vendorReliability";
+      weight: number;
+    }
+  | {
+      // Qualitative / technical criterion scored 0–scale by each
+      // evaluator; the consensus (mean) counts. Unscored proposals score
+      // neutral.
+      key: string;
+      type: "evaluation";
+      weight: number;
+      label: string;
+      scale: number;
+    };
+
+export type ScoringCriterionType = ScoringCriterion["type"];
+
+const CRITERION_TYPES: ScoringCriterionType[] = [
+  "price",
+  "delivery",
+  "warranty",
+  "paymentTerms",
+  "vendorRating",
+  "vendorReliability",
+  "evaluation",
+];
+
+const DEFAULT_EVALUATION_SCALE = 5;
+
+export const DEFAULT_SCORING_CRITERIA: ScoringCriterion[] = [
+  { key: "price", type: "price", weight: 0.45 },
+  { key: "delivery", type: "delivery", weight: 0.35 },
+  { key: "warranty", type: "warranty", weight: 0.20 },
+];
+
+// Validates user input for Rfp.scoringCriteria. Returns the cleaned list
+// or the list of problems found.
+export function validateScoringCriteria(
+  raw: unknown
+): { criteria: ScoringCriterion[]; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { criteria: [], errors: ["criteria must be a non-empty array"] };
+  }
+
+  const seen = new Set<string>();
+  const criteria: ScoringCriterion[] = [];
+
+  raw.forEach((c: any, i) => {
+    const where = `criteria[${i}]`;
+
+    if (!c || typeof c !== "object") {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    if (!CRITERION_TYPES.includes(c.type)) {
+      errors.push(`${where}.type must be one of ${CRITERION_TYPES.join(", ")}`);
+      return;
+    }
+
+    const key = typeof c.key === "string" && c.key.trim() ? c.key.trim() : c.type;
+    if (seen.has(key)) {
+      errors.push(`${where}.key "${key}" is duplicated`);
+      return;
+    }
+    seen.add(key);
+
+    if (typeof c.weight !== "number" || !Number.isFinite(c.weight) || c.weight < 0) {
+      errors.push(`${where}.weight must be a non-negative number`);
+      return;
+    }
+
+    if (c.type === "paymentTerms") {
+      if (
+        !Array.isArray(c.preferredTerms) ||
+        c.preferredTerms.length === 0 ||
+        c.preferredTerms.some((t: any) => typeof t !== "string")
+      ) {
+        errors.push(`${where}.preferredTerms must be a non-empty string array`);
+        return;
+      }
+      criteria.push({
+        key,
+        type: "paymentTerms",
+        weight: c.weight,
+        preferredTerms: c.preferredTerms,
+      });
+      return;
+    }
+
+    if (c.type === "vendorRating") {
+      const ratings = c.ratings;
+      if (
+        !ratings ||
+        typeof ratings !== "object" ||
+        Object.values(ratings).some(
+          (r: any) => typeof r !== "number" || r < 0 || r > 1
+        )
+      ) {
+        errors.push(`${where}.ratings must map vendorId to a number in 0–1`);
+        return;
+      }
+      criteria.push({ key, type: "vendorRating", weight: c.weight, ratings });
+      return;
+    }
+
+    if (c.type === "evaluation") {
+      const scale = c.scale ?? DEFAULT_EVALUATION_SCALE;
+      if (typeof scale !== "number" || !Number.isFinite(scale) || scale <= 0) {
+        errors.push(`${where}.scale must be a positive number`);
+        return;
+      }
+      if (c.label !== undefined && typeof c.label !== "string") {
+        errors.push(`${where}.label must be a string`);
+        return;
+      }
+      criteria.push({
+        key,
+        type: "evaluation",
+        weight: c.weight,
+        label: c.label?.trim() || key,
+        scale,
+      });
+      return;
+    }
+
+    criteria.push({ key, type: c.type, weight: c.weight });
+  });
+
+  if (errors.length === 0 && criteria.every(c => c.weight === 0)) {
+    errors.push("at least one criterion must have a weight above 0");
+  }
+
+  return { criteria, errors };
+}
+
+// Criteria actually used for an RFP: the stored config if valid, else defaults
+export function resolveScoringCriteria(rfp: Rfp): ScoringCriterion[] {
+  if (rfp.scoringCriteria == null) {
+    return DEFAULT_SCORING_CRITERIA;
+  }
+
+  const { criteria, errors } = validateScoringCriteria(rfp.scoringCriteria);
+  if (errors.length > 0) {
+    console.error(`Invalid scoring criteria on RFP ${rfp.id}:`, errors);
+    return DEFAULT_SCORING_CRITERIA;
+  }
+
+  return criteria;
+}
+
+// Weights normalised to sum to 1, keyed by criterion key
+function normalizeWeights(criteria: ScoringCriterion[]): Record<string, number> {
+  const sum = criteria.reduce((acc, c) => acc + c.weight, 0);
+  const weights: Record<string, number> = {};
+  for (const c of criteria) {
+    weights[c.key] = sum > 0 ? c.weight / sum : 0;
+  }
+  return weights;
+}
+
+// Lower-is-better / higher-is-better min-max scaling (missing = neutral 0.5)
+function rangeScore(
+  value: number | null,
+  values: number[],
+  higherIsBetter: boolean
+): number {
+  if (value == null || values.length === 0) return 0.5;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max === min) return 1;
+
+  return higherIsBetter ? (value - min) / (max - min) : (max - value) / (max - min);
+}
+
+function paymentTermsScore(terms: string | null, preferred: string[]): number {
+  if (!terms) return 0.5;
+
+  const lower = terms.toLowerCase();
+  const idx = preferred.findIndex(t => lower.includes(t.toLowerCase()));
+  if (idx === -1) return 0;
+
+  // first preference = 1, last preference > 0
+  return (preferred.length - idx) / preferred.length;
+}
+
+function sumOrNull(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length ? present.reduce((a, b) => a + b, 0) : null;
+}
+
+// Per-RFP-item view across proposals. Several lines mapped to the same
+// item are summed; unit price is then derived from the summed total.
+function buildItemMatrix(
+  rfp: Rfp,
+  scored: ProposalWithScores[]
+): RfpItemComparison[] {
+  const items = specForRfp(rfp).items;
+
+  return items.map((item, rfpItemIndex) => {
+    const quotes: ItemQuote[] = scored.map(p => {
+      const lines = (p.lineItems ?? []).filter(
+        li => li.rfpItemIndex === rfpItemIndex
+      );
+      // unknown rate: the line prices can't be put next to the others
+      const rate = p.pricing.fxMissing ? null : p.pricing.fxRate;
+      const convert = (v: number | null) =>
+        v === null || rate === null ? null : v * rate;
+
+      if (lines.length === 0) {
+        return {
+          proposalId: p.id,
+          vendorId: p.vendorId,
+          vendorName: p.vendor.name,
+          quoted: false,
+          quantity: null,
+          unitPrice: null,
+          totalPrice: null,
+          quantityShortfall: false,
+        };
+      }
+
+      const quantity = sumOrNull(lines.map(li => li.quantity));
+      const totalPrice = convert(sumOrNull(lines.map(li => li.totalPrice)));
+      const unitPrice =
+        lines.length === 1
+          ? convert(lines[0].unitPrice)
+          : totalPrice !== null && quantity
+          ? totalPrice / quantity
+          : null;
+
+      return {
+        proposalId: p.id,
+        vendorId: p.vendorId,
+        vendorName: p.vendor.name,
+        quoted: true,
+        quantity,
+        unitPrice,
+        totalPrice,
+        quantityShortfall: quantity !== null && quantity < item.quantity,
+      };
+    });
+
+    let lowest: ItemQuote | null = null;
+    for (const q of quotes) {
+      if (q.unitPrice === null) continue;
+      if (!lowest || q.unitPrice < lowest.unitPrice!) lowest = q;
+    }
+
+    return {
+      rfpItemIndex,
+      name: item.name,
+      quantity: item.quantity,
+      quotes,
+      lowestUnitPrice: lowest?.unitPrice ?? null,
+      lowestUnitPriceProposalId: lowest?.proposalId ?? null,
+    };
+  });
+}
+
 export function compareProposalsForRfp(
   rfp: Rfp,
-  proposals: ProposalWithVendor[]
+  proposals: ProposalWithVendor[],
+  opts: CompareOptions = {}
 ): RfpComparisonResult {
+  const criteria = resolveScoringCriteria(rfp);
+  const weights = normalizeWeights(criteria);
+
   if (proposals.length === 0) {
     return {
       rfpId: rfp.id,
       rfpTitle: rfp.title,
       currency: rfp.currency ?? null,
-      criteriaWeights: { price: 0.6, delivery: 0.25, warranty: 0.15 },
+      criteriaWeights: weights,
       proposals: [],
+      excludedProposals: [],
+      itemMatrix: buildItemMatrix(rfp, []),
+      fxMissingProposalIds: [],
+      mixedCurrencies: [],
       bestProposalId: null,
     };
   }
 
-  const weights = {
-    price: 0.45,
-    delivery: 0.35,
-    warranty: 0.20,
-  };
+  // An RFP currency awaiting review is unknown, as if the RFP had none:
+  // quotes are compared as quoted
+  const targetCurrency = unconfirmedRfpFields(rfp).has("currency")
+    ? null
+    : normalizeCurrency(rfp.currency);
+  const complianceMode = opts.compliance ?? "penalize";
+
+  const checked = proposals.map(p => ({
+    proposal: p,
+    compliance: checkProposalCompliance(rfp, p, { fx: opts.fx }),
+  }));
+
+  const excludedProposals =
+    complianceMode === "exclude"
+      ? checked
+          .filter(c => c.compliance.status === "FAIL")
+          .map(c => ({
+            proposalId: c.proposal.id,
+            vendorId: c.proposal.vendorId,
+            vendorName: c.proposal.vendor.name,
+            compliance: c.compliance,
+          }))
+      : [];
 
-  const filtered = rfp.currency
-    ? proposals.filter(p => p.currency === rfp.currency)
-    : proposals;
+  const included = checked
+    .filter(c => !excludedProposals.some(e => e.proposalId === c.proposal.id))
+    .map(c => ({ ...c, scoring: maskUnreviewedFields(c.proposal) }));
 
-  const effectiveProposals = filtered.length > 0 ? filtered : proposals;
+  // Without an RFP currency quotes can only be compared as quoted, which
+  // means nothing once they're in different currencies (1,000 USD would
+  // rank below 90,000 JPY)
+  const quotedCurrencies = [
+    ...new Set(
+      included
+        .filter(c => c.scoring.totalPrice != null)
+        .map(c => normalizeCurrency(c.scoring.currency) ?? "(none)")
+    ),
+  ].sort();
+  const mixedCurrencies = !targetCurrency && quotedCurrencies.length > 1 ? quotedCurrencies : [];
 
-  const prices = effectiveProposals
-    .map(p => p.totalPrice)
+  // Convert every quote into the RFP currency instead of dropping those in
+  // another currency. Quotes without a currency are assumed to be in it.
+  const priced = included.map(({ proposal: p, scoring, compliance }) => {
+    const pricing = priceInCurrency(scoring, targetCurrency, opts.fx);
+    return {
+      proposal: p,
+      scoring,
+      compliance,
+      pricing: mixedCurrencies.length
+        ? {
+            ...pricing,
+            convertedAmount: null,
+            convertedCurrency: null,
+            fxRate: null,
+            fxMissing: pricing.originalAmount != null,
+          }
+        : pricing,
+    };
+  });
+
+  const prices = priced
+    .map(({ pricing }) => pricing.convertedAmount)
     .filter((pr): pr is number => pr !== null);
-  const deliveries = effectiveProposals
-    .map(p => p.deliveryDays ?? null)
+  const deliveries = priced
+    .map(({ scoring }) => scoring.deliveryDays ?? null)
     .filter((d): d is number => d !== null);
-  const warranties = effectiveProposals
-    .map(p => p.warrantyMonths ?? null)
+  const warranties = priced
+    .map(({ scoring }) => scoring.warrantyMonths ?? null)
     .filter((w): w is number => w !== null);
 
-  const minPrice = Math.min(...prices);
-  const maxPrice = Math.max(...prices);
-  const minDelivery = deliveries.length ? Math.min(...deliveries) : null;
-  const maxDelivery = deliveries.length ? Math.max(...deliveries) : null;
-  const minWarranty = warranties.length ? Math.min(...warranties) : null;
-  const maxWarranty = warranties.length ? Math.max(...warranties) : null;
-
-  const scored: ProposalWithScores[] = effectiveProposals.map(p => {
-    // price: lower is better (missing = neutral 0.5)
-    let priceScore = 0.5;
-    if (p.totalPrice != null && prices.length > 0) {
-      if (maxPrice === minPrice) {
-        priceScore = 1;
-      } else {
-        priceScore = (maxPrice - p.totalPrice) / (maxPrice - minPrice);
-      }
-    }
+  const scored: ProposalWithScores[] = priced.map(({ proposal: p, scoring, pricing, compliance }) => {
+    // price / delivery: lower is better; warranty: higher is better.
+    // A price that couldn't be converted scores 0: left neutral, it could
+    // outrank quotes that were actually compared.
+    const priceScore = pricing.fxMissing
+      ? 0
+      : rangeScore(pricing.convertedAmount, prices, false);
+    const deliveryScore = rangeScore(scoring.deliveryDays, deliveries, false);
+    const warrantyScore = rangeScore(scoring.warrantyMonths, warranties, true);
 
-    // delivery: lower is better (missing = neutral 0.5)
-    let deliveryScore = 0.5;
-    if (p.deliveryDays != null && minDelivery != null && maxDelivery != null) {
-      if (maxDelivery === minDelivery) {
-        deliveryScore = 1;
-      } else {
-        deliveryScore =
-          (maxDelivery - p.deliveryDays) / (maxDelivery - minDelivery);
+    const criterionScores: Record<string, number> = {};
+    for (const c of criteria) {
+      switch (c.type) {
+        case "price":
+          criterionScores[c.key] = priceScore;
+          break;
+        case "delivery":
+          criterionScores[c.key] = deliveryScore;
+          break;
+        case "warranty":
+          criterionScores[c.key] = warrantyScore;
+          break;
+        case "paymentTerms":
+          criterionScores[c.key] = paymentTermsScore(scoring.terms, c.preferredTerms);
+          break;
+        case "vendorRating":
+          criterionScores[c.key] = c.ratings[p.vendorId] ?? 0.5;
+          break;
+        case "vendorReliability":
+          criterionScores[c.key] = opts.reliability?.[p.vendorId] ?? 0.5;
+          break;
+        case "evaluation":
+          criterionScores[c.key] = opts.consensus?.[p.id]?.[c.key] ?? 0.5;
+          break;
       }
     }
 
-    // warranty: higher is better (missing = neutral 0.5)
-    let warrantyScore = 0.5;
-    if (
-      p.warrantyMonths != null &&
-      minWarranty != null &&
-      maxWarranty != null
-    ) {
-      if (maxWarranty === minWarranty) {
-        warrantyScore = 1;
-      } else {
-        warrantyScore =
-          (p.warrantyMonths - minWarranty) / (maxWarranty - minWarranty);
-      }
+    let totalScore = criteria.reduce(
+      (acc, c) => acc + criterionScores[c.key] * weights[c.key],
+      0
+    );
+    if (complianceMode === "penalize" && compliance.status === "FAIL") {
+      totalScore *= HARD_FAILURE_PENALTY;
     }
 
-    const totalScore =
-      priceScore * weights.price +
-      deliveryScore * weights.delivery +
-      warrantyScore * weights.warranty;
-
     return {
       ...p,
+      pricing,
       scores: {
         priceScore,
         deliveryScore,
         warrantyScore,
+        criterionScores,
         totalScore,
       },
+      compliance,
+      missingItemIndexes: [],
     };
   });
 
   scored.sort((a, b) => b.scores.totalScore - a.scores.totalScore);
 
+  const itemMatrix = buildItemMatrix(rfp, scored);
+  for (const row of itemMatrix) {
+    for (const q of row.quotes) {
+      if (!q.quoted) {
+        scored
+          .find(p => p.id === q.proposalId)
+          ?.missingItemIndexes.push(row.rfpItemIndex);
+      }
+    }
+  }
+
   return {
     rfpId: rfp.id,
     rfpTitle: rfp.title,
-    currency: rfp.currency ?? null,
+    currency: targetCurrency,
     criteriaWeights: weights,
     proposals: scored,
+    excludedProposals,
+    itemMatrix,
+    fxMissingProposalIds: scored.filter(p => p.pricing.fxMissing).map(p => p.id),
+    mixedCurrencies,
     bestProposalId: scored[0]?.id ?? null,
   };
 }
@@ -0,0 +1,61 @@
+// src/reminders.test.ts
+// Runs on a ManualClock; only the scheduling arithmetic, no database.
+import test from "node:test";
+import assert from "node:assert/strict";
+import { ManualClock, getClock, setClock } from "./lib/clock";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// reminders.ts builds the Prisma client on import, which never connects
+// unless queried
+process.env.DATABASE_URL ??= "postgres://localhost/reminders-test";
+
+test("cadence steps come due as the local clock advances", async () => {
+  const { dueReminderOffset } = await import("./reminders");
+  const deadline = new Date("2030-01-10T17:00:00Z");
+  const clock = new ManualClock(new Date(deadline.getTime() - 100 * HOUR_MS));
+  setClock(clock);
+
+  try {
+    const due = () => dueReminderOffset([72, 24], deadline, getClock().now());
+
+    assert.equal(due(), null);
+    clock.advance(28 * HOUR_MS); // 72h before
+    assert.equal(due(), 72);
+    clock.advance(47 * HOUR_MS); // 25h before
+    assert.equal(due(), 72);
+    clock.advance(HOUR_MS); // 24h before
+    assert.equal(due(), 24);
+  } finally {
+    setClock(null);
+  }
+});
+
+test("steps missed while the scheduler was down collapse into the latest", async () => {
+  const { dueReminderOffset } = await import("./reminders");
+  const deadline = new Date("2030-01-10T17:00:00Z");
+  const clock = new ManualClock(new Date(deadline.getTime() - 200 * HOUR_MS));
+
+  clock.set(new Date(deadline.getTime() - 2 * HOUR_MS));
+  assert.equal(dueReminderOffset([168, 72, 24], deadline, clock.now()), 24);
+});
+
+test("moving the deadline starts the cadence over", async () => {
+  const { deadlineReminderKey, dueReminderOffset } = await import("./reminders");
+  const deadline = new Date("2030-01-10T17:00:00Z");
+  const extended = new Date("2030-01-17T17:00:00Z");
+  const now = new Date(deadline.getTime() - 20 * HOUR_MS);
+
+  // both steps went out for the first deadline
+  const sent = [72, 24].map(h => deadlineReminderKey("rfp-1", "vendor-1", deadline, h));
+
+  assert.equal(dueReminderOffset([72, 24], extended, now), null);
+  const later = new Date(extended.getTime() - 70 * HOUR_MS);
+  const offset = dueReminderOffset([72, 24], extended, later);
+  assert.equal(offset, 72);
+  assert.ok(!sent.includes(deadlineReminderKey("rfp-1", "vendor-1", extended, offset!)));
+  assert.equal(
+    deadlineReminderKey("rfp-1", "vendor-1", deadline, 72),
+    "deadline:rfp-1:vendor-1:2030-01-10T17:00:00.000Z:72"
+  );
+});
@@ -0,0 +1,305 @@
+// src/reminders.ts
+import { Reminder, ReminderKind, Rfp, Vendor } from ".prisma/client";
+import prisma from "./lib/prisma";
+import { getClock } from "./lib/clock";
+import {
+  RenderedRfpEmail,
+  renderClarificationRequest,
+  renderDeadlineReminder,
+  sendVendorEmail,
+} from "./rfpDispatch";
+
+const POLL_MS = Number(process.env.REMINDER_POLL_MS || 5 * 60 * 1000);
+const MAX_ATTEMPTS = 3;
+// A PENDING reminder not finished within this long was claimed by a
+// scheduler that died mid-send; it's sent again
+const CLAIM_TIMEOUT_MS = Number(process.env.REMINDER_CLAIM_TIMEOUT_MS || 15 * 60 * 1000);
+const HOUR_MS = 60 * 60 * 1000;
+
+// ParsedProposalSpec fields a clarification can ask for
+export const CLARIFIABLE_FIELDS = [
+  "totalPrice",
+  "currency",
+  "deliveryDays",
+  "warrantyMonths",
+  "terms",
+] as const;
+
+export type ClarifiableField = (typeof CLARIFIABLE_FIELDS)[number];
+
+export type ReminderResult = {
+  reminderId: string;
+  kind: ReminderKind;
+  rfpId: string;
+  vendorId: string;
+  status: "SENT" | "FAILED";
+  error: string | null;
+};
+
+type ReminderPlan = {
+  kind: ReminderKind;
+  rfp: Rfp;
+  vendor: Vendor;
+  dedupeKey: string;
+  dueAt: Date;
+  offsetHours?: number;
+  proposalId?: string;
+  missingFields?: string[];
+  inReplyTo?: string | null;
+  render: () => RenderedRfpEmail;
+};
+
+export function validateReminderOffsets(raw: unknown): { offsets?: number[]; error?: string } {
+  if (!Array.isArray(raw) || !raw.every(h => Number.isInteger(h) && h > 0)) {
+    return { error: "reminderOffsetsHours must be an array of positive whole hours" };
+  }
+  return { offsets: [...new Set(raw as number[])].sort((a, b) => b - a) };
+}
+
+export function validateClarificationFields(raw: unknown): { fields?: string[]; error?: string } {
+  if (
+    !Array.isArray(raw) ||
+    !raw.every(f => (CLARIFIABLE_FIELDS as readonly string[]).includes(f))
+  ) {
+    return {
+      error: `clarificationFields must only contain ${CLARIFIABLE_FIELDS.join(", ")}`,
+    };
+  }
+  return { fields: [...new Set(raw as string[])] };
+}
+
+/* ---------------------------------------------------
+ * What is due
+ * --------------------------------------------------*/
+
+// The latest cadence step whose time has come, e.g. offsets [72, 24] and
+// 30h before the deadline → 72. Steps missed while the scheduler was down
+// collapse into the most recent one rather than all firing at once.
+export function dueReminderOffset(
+  offsetsHours: number[],
+  deadline: Date,
+  now: Date
+): number | null {
+  const due = offsetsHours.filter(h => deadline.getTime() - h * HOUR_MS <= now.getTime());
+  return due.length ? Math.min(...due) : null;
+}
+
+// One reminder per cadence step of a deadline: moving the deadline starts
+// the cadence over
+export function deadlineReminderKey(
+  rfpId: string,
+  vendorId: string,
+  deadline: Date,
+  offsetHours: number
+): string {
+  return `deadline:${rfpId}:${vendorId}:${deadline.toISOString()}:${offsetHours}`;
+}
+
+// Invited vendors who haven't responded, ahead of a published RFP's deadline
+async function planDeadlineReminders(
+  now: Date,
+  organizationId?: string
+): Promise<ReminderPlan[]> {
+  const rfps = await prisma.rfp.findMany({
+    where: {
+      organizationId,
+      status: "PUBLISHED",
+      remindersEnabled: true,
+      submissionDeadline: { gt: now },
+    },
+    include: {
+      invitations: {
+        where: { status: { in: ["INVITED", "ACKNOWLEDGED"] } },
+        include: { vendor: true },
+      },
+    },
+  });
+
+  const plans: ReminderPlan[] = [];
+  for (const { invitations, ...rfp } of rfps) {
+    const deadline = rfp.submissionDeadline!;
+    const offset = dueReminderOffset(rfp.reminderOffsetsHours, deadline, now);
+    if (offset === null) continue;
+
+    const dueAt = new Date(deadline.getTime() - offset * HOUR_MS);
+    for (const invitation of invitations) {
+      // invited after this step was due: they've only just got the RFP
+      if (invitation.invitedAt > dueAt) continue;
+
+      plans.push({
+        kind: "DEADLINE",
+        rfp,
+        vendor: invitation.vendor,
+        dedupeKey: deadlineReminderKey(rfp.id, invitation.vendorId, deadline, offset),
+        dueAt,
+        offsetHours: offset,
+        render: () => renderDeadlineReminder(rfp, invitation.vendor, deadline),
+      });
+    }
+  }
+  return plans;
+}
+
+// Parsed (not yet reviewed) email proposals with configured fields null
+async function planClarifications(organizationId?: string): Promise<ReminderPlan[]> {
+  const proposals = await prisma.proposal.findMany({
+    where: {
+      isLatest: true,
+      source: "EMAIL",
+      reviewStatus: "DRAFT_PARSED",
+      rfp: { organizationId, status: { in: ["PUBLISHED", "CLOSED"] }, remindersEnabled: true },
+    },
+    include: { rfp: true, vendor: true, email: true },
+  });
+
+  const plans: ReminderPlan[] = [];
+  for (const proposal of proposals) {
+    const missing = proposal.rfp.clarificationFields.filter(
+      f => proposal[f as ClarifiableField] == null
+    );
+    if (missing.length === 0) continue;
+
+    plans.push({
+      kind: "CLARIFICATION",
+      rfp: proposal.rfp,
+      vendor: proposal.vendor,
+      dedupeKey: `clarification:${proposal.id}`,
+      dueAt: proposal.createdAt,
+      proposalId: proposal.id,
+      missingFields: missing,
+      inReplyTo: proposal.email?.messageId ?? null,
+      render: () => renderClarificationRequest(proposal.rfp, proposal.vendor, missing),
+    });
+  }
+  return plans;
+}
+
+/* ---------------------------------------------------
+ * Sending
+ * --------------------------------------------------*/
+
+// Claims the plan's reminder row, then sends. Returns null when it was
+// already sent, given up on, or claimed by another scheduler that is
+// still within CLAIM_TIMEOUT_MS. updatedAt is set from the clock so
+// staleness is judged on the same time as everything else.
+async function sendPlannedReminder(
+  plan: ReminderPlan,
+  now: Date
+): Promise<ReminderResult | null> {
+  let reminder: Reminder | null = await prisma.reminder.findUnique({
+    where: { dedupeKey: plan.dedupeKey },
+  });
+
+  const staleBefore = new Date(now.getTime() - CLAIM_TIMEOUT_MS);
+  const retryable = [
+    { status: "FAILED" as const },
+    { status: "PENDING" as const, updatedAt: { lt: staleBefore } },
+  ];
+
+  if (reminder) {
+    if (reminder.status === "SENT" || reminder.attempts >= MAX_ATTEMPTS) return null;
+
+    const claimed = await prisma.reminder.updateMany({
+      where: { id: reminder.id, OR: retryable },
+      data: { status: "PENDING", updatedAt: now },
+    });
+    if (claimed.count === 0) return null;
+  } else {
+    try {
+      reminder = await prisma.reminder.create({
+        data: {
+          rfpId: plan.rfp.id,
+          vendorId: plan.vendor.id,
+          kind: plan.kind,
+          offsetHours: plan.offsetHours ?? null,
+          proposalId: plan.proposalId ?? null,
+          missingFields: plan.missingFields ?? [],
+          dedupeKey: plan.dedupeKey,
+          dueAt: plan.dueAt,
+          updatedAt: now,
+        },
+      });
+    } catch (err: any) {
+      if (err.code === "P2002") return null;
+      throw err;
+    }
+  }
+
+  const sent = await sendVendorEmail(plan.rfp, plan.vendor, plan.render(), {
+    inReplyTo: plan.inReplyTo,
+  });
+
+  await prisma.reminder.update({
+    where: { id: reminder.id },
+    data: {
+      status: sent.status,
+      attempts: { increment: 1 },
+      error: sent.error,
+      emailId: sent.emailId,
+      sentAt: sent.status === "SENT" ? now : null,
+      updatedAt: now,
+    },
+  });
+
+  return {
+    reminderId: reminder.id,
+    kind: plan.kind,
+    rfpId: plan.rfp.id,
+    vendorId: plan.vendor.id,
+    status: sent.status,
+    error: sent.error,
+  };
+}
+
+// One scheduler pass: sends every reminder and clarification that is due
+// at `now` (the configured clock by default), for one organization's RFPs
+// or, from the scheduler, everyone's
+export async function runReminders(
+  now = getClock().now(),
+  organizationId?: string
+): Promise<ReminderResult[]> {
+  const plans = [
+    ...(await planDeadlineReminders(now, organizationId)),
+    ...(await planClarifications(organizationId)),
+  ];
+
+  const results: ReminderResult[] = [];
+  for (const plan of plans) {
+    const result = await sendPlannedReminder(plan, now);
+    if (result) results.push(result);
+  }
+  return results;
+}
+
+/* ---------------------------------------------------
+ * In-process scheduler loop
+ * --------------------------------------------------*/
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export function startReminderScheduler() {
+  if (running) return;
+  running = true;
+
+  const tick = async () => {
+    try {
+      await runReminders();
+    } catch (err) {
+      console.error("Reminder scheduler error:", err);
+    }
+    if (running) {
+      timer = setTimeout(tick, POLL_MS);
+    }
+  };
+
+  timer = setTimeout(tick, 0);
+}
+
+export function stopReminderScheduler() {
+  running = false;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
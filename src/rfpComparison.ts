@@ -0,0 +1,95 @@
+// src/rfpComparison.ts
+import { Rfp } from ".prisma/client";
+import prisma from "./lib/prisma";
+import { buildFxConverter } from "./fx";
+import { NonResponder, listNonResponders } from "./rfpInvitations";
+import { vendorReliabilityScores } from "./vendorScorecard";
+import { EvaluationSummary, evaluationCriteria, summarizeEvaluations } from "./evaluations";
+import {
+  ComplianceMode,
+  RfpComparisonResult,
+  compareProposalsForRfp,
+  resolveScoringCriteria,
+} from "./proposalScoring";
+
+export type RfpComparisonQuery = {
+  fxDate?: Date;
+  compliance?: ComplianceMode;
+  // rank only human-reviewed proposals
+  reviewedOnly?: boolean;
+  // leave out proposals received after the submission deadline
+  excludeLate?: boolean;
+  // false for a caller blinded from evaluators' scores: evaluation
+  // criteria then score neutral and only progress counts are returned
+  evaluationsVisible?: boolean;
+};
+
+export type RfpComparison = RfpComparisonResult & {
+  // invited vendors without a proposal
+  nonResponders: NonResponder[];
+  // ranked proposals from vendors who were never invited
+  uninvitedVendorIds: string[];
+  // consensus of evaluator scores; null if the RFP has no evaluation
+  // criteria
+  evaluations: EvaluationSummary | null;
+};
+
+// Loads the proposals that compete (each vendor's latest revision, never
+// rejected ones) and FX rates as of fxDate, then ranks them
+export async function runRfpComparison(
+  rfp: Rfp,
+  query: RfpComparisonQuery = {}
+): Promise<RfpComparison> {
+  const fxDate = query.fxDate ?? new Date();
+
+  const [proposals, fxRates, invitations, nonResponders] = await Promise.all([
+    prisma.proposal.findMany({
+      where: {
+        rfpId: rfp.id,
+        isLatest: true,
+        reviewStatus: query.reviewedOnly ? "REVIEWED" : { not: "REJECTED" },
+        ...(query.excludeLate ? { isLate: false } : {}),
+      },
+      include: { vendor: true, lineItems: true, email: true },
+    }),
+    prisma.fxRate.findMany({
+      where: { organizationId: rfp.organizationId, asOf: { lte: fxDate } },
+    }),
+    prisma.rfpInvitation.findMany({
+      where: { rfpId: rfp.id },
+      select: { vendorId: true },
+    }),
+    listNonResponders(rfp),
+  ]);
+
+  // only looked up when the RFP scores on it; this RFP itself doesn't count
+  const reliability = resolveScoringCriteria(rfp).some(c => c.type === "vendorReliability")
+    ? await vendorReliabilityScores(proposals.map(p => p.vendorId), { excludeRfpId: rfp.id })
+    : undefined;
+
+  const evaluated = evaluationCriteria(rfp).length > 0 ? await summarizeEvaluations(rfp) : null;
+  const evaluationsVisible = query.evaluationsVisible ?? true;
+
+  const result = compareProposalsForRfp(rfp, proposals, {
+    fx: buildFxConverter(fxRates, fxDate),
+    compliance: query.compliance ?? "penalize",
+    reliability,
+    consensus: evaluationsVisible ? evaluated?.consensus : undefined,
+  });
+
+  const invited = new Set(invitations.map(i => i.vendorId));
+
+  return {
+    ...result,
+    nonResponders,
+    // RFPs sent before invitations existed have none; nobody is flagged then
+    uninvitedVendorIds:
+      invited.size === 0
+        ? []
+        : [...new Set(proposals.map(p => p.vendorId))].filter(id => !invited.has(id)),
+    evaluations:
+      evaluated && !evaluationsVisible
+        ? { ...evaluated.summary, visible: false, proposals: [], highVarianceCount: 0 }
+        : evaluated?.summary ?? null,
+  };
+}
@@ -0,0 +1,50 @@
+// src/rfpDispatch.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { Rfp, Vendor } from ".prisma/client";
+
+// rfpDispatch.ts builds the Prisma client on import, which never connects
+// unless queried
+process.env.DATABASE_URL ??= "postgres://localhost/dispatch-test";
+
+const vendor = { id: "vendor-1", name: "Acme", contactPerson: null } as unknown as Vendor;
+
+function rfp(budget: number | null): Rfp {
+  return {
+    id: "rfp-1",
+    title: "Laptops",
+    naturalLanguageInput: "20 laptops, we can spend up to 30000 USD",
+    structuredSpec: { items: [{ name: "Laptop", quantity: 20, keySpecs: ["16GB RAM"] }] },
+    budget,
+    currency: "USD",
+    deliveryDeadline: null,
+    paymentTerms: null,
+    minimumWarrantyMonths: null,
+  } as unknown as Rfp;
+}
+
+test("the RFP email leaves the budget and request text out by default", async () => {
+  const { renderRfpEmail } = await import("./rfpDispatch");
+  const email = renderRfpEmail(rfp(30000), vendor);
+
+  for (const body of [email.text, email.html]) {
+    assert.doesNotMatch(body, /30000/);
+    assert.doesNotMatch(body, /Budget/);
+    assert.match(body, /Laptop/);
+  }
+});
+
+test("the RFP email shows the budget when asked to", async () => {
+  const { renderRfpEmail } = await import("./rfpDispatch");
+  const email = renderRfpEmail(rfp(30000), vendor, { budget: "show" });
+
+  assert.match(email.text, /Budget: 30000 USD/);
+  assert.match(email.text, /we can spend up to 30000 USD/);
+});
+
+test("without a budget the request text has nothing to give away", async () => {
+  const { renderRfpEmail } = await import("./rfpDispatch");
+  const email = renderRfpEmail(rfp(null), vendor);
+
+  assert.match(email.text, /Description:\n20 laptops/);
+});
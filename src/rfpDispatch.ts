@@ -0,0 +1,277 @@
+// src/rfpDispatch.ts
+import { Rfp, Vendor } from ".prisma/client";
+import prisma from "./lib/prisma";
+import { getClock } from "./lib/clock";
+import { buildRfpSubject } from "./utils/email";
+import { specForRfp } from "./utils/rfpSpec";
+import { BudgetVisibility } from "./documentExports";
+import {
+  generateMessageId,
+  getMailFromAddress,
+  getMailTransport,
+} from "./lib/mailer";
+
+export type RenderedRfpEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export type RfpDispatchResult = {
+  vendorId: string;
+  vendorEmail: string;
+  emailId: string;
+  status: "SENT" | "FAILED";
+  error: string | null;
+};
+
+function formatDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// The budget is left out unless opts.budget is "show", as in the RFP
+// document; so is the original request text, which often names it.
+export function renderRfpEmail(
+  rfp: Rfp,
+  vendor: Vendor,
+  opts: { budget?: BudgetVisibility } = {}
+): RenderedRfpEmail {
+  const spec = specForRfp(rfp);
+  const greeting = `Dear ${vendor.contactPerson || vendor.name},`;
+  const hideBudget = spec.budget != null && (opts.budget ?? "hide") === "hide";
+  const description = hideBudget ? null : rfp.naturalLanguageInput;
+
+  const requirements: string[] = [];
+  if (spec.budget != null && !hideBudget) {
+    requirements.push(`Budget: ${spec.budget} ${spec.currency ?? ""}`.trim());
+  }
+  if (rfp.deliveryDeadline) {
+    requirements.push(`Delivery deadline: ${formatDate(rfp.deliveryDeadline)}`);
+  } else if (spec.deliveryDeadlineDaysFromNow != null) {
+    requirements.push(
+      `Delivery deadline: within ${spec.deliveryDeadlineDaysFromNow} days`
+    );
+  }
+  if (spec.minimumWarrantyMonths != null) {
+    requirements.push(
+      `Minimum warranty: ${spec.minimumWarrantyMonths} months`
+    );
+  }
+  if (spec.paymentTerms) {
+    requirements.push(`Payment terms: ${spec.paymentTerms}`);
+  }
+
+  const itemLines = spec.items.map((item, i) => {
+    const specs = item.keySpecs.length
+      ? `\n${item.keySpecs.map(s => `     - ${s}`).join("\n")}`
+      : "";
+    return `  ${i + 1}. ${item.name} (qty ${item.quantity})${specs}`;
+  });
+
+  const text = [
+    greeting,
+    "",
+    `We invite you to submit a proposal for "${spec.title}".`,
+    "",
+    "Items:",
+    itemLines.length
+      ? itemLines.join("\n")
+      : description
+      ? "  (see description below)"
+      : "  - none specified",
+    "",
+    "Requirements:",
+    requirements.length
+      ? requirements.map(r => `  - ${r}`).join("\n")
+      : "  - none specified",
+    "",
+    ...(description ? ["Description:", description, ""] : []),
+    "Please reply to this email with your unit price per item, total price, " +
+      "currency, delivery time (in days), warranty (in months) and payment terms. Keep the subject " +
+      "line unchanged so your reply is matched to this RFP.",
+  ].join("\n");
+
+  const itemsHtml = spec.items.length
+    ? `<ol>${spec.items
+        .map(
+          item =>
+            `<li>${escapeHtml(item.name)} (qty ${item.quantity})` +
+            (item.keySpecs.length
+              ? `<ul>${item.keySpecs
+                  .map(s => `<li>${escapeHtml(s)}</li>`)
+                  .join("")}</ul>`
+              : "") +
+            "</li>"
+        )
+        .join("")}</ol>`
+    : description
+    ? "<p>(see description below)</p>"
+    : "<p>None specified</p>";
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>We invite you to submit a proposal for "<strong>${escapeHtml(
+      spec.title
+    )}</strong>".</p>`,
+    "<h3>Items</h3>",
+    itemsHtml,
+    "<h3>Requirements</h3>",
+    requirements.length
+      ? `<ul>${requirements.map(r => `<li>${escapeHtml(r)}</li>`).join("")}</ul>`
+      : "<p>None specified</p>",
+    ...(description
+      ? [
+          "<h3>Description</h3>",
+          `<p>${escapeHtml(description).replace(/\n/g, "<br>")}</p>`,
+        ]
+      : []),
+    "<p>Please reply to this email with your unit price per item, total price, " +
+      "currency, delivery time (in days), warranty (in months) and payment terms. Keep the subject " +
+      "line unchanged so your reply is matched to this RFP.</p>",
+  ].join("\n");
+
+  return { subject: buildRfpSubject(rfp), text, html };
+}
+
+// Plain paragraphs → text and html bodies
+function renderParagraphs(subject: string, paragraphs: string[]): RenderedRfpEmail {
+  return {
+    subject,
+    text: paragraphs.join("\n\n"),
+    html: paragraphs
+      .map(p => `<p>${escapeHtml(p).replace(/\n/g, "<br>")}</p>`)
+      .join("\n"),
+  };
+}
+
+export function renderDeadlineReminder(
+  rfp: Rfp,
+  vendor: Vendor,
+  deadline: Date
+): RenderedRfpEmail {
+  return renderParagraphs(`Reminder: ${buildRfpSubject(rfp)}`, [
+    `Dear ${vendor.contactPerson || vendor.name},`,
+    `This is a reminder that proposals for "${rfp.title}" are due by ` +
+      `${deadline.toISOString().replace("T", " ").slice(0, 16)} UTC.`,
+    "We have not received your proposal yet. Please reply to the original " +
+      "request, or to this email, keeping the subject line unchanged. If you " +
+      "do not intend to quote, a short reply saying so is appreciated.",
+  ]);
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  totalPrice: "total price",
+  currency: "currency",
+  deliveryDays: "delivery time (in days)",
+  warrantyMonths: "warranty (in months)",
+  terms: "payment terms",
+};
+
+export function renderClarificationRequest(
+  rfp: Rfp,
+  vendor: Vendor,
+  missingFields: string[]
+): RenderedRfpEmail {
+  return renderParagraphs(`Clarification needed: ${buildRfpSubject(rfp)}`, [
+    `Dear ${vendor.contactPerson || vendor.name},`,
+    `Thank you for your proposal for "${rfp.title}". We could not find the ` +
+      "following in it:",
+    missingFields.map(f => `  - ${FIELD_LABELS[f] ?? f}`).join("\n"),
+    "Please reply to this email with the missing details, keeping the " +
+      "subject line unchanged. Your reply will be recorded as a revision of " +
+      "your proposal.",
+  ]);
+}
+
+export type SentVendorEmail = {
+  emailId: string;
+  status: "SENT" | "FAILED";
+  error: string | null;
+};
+
+// Records the outbound email, then sends it. A failed send still leaves a
+// trace (status FAILED with the error). Replies are directed to the RFP's
+// organization's inbound address when it has one.
+export async function sendVendorEmail(
+  rfp: Rfp,
+  vendor: Vendor,
+  rendered: RenderedRfpEmail,
+  opts: { inReplyTo?: string | null } = {}
+): Promise<SentVendorEmail> {
+  const transport = getMailTransport();
+  const from = getMailFromAddress();
+  const messageId = generateMessageId();
+  const organization = await prisma.organization.findUniqueOrThrow({
+    where: { id: rfp.organizationId },
+  });
+
+  const email = await prisma.emailMessage.create({
+    data: {
+      organizationId: rfp.organizationId,
+      direction: "OUTBOUND",
+      from,
+      to: vendor.email,
+      subject: rendered.subject,
+      bodyText: rendered.text,
+      bodyHtml: rendered.html,
+      messageId,
+      inReplyTo: opts.inReplyTo ?? null,
+      references: opts.inReplyTo ? [opts.inReplyTo] : [],
+      status: "PENDING",
+      rfpId: rfp.id,
+      vendorId: vendor.id,
+    },
+  });
+
+  try {
+    const sent = await transport.send({
+      from,
+      to: vendor.email,
+      subject: rendered.subject,
+      text: rendered.text,
+      html: rendered.html,
+      messageId,
+      replyTo: organization.inboundEmail ?? undefined,
+      inReplyTo: opts.inReplyTo ?? undefined,
+    });
+
+    await prisma.emailMessage.update({
+      where: { id: email.id },
+      data: { status: "SENT", sentAt: getClock().now(), messageId: sent.messageId },
+    });
+
+    return { emailId: email.id, status: "SENT", error: null };
+  } catch (err: any) {
+    console.error(`Failed to send email for RFP ${rfp.id} to ${vendor.email}:`, err);
+
+    await prisma.emailMessage.update({
+      where: { id: email.id },
+      data: { status: "FAILED", error: String(err?.message ?? err) },
+    });
+
+    return { emailId: email.id, status: "FAILED", error: String(err?.message ?? err) };
+  }
+}
+
+export async function sendRfpToVendors(
+  rfp: Rfp,
+  vendors: Vendor[],
+  opts: { budget?: BudgetVisibility } = {}
+): Promise<RfpDispatchResult[]> {
+  const results: RfpDispatchResult[] = [];
+
+  for (const vendor of vendors) {
+    const sent = await sendVendorEmail(rfp, vendor, renderRfpEmail(rfp, vendor, opts));
+    results.push({ vendorId: vendor.id, vendorEmail: vendor.email, ...sent });
+  }
+
+  return results;
+}
@@ -0,0 +1,235 @@
+// src/rfpInvitations.ts
+import { InvitationStatus, Prisma, Rfp, RfpInvitation, Vendor } from ".prisma/client";
+import prisma from "./lib/prisma";
+import { getClock } from "./lib/clock";
+import { RfpDispatchResult, sendRfpToVendors } from "./rfpDispatch";
+import { AuditInTransaction } from "./audit";
+import { BudgetVisibility } from "./documentExports";
+
+// Still waiting on the vendor
+const OPEN_STATUSES: InvitationStatus[] = ["INVITED", "ACKNOWLEDGED"];
+
+// Answers a vendor can give from each status. A vendor who declined is
+// invited afresh rather than flipped back; RESPONDED is final, and so is
+// NO_RESPONSE unless the RFP is reopened (see reopenNonResponders).
+const RESPONSE_TRANSITIONS: Record<InvitationStatus, InvitationStatus[]> = {
+  INVITED: ["ACKNOWLEDGED", "DECLINED"],
+  ACKNOWLEDGED: ["DECLINED"],
+  DECLINED: [],
+  RESPONDED: [],
+  NO_RESPONSE: [],
+};
+
+export type NonResponder = {
+  vendorId: string;
+  vendorName: string;
+  vendorEmail: string;
+  status: InvitationStatus;
+  invitedAt: Date;
+};
+
+// INVITED / ACKNOWLEDGED count as NO_RESPONSE once submissions are over,
+// even before the RFP is formally closed
+export function effectiveInvitationStatus(
+  invitation: RfpInvitation,
+  rfp: Rfp,
+  now = getClock().now()
+): InvitationStatus {
+  if (!OPEN_STATUSES.includes(invitation.status)) return invitation.status;
+  const over =
+    (rfp.status !== "DRAFT" && rfp.status !== "PUBLISHED") ||
+    (!!rfp.submissionDeadline && now > rfp.submissionDeadline);
+  return over ? "NO_RESPONSE" : invitation.status;
+}
+
+// Whether the vendor can still answer the invitation with `to`; the
+// effective status counts, so nothing changes once submissions are over
+export function canRespondToInvitation(
+  invitation: RfpInvitation,
+  rfp: Rfp,
+  to: InvitationStatus
+): boolean {
+  return RESPONSE_TRANSITIONS[effectiveInvitationStatus(invitation, rfp)].includes(to);
+}
+
+// Creates (or renews) invitations. A vendor who declined or never
+// answered is invited afresh.
+export async function recordInvitations(
+  rfp: Rfp,
+  vendors: Vendor[],
+  client: Prisma.TransactionClient = prisma
+): Promise<RfpInvitation[]> {
+  const now = getClock().now();
+
+  for (const vendor of vendors) {
+    const existing = await client.rfpInvitation.findUnique({
+      where: { rfpId_vendorId: { rfpId: rfp.id, vendorId: vendor.id } },
+    });
+
+    if (!existing) {
+      await client.rfpInvitation.create({
+        data: { rfpId: rfp.id, vendorId: vendor.id, invitedAt: now },
+      });
+    } else if (existing.status === "DECLINED" || existing.status === "NO_RESPONSE") {
+      await client.rfpInvitation.update({
+        where: { id: existing.id },
+        data: {
+          status: "INVITED",
+          invitedAt: now,
+          declinedAt: null,
+          declineReason: null,
+        },
+      });
+    }
+  }
+
+  return client.rfpInvitation.findMany({
+    where: { rfpId: rfp.id, vendorId: { in: vendors.map(v => v.id) } },
+  });
+}
+
+// Emails the RFP to already invited vendors and links each sent email to
+// its invitation. Mail can't be rolled back, so this runs after the
+// invitations are committed; `audit` records the outcome with the links.
+export async function sendInvitations(
+  rfp: Rfp,
+  vendors: Vendor[],
+  opts: { budget?: BudgetVisibility } = {},
+  audit?: AuditInTransaction<RfpDispatchResult[]>
+): Promise<{ invitations: RfpInvitation[]; dispatch: RfpDispatchResult[] }> {
+  const dispatch = await sendRfpToVendors(rfp, vendors, opts);
+
+  const invitations = await prisma.$transaction(async tx => {
+    for (const result of dispatch.filter(r => r.status === "SENT")) {
+      await tx.rfpInvitation.update({
+        where: { rfpId_vendorId: { rfpId: rfp.id, vendorId: result.vendorId } },
+        data: { emailId: result.emailId },
+      });
+    }
+    await audit?.(tx, dispatch);
+
+    return tx.rfpInvitation.findMany({
+      where: { rfpId: rfp.id, vendorId: { in: vendors.map(v => v.id) } },
+    });
+  });
+
+  return { invitations, dispatch };
+}
+
+// A vendor quoting on an RFP they weren't invited to. RFPs without any
+// invitations (sent before tracking existed) flag nobody.
+export async function isUninvitedVendor(rfpId: string, vendorId: string): Promise<boolean> {
+  const invitations = await prisma.rfpInvitation.findMany({
+    where: { rfpId },
+    select: { vendorId: true },
+  });
+  return invitations.length > 0 && !invitations.some(i => i.vendorId === vendorId);
+}
+
+// Called when a proposal from the vendor is stored
+export async function recordInvitationResponse(
+  rfpId: string,
+  vendorId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  await client.rfpInvitation.updateMany({
+    where: { rfpId, vendorId, status: { not: "RESPONDED" } },
+    data: { status: "RESPONDED", respondedAt: getClock().now() },
+  });
+}
+
+// When an RFP closes, whoever is still open never responded
+export async function markNonResponders(
+  rfpId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  await client.rfpInvitation.updateMany({
+    where: { rfpId, status: { in: OPEN_STATUSES } },
+    data: { status: "NO_RESPONSE" },
+  });
+}
+
+// When a closed RFP is reopened, those marked as not responding can
+// answer again
+export async function reopenNonResponders(
+  rfpId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  await client.rfpInvitation.updateMany({
+    where: { rfpId, status: "NO_RESPONSE" },
+    data: { status: "INVITED" },
+  });
+}
+
+export async function listNonResponders(rfp: Rfp): Promise<NonResponder[]> {
+  const invitations = await prisma.rfpInvitation.findMany({
+    where: { rfpId: rfp.id, status: { in: [...OPEN_STATUSES, "NO_RESPONSE"] } },
+    include: { vendor: true },
+    orderBy: { invitedAt: "asc" },
+  });
+
+  return invitations.map(inv => ({
+    vendorId: inv.vendorId,
+    vendorName: inv.vendor.name,
+    vendorEmail: inv.vendor.email,
+    status: effectiveInvitationStatus(inv, rfp),
+    invitedAt: inv.invitedAt,
+  }));
+}
+
+// Vendor × status grid for an RFP, plus vendors who quoted uninvited
+export async function getInvitationGrid(rfp: Rfp) {
+  const [invitations, proposals] = await Promise.all([
+    prisma.rfpInvitation.findMany({
+      where: { rfpId: rfp.id },
+      include: { vendor: true },
+      orderBy: { invitedAt: "asc" },
+    }),
+    prisma.proposal.findMany({
+      where: { rfpId: rfp.id, isLatest: true },
+      include: { vendor: true },
+    }),
+  ]);
+
+  const invitedIds = new Set(invitations.map(i => i.vendorId));
+  const rows = invitations.map(inv => {
+    const proposal = proposals.find(p => p.vendorId === inv.vendorId) ?? null;
+    return {
+      vendorId: inv.vendorId,
+      vendorName: inv.vendor.name,
+      vendorEmail: inv.vendor.email,
+      status: effectiveInvitationStatus(inv, rfp),
+      invitedAt: inv.invitedAt,
+      acknowledgedAt: inv.acknowledgedAt,
+      declinedAt: inv.declinedAt,
+      declineReason: inv.declineReason,
+      respondedAt: inv.respondedAt,
+      proposalId: proposal?.id ?? null,
+      proposalRevision: proposal?.revision ?? null,
+    };
+  });
+
+  const summary: Record<InvitationStatus, number> = {
+    INVITED: 0,
+    ACKNOWLEDGED: 0,
+    DECLINED: 0,
+    RESPONDED: 0,
+    NO_RESPONSE: 0,
+  };
+  for (const row of rows) summary[row.status]++;
+
+  return {
+    rfpId: rfp.id,
+    rfpStatus: rfp.status,
+    submissionDeadline: rfp.submissionDeadline,
+    summary,
+    invitations: rows,
+    uninvitedResponders: proposals
+      .filter(p => !invitedIds.has(p.vendorId))
+      .map(p => ({
+        vendorId: p.vendorId,
+        vendorName: p.vendor.name,
+        proposalId: p.id,
+      })),
+  };
+}
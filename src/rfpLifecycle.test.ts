@@ -0,0 +1,109 @@
+// src/rfpLifecycle.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { Prisma, Rfp, RfpInvitation } from ".prisma/client";
+
+// rfpLifecycle.ts builds the Prisma client on import, which never connects
+// unless queried
+process.env.DATABASE_URL ??= "postgres://localhost/lifecycle-test";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+
+function rfp(overrides: Partial<Rfp> = {}): Rfp {
+  return {
+    id: "rfp-1",
+    status: "PUBLISHED",
+    createdAt: new Date("2026-03-01T09:00:00Z"),
+    publishedAt: new Date("2026-03-02T09:00:00Z"),
+    submissionDeadline: new Date("2026-03-09T17:00:00Z"),
+    latePolicy: "FLAG",
+    ...overrides,
+  } as unknown as Rfp;
+}
+
+test("a pasted email without a receive time counts as received now", async () => {
+  const { reportedReceivedAt } = await import("./rfpLifecycle");
+  assert.equal(reportedReceivedAt(rfp(), undefined, NOW), NOW);
+});
+
+test("reported receive times that are unparseable, in the future or before the RFP went out are refused", async () => {
+  const { reportedReceivedAt } = await import("./rfpLifecycle");
+
+  assert.deepEqual(reportedReceivedAt(rfp(), "last tuesday", NOW), {
+    error: "emailMeta.receivedAt must be a valid date",
+  });
+  assert.deepEqual(reportedReceivedAt(rfp(), 1741600000000, NOW), {
+    error: "emailMeta.receivedAt must be a valid date",
+  });
+  assert.deepEqual(reportedReceivedAt(rfp(), "2026-03-11T00:00:00Z", NOW), {
+    error: "emailMeta.receivedAt can't be in the future",
+  });
+  assert.deepEqual(reportedReceivedAt(rfp(), "2026-03-01T10:00:00Z", NOW), {
+    error: "emailMeta.receivedAt can't be before the RFP went out (2026-03-02T09:00:00.000Z)",
+  });
+});
+
+test("a valid reported receive time decides lateness", async () => {
+  const { checkProposalTiming, reportedReceivedAt } = await import("./rfpLifecycle");
+
+  const onTime = reportedReceivedAt(rfp(), "2026-03-09T16:00:00Z", NOW);
+  const late = reportedReceivedAt(rfp(), "2026-03-09T18:00:00Z", NOW);
+  assert.ok(onTime instanceof Date && late instanceof Date);
+  assert.equal(checkProposalTiming(rfp(), onTime), false);
+  assert.equal(checkProposalTiming(rfp(), late), true);
+});
+
+// Records the writes a transition makes instead of running them
+function recordingClient() {
+  const writes: { model: string; op: string; args: any }[] = [];
+  const record = (model: string, op: string) => async (args: any) => {
+    writes.push({ model, op, args });
+    return model === "rfp" ? { id: args.where.id, ...args.data } : { count: 1 };
+  };
+
+  const client = {
+    rfp: { update: record("rfp", "update") },
+    rfpInvitation: { updateMany: record("rfpInvitation", "updateMany") },
+  } as unknown as Prisma.TransactionClient;
+
+  return { client, writes };
+}
+
+test("reopening a closed RFP invites the vendors marked as not responding again", async () => {
+  const { transitionRfp } = await import("./rfpLifecycle");
+  const { client, writes } = recordingClient();
+
+  const reopened = await transitionRfp(
+    rfp({ status: "CLOSED" }),
+    "PUBLISHED",
+    { submissionDeadline: new Date("2026-03-20T17:00:00Z") },
+    client
+  );
+
+  assert.equal(reopened.status, "PUBLISHED");
+  assert.deepEqual(
+    writes.filter(w => w.model === "rfpInvitation").map(w => w.args),
+    [{ where: { rfpId: "rfp-1", status: "NO_RESPONSE" }, data: { status: "INVITED" } }]
+  );
+});
+
+test("publishing a draft leaves invitations alone", async () => {
+  const { transitionRfp } = await import("./rfpLifecycle");
+  const { client, writes } = recordingClient();
+
+  await transitionRfp(rfp({ status: "DRAFT" }), "PUBLISHED", {}, client);
+
+  assert.deepEqual(writes.map(w => w.model), ["rfp"]);
+});
+
+test("a reopened invitation can be answered until the new deadline", async () => {
+  const { canRespondToInvitation } = await import("./rfpInvitations");
+  const reopened = rfp({ submissionDeadline: new Date("2099-03-20T17:00:00Z") });
+  const invitation = { status: "INVITED" } as unknown as RfpInvitation;
+
+  assert.equal(canRespondToInvitation(invitation, reopened, "ACKNOWLEDGED"), true);
+  assert.equal(
+    canRespondToInvitation({ ...invitation, status: "NO_RESPONSE" }, reopened, "ACKNOWLEDGED"),
+    false
+  );
+});
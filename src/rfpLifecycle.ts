@@ -0,0 +1,177 @@
+// src/rfpLifecycle.ts
+import { Prisma, Rfp, RfpAward, RfpStatus } from ".prisma/client";
+import prisma from "./lib/prisma";
+import { runRfpComparison } from "./rfpComparison";
+import { markNonResponders, reopenNonResponders } from "./rfpInvitations";
+import { AuditInTransaction } from "./audit";
+import { getClock } from "./lib/clock";
+
+// Allowed moves. AWARDED is only reached through awardRfp; CLOSED →
+// PUBLISHED reopens submissions (e.g. with a later deadline) and invites
+// the vendors who didn't respond again.
+const TRANSITIONS: Record<RfpStatus, RfpStatus[]> = {
+  DRAFT: ["PUBLISHED", "CANCELLED"],
+  PUBLISHED: ["CLOSED", "CANCELLED"],
+  CLOSED: ["PUBLISHED", "AWARDED", "CANCELLED"],
+  AWARDED: [],
+  CANCELLED: [],
+};
+
+export const RFP_STATUSES = Object.keys(TRANSITIONS) as RfpStatus[];
+
+// Thrown when a proposal arrives for an RFP that no longer accepts them.
+// Not retryable: the email job fails straight away.
+export class LateProposalError extends Error {}
+
+// Thrown when the RFP left CLOSED (awarded, reopened, cancelled) between
+// being loaded and the award being written
+export class AwardConflictError extends Error {}
+
+export function allowedTransitions(status: RfpStatus): RfpStatus[] {
+  return TRANSITIONS[status];
+}
+
+export function canTransition(from: RfpStatus, to: RfpStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export async function transitionRfp(
+  rfp: Rfp,
+  to: RfpStatus,
+  opts: { reason?: string | null; submissionDeadline?: Date | null } = {},
+  client: Prisma.TransactionClient = prisma
+): Promise<Rfp> {
+  const now = new Date();
+
+  if (to === "CLOSED") {
+    await markNonResponders(rfp.id, client);
+  }
+  if (to === "PUBLISHED" && rfp.status === "CLOSED") {
+    await reopenNonResponders(rfp.id, client);
+  }
+
+  return client.rfp.update({
+    where: { id: rfp.id },
+    data: {
+      status: to,
+      ...(opts.submissionDeadline !== undefined
+        ? { submissionDeadline: opts.submissionDeadline }
+        : {}),
+      ...(to === "PUBLISHED" ? { publishedAt: rfp.publishedAt ?? now, closedAt: null } : {}),
+      ...(to === "CLOSED" ? { closedAt: now } : {}),
+      ...(to === "CANCELLED" ? { cancelledAt: now, cancelReason: opts.reason ?? null } : {}),
+    },
+  });
+}
+
+/* ---------------------------------------------------
+ * Submission deadline
+ * --------------------------------------------------*/
+
+// Whether a proposal received at `receivedAt` is late, and why
+export function submissionTiming(
+  rfp: Rfp,
+  receivedAt: Date
+): { late: boolean; reason: string | null } {
+  if (rfp.status === "CLOSED" || rfp.status === "AWARDED" || rfp.status === "CANCELLED") {
+    return { late: true, reason: `RFP is ${rfp.status}` };
+  }
+  if (rfp.submissionDeadline && receivedAt > rfp.submissionDeadline) {
+    return {
+      late: true,
+      reason: `Received after the submission deadline (${rfp.submissionDeadline.toISOString()})`,
+    };
+  }
+  return { late: false, reason: null };
+}
+
+// Receive time of a pasted email as reported by the client, or now when
+// it isn't given. It decides lateness, so it can't lie in the future or
+// before the RFP went out.
+export function reportedReceivedAt(
+  rfp: Rfp,
+  raw: unknown,
+  now: Date = getClock().now()
+): Date | { error: string } {
+  if (raw === undefined || raw === null || raw === "") return now;
+
+  const receivedAt = new Date(raw as string);
+  if (typeof raw !== "string" || Number.isNaN(receivedAt.getTime())) {
+    return { error: "emailMeta.receivedAt must be a valid date" };
+  }
+  if (receivedAt > now) {
+    return { error: "emailMeta.receivedAt can't be in the future" };
+  }
+  const sentAt = rfp.publishedAt ?? rfp.createdAt;
+  if (receivedAt < sentAt) {
+    return {
+      error: `emailMeta.receivedAt can't be before the RFP went out (${sentAt.toISOString()})`,
+    };
+  }
+  return receivedAt;
+}
+
+// Returns whether the proposal is late (to be flagged). Throws when the
+// RFP rejects late proposals, or is already decided.
+export function checkProposalTiming(rfp: Rfp, receivedAt: Date): boolean {
+  const { late, reason } = submissionTiming(rfp, receivedAt);
+  if (!late) return false;
+
+  if (
+    rfp.latePolicy === "REJECT" ||
+    rfp.status === "AWARDED" ||
+    rfp.status === "CANCELLED"
+  ) {
+    throw new LateProposalError(`Proposal not accepted: ${reason}`);
+  }
+  return true;
+}
+
+/* ---------------------------------------------------
+ * Award
+ * --------------------------------------------------*/
+
+// Records the decision together with the current comparison as evidence
+// and moves the RFP to AWARDED. The RFP must be CLOSED.
+export async function awardRfp(
+  rfp: Rfp,
+  award: { proposalId: string; vendorId: string; justification: string; awardedBy: string },
+  audit?: AuditInTransaction<{ award: RfpAward; rank: number | null }>
+) {
+  const comparison = await runRfpComparison(rfp);
+  const index = comparison.proposals.findIndex(p => p.id === award.proposalId);
+  // 1-based position of the chosen proposal, null if it wasn't ranked
+  // (e.g. excluded by compliance)
+  const rank = index === -1 ? null : index + 1;
+
+  // the comparison is stored as plain JSON (dates as ISO strings)
+  const evidence: Prisma.InputJsonValue = JSON.parse(JSON.stringify(comparison));
+
+  const created = await prisma.$transaction(async tx => {
+    const moved = await tx.rfp.updateMany({
+      where: { id: rfp.id, status: "CLOSED" },
+      data: { status: "AWARDED" },
+    });
+    if (moved.count === 0) {
+      throw new AwardConflictError("RFP is no longer CLOSED; it may already be awarded");
+    }
+
+    const created = await tx.rfpAward.create({
+      data: {
+        rfpId: rfp.id,
+        proposalId: award.proposalId,
+        vendorId: award.vendorId,
+        justification: award.justification,
+        awardedBy: award.awardedBy,
+        evidence,
+        overridesRanking:
+          comparison.bestProposalId !== null &&
+          comparison.bestProposalId !== award.proposalId,
+      },
+    });
+    await audit?.(tx, { award: created, rank });
+    return created;
+  });
+
+  return { award: created, rank, comparison };
+}
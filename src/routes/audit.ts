@@ -0,0 +1,60 @@
+import { Router } from "express";
+import { AuditEntityType } from ".prisma/client";
+import { EDITOR_ROLES, orgOf, requireRole } from "../auth";
+import { AUDIT_ENTITY_TYPES, listAuditEvents } from "../audit";
+
+const router = Router();
+
+// Snapshots include user records, so viewers and evaluators don't get it
+router.use("/audit", requireRole(...EDITOR_ROLES));
+
+// "2026-01-31" / ISO timestamp → Date; undefined passes through
+function parseQueryDate(raw: unknown): Date | undefined | "invalid" {
+  if (raw === undefined) return undefined;
+  const d = new Date(String(raw));
+  return Number.isNaN(d.getTime()) ? "invalid" : d;
+}
+
+// Filters: ?entityType=RFP&entityId=... ?action=rfp.award ?actorId=<userId>
+// ?since= ?until= ; paging: ?limit= (max 500) and ?cursor=<nextCursor>
+router.get("/audit", async (req, res) => {
+  try {
+    const entityType = req.query.entityType as AuditEntityType | undefined;
+    if (entityType !== undefined && !AUDIT_ENTITY_TYPES.includes(entityType)) {
+      return res.status(400).json({
+        error: `entityType must be one of ${AUDIT_ENTITY_TYPES.join(", ")}`,
+      });
+    }
+
+    const since = parseQueryDate(req.query.since);
+    const until = parseQueryDate(req.query.until);
+    if (since === "invalid" || until === "invalid") {
+      return res.status(400).json({ error: "since and until must be valid dates" });
+    }
+
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return res.status(400).json({ error: "limit must be a positive integer" });
+    }
+
+    const str = (v: unknown) => (typeof v === "string" && v ? v : undefined);
+
+    const page = await listAuditEvents(orgOf(req), {
+      entityType,
+      entityId: str(req.query.entityId),
+      action: str(req.query.action),
+      actorId: str(req.query.actorId),
+      since,
+      until,
+      limit,
+      cursor: str(req.query.cursor),
+    });
+
+    res.json(page);
+  } catch (err) {
+    console.error("Error fetching audit events:", err);
+    res.status(500).json({ error: "Failed to fetch audit events" });
+  }
+});
+
+export default router;
@@ -0,0 +1,187 @@
+import { Router } from "express";
+import crypto from "crypto";
+import prisma from "../lib/prisma";
+import {
+  hashPassword,
+  issueToken,
+  requireAuth,
+  revokeToken,
+  verifyPassword,
+} from "../auth";
+import { extractEmailAddress } from "../utils/email";
+import { recordAudit } from "../audit";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const router = Router();
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Whether the body's bootstrapToken equals AUTH_BOOTSTRAP_TOKEN (unset:
+// never)
+function isBootstrapRequest(raw: unknown): boolean {
+  const expected = process.env.AUTH_BOOTSTRAP_TOKEN;
+  if (!expected || typeof raw !== "string") return false;
+  const a = crypto.createHash("sha256").update(raw).digest();
+  const b = crypto.createHash("sha256").update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+// Thrown inside the signup transaction; answered with 409
+class SignupConflictError extends Error {}
+
+// New organization with its first admin. Body: { organizationName,
+// organizationSlug?, email, password, name? }. Off unless
+// AUTH_ALLOW_SIGNUP=true, and it never joins an existing organization.
+// The one exception is claiming a user-less organization (e.g. the
+// "default" one holding data from before accounts existed) with
+// bootstrapToken = AUTH_BOOTSTRAP_TOKEN, which works even with signup off.
+router.post("/auth/signup", async (req, res) => {
+  try {
+    const bootstrap = isBootstrapRequest(req.body.bootstrapToken);
+    if (process.env.AUTH_ALLOW_SIGNUP !== "true" && !bootstrap) {
+      return res.status(403).json({ error: "Signup is disabled" });
+    }
+
+    const { organizationName, organizationSlug, password, name } = req.body;
+    const email = extractEmailAddress(req.body.email);
+
+    if (!email || typeof password !== "string") {
+      return res.status(400).json({ error: "email and password are required" });
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        error: `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      });
+    }
+
+    const slug = slugify(String(organizationSlug || organizationName || ""));
+    if (!slug) {
+      return res.status(400).json({ error: "organizationName is required" });
+    }
+
+    const passwordHash = await hashPassword(password);
+    // Serializable: two claims of the same organization can't both see it
+    // without users
+    const { user, claimed } = await prisma.$transaction(
+      async tx => {
+        const existing = await tx.organization.findUnique({
+          where: { slug },
+          include: { _count: { select: { users: true } } },
+        });
+        if (existing && (!bootstrap || existing._count.users > 0)) {
+          throw new SignupConflictError("Organization already exists");
+        }
+
+        // the slug's unique constraint stops a concurrent create
+        const organization =
+          existing ??
+          (await tx.organization.create({
+            data: { name: organizationName || slug, slug },
+          }));
+        const user = await tx.user.create({
+          data: {
+            organizationId: organization.id,
+            email,
+            name: name ?? null,
+            passwordHash,
+            role: "ADMIN",
+          },
+          include: { organization: true },
+          omit: { passwordHash: true },
+        });
+
+        await recordAudit(
+          {
+            organizationId: user.organizationId,
+            actor: { type: "USER", id: user.id, label: user.email },
+            action: existing ? "organization.claim" : "organization.create",
+            entityType: "ORGANIZATION",
+            entityId: user.organizationId,
+            after: user,
+          },
+          tx
+        );
+
+        return { user, claimed: !!existing };
+      },
+      { isolationLevel: "Serializable" }
+    );
+
+    const { token, expiresAt } = await issueToken(user.id, claimed ? "bootstrap" : "signup");
+
+    res.status(201).json({ token, expiresAt, user });
+  } catch (err: any) {
+    if (err instanceof SignupConflictError) {
+      return res.status(409).json({ error: err.message });
+    }
+    // P2002: the email or slug was taken meanwhile; P2034: a concurrent
+    // claim of the same organization
+    if (err.code === "P2002" || err.code === "P2034") {
+      return res.status(409).json({
+        error: "A user with this email or an organization with this slug already exists",
+      });
+    }
+
+    console.error("Error signing up:", err);
+    res.status(500).json({ error: "Failed to sign up" });
+  }
+});
+
+// Body: { email, password, tokenName? } → { token, expiresAt, user }
+router.post("/auth/login", async (req, res) => {
+  try {
+    const email = extractEmailAddress(req.body.email);
+    const { password, tokenName } = req.body;
+    if (!email || typeof password !== "string") {
+      return res.status(400).json({ error: "email and password are required" });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      include: { organization: true },
+    });
+    if (!user || user.disabledAt || !(await verifyPassword(password, user.passwordHash))) {
+      return res.status(401).json({ error: "Invalid email or password" });
+    }
+
+    const { token, expiresAt } = await issueToken(user.id, tokenName);
+    const { passwordHash: _, ...safeUser } = user;
+
+    res.json({ token, expiresAt, user: safeUser });
+  } catch (err) {
+    console.error("Error logging in:", err);
+    res.status(500).json({ error: "Failed to log in" });
+  }
+});
+
+router.post("/auth/logout", requireAuth, async (req, res) => {
+  try {
+    await revokeToken(req.auth!.tokenId);
+    res.status(204).send();
+  } catch (err) {
+    console.error("Error logging out:", err);
+    res.status(500).json({ error: "Failed to log out" });
+  }
+});
+
+router.get("/auth/me", requireAuth, async (req, res) => {
+  try {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: req.auth!.userId },
+      include: { organization: true },
+      omit: { passwordHash: true },
+    });
+    res.json(user);
+  } catch (err) {
+    console.error("Error fetching current user:", err);
+    res.status(500).json({ error: "Failed to fetch current user" });
+  }
+});
+
+export default router;
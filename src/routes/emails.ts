@@ -1,11 +1,27 @@
 import { Router } from "express";
+import { EmailStatus } from ".prisma/client";
 import prisma from "../lib/prisma";
+import { orgOf } from "../auth";
+import { auditRequest } from "../audit";
+import { enqueueEmailParse } from "../emailIngestion";
+import { refreshTriageSuggestions } from "../emailTriage";
+
+const EMAIL_STATUSES: EmailStatus[] = ["PENDING", "PARSED", "FAILED", "SENT", "UNMATCHED"];
 
 const router = Router();
 
+// Optional ?status=UNMATCHED (etc.) — the triage inbox
 router.get("/emails", async (req, res) => {
   try {
+    const status = req.query.status as EmailStatus | undefined;
+    if (status !== undefined && !EMAIL_STATUSES.includes(status)) {
+      return res.status(400).json({
+        error: `status must be one of ${EMAIL_STATUSES.join(", ")}`,
+      });
+    }
+
     const emails = await prisma.emailMessage.findMany({
+      where: { organizationId: orgOf(req), ...(status ? { status } : {}) },
       orderBy: { createdAt: "desc" },
     });
     res.json(emails);
@@ -15,4 +31,248 @@ router.get("/emails", async (req, res) => {
   }
 });
 
+router.get("/emails/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const email = await prisma.emailMessage.findFirst({
+      where: { id, organizationId: orgOf(req) },
+      include: {
+        proposal: true,
+        jobs: { orderBy: { createdAt: "desc" } },
+        // file bytes are served by /emails/:id/attachments/:attachmentId
+        attachments: { omit: { content: true } },
+      },
+    });
+
+    if (!email) {
+      return res.status(404).json({ error: "Email not found" });
+    }
+
+    res.json(email);
+  } catch (err) {
+    console.error("Error fetching email:", err);
+    res.status(500).json({ error: "Failed to fetch email" });
+  }
+});
+
+router.get("/emails/:id/attachments/:attachmentId", async (req, res) => {
+  try {
+    const { id, attachmentId } = req.params;
+
+    const attachment = await prisma.emailAttachment.findFirst({
+      where: { id: attachmentId, emailId: id, email: { organizationId: orgOf(req) } },
+    });
+
+    if (!attachment) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
+    // only stored bytes are served: a provider URL comes from the webhook
+    // payload and isn't ours to send people to
+    if (!attachment.content) {
+      return res.status(404).json({ error: "Attachment content not stored" });
+    }
+
+    res.setHeader("Content-Type", attachment.contentType || "application/octet-stream");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${attachment.filename.replace(/"/g, "")}"`
+    );
+    res.send(Buffer.from(attachment.content));
+  } catch (err) {
+    console.error("Error fetching attachment:", err);
+    res.status(500).json({ error: "Failed to fetch attachment" });
+  }
+});
+
+router.post("/emails/:id/reparse", async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const email = await prisma.emailMessage.findFirst({
+      where: { id, organizationId: orgOf(req) },
+    });
+    if (!email) {
+      return res.status(404).json({ error: "Email not found" });
+    }
+    if (email.direction !== "INBOUND") {
+      return res.status(400).json({ error: "Only inbound emails can be parsed" });
+    }
+    if (!email.rfpId || !email.vendorId) {
+      return res
+        .status(400)
+        .json({ error: "Email is not linked to an RFP and vendor" });
+    }
+
+    const activeJob = await prisma.emailJob.findFirst({
+      where: { emailId: id, status: { in: ["QUEUED", "RUNNING"] } },
+    });
+    if (activeJob) {
+      return res.status(409).json({
+        error: "Email is already queued for parsing",
+        jobId: activeJob.id,
+      });
+    }
+
+    const job = await prisma.$transaction(async tx => {
+      // give attachments that failed to extract another try
+      await tx.emailAttachment.updateMany({
+        where: { emailId: id, extractionError: { not: null } },
+        data: { extractedAt: null, extractionError: null },
+      });
+
+      const job = await enqueueEmailParse(email.id, undefined, tx);
+      await auditRequest(
+        req,
+        {
+          action: "email.reparse",
+          entityType: "EMAIL",
+          entityId: email.id,
+          before: { status: email.status, error: email.error },
+          after: { status: "PENDING" },
+          metadata: { jobId: job.id },
+        },
+        tx
+      );
+      return job;
+    });
+
+    res.status(202).json({
+      message: "Email queued for parsing",
+      emailId: email.id,
+      jobId: job.id,
+    });
+  } catch (err) {
+    console.error("Error re-parsing email:", err);
+    res.status(500).json({ error: "Failed to queue email for parsing" });
+  }
+});
+
+// Recomputes vendor/RFP suggestions (e.g. after adding the vendor)
+router.post("/emails/:id/suggestions", async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const email = await prisma.emailMessage.findFirst({
+      where: { id, organizationId: orgOf(req) },
+    });
+    if (!email) {
+      return res.status(404).json({ error: "Email not found" });
+    }
+
+    const suggestions = await prisma.$transaction(async tx => {
+      const suggestions = await refreshTriageSuggestions(id, tx);
+      await auditRequest(
+        req,
+        {
+          action: "email.suggest",
+          entityType: "EMAIL",
+          entityId: id,
+          before: { suggestions: email.suggestions },
+          after: { suggestions },
+        },
+        tx
+      );
+      return suggestions;
+    });
+
+    res.json({ emailId: id, suggestions });
+  } catch (err) {
+    console.error("Error suggesting email matches:", err);
+    res.status(500).json({ error: "Failed to suggest matches for email" });
+  }
+});
+
+// Emails triage can (re)assign: never linked, or whose parse failed.
+// Parsed ones already produced a proposal for their RFP.
+const ASSIGNABLE_STATUSES: EmailStatus[] = ["UNMATCHED", "FAILED"];
+
+// Triage: links an email to a vendor and RFP and queues it for parsing.
+// Body: { vendorId?, rfpId? } — either may be omitted if already linked.
+router.post("/emails/:id/assign", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { vendorId, rfpId } = req.body;
+
+    const email = await prisma.emailMessage.findFirst({
+      where: { id, organizationId: orgOf(req) },
+      include: { proposal: { select: { id: true } }, _count: { select: { attachments: true } } },
+    });
+    if (!email) {
+      return res.status(404).json({ error: "Email not found" });
+    }
+    if (email.direction !== "INBOUND") {
+      return res.status(400).json({ error: "Only inbound emails can be assigned" });
+    }
+    if (!ASSIGNABLE_STATUSES.includes(email.status) || email.proposal) {
+      return res.status(409).json({
+        error: `Only ${ASSIGNABLE_STATUSES.join(" or ")} emails without a proposal can be assigned (email is ${email.status})`,
+      });
+    }
+
+    const nextVendorId = vendorId ?? email.vendorId;
+    const nextRfpId = rfpId ?? email.rfpId;
+    if (!nextVendorId || !nextRfpId) {
+      return res.status(400).json({ error: "vendorId and rfpId are required" });
+    }
+
+    const [vendor, rfp] = await Promise.all([
+      prisma.vendor.findFirst({ where: { id: nextVendorId, organizationId: orgOf(req) } }),
+      prisma.rfp.findFirst({ where: { id: nextRfpId, organizationId: orgOf(req) } }),
+    ]);
+    if (!vendor) {
+      return res.status(404).json({ error: "Vendor not found" });
+    }
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    // Quotes often arrive as an attachment with an empty body
+    const hasContent = !!email.bodyText || email._count.attachments > 0;
+
+    const { job, updated } = await prisma.$transaction(async tx => {
+      await tx.emailMessage.update({
+        where: { id },
+        data: {
+          vendorId: vendor.id,
+          rfpId: rfp.id,
+          unmatchedReason: null,
+          ...(hasContent
+            ? {}
+            : { status: "FAILED", error: "Email has no text body or attachments" }),
+        },
+      });
+
+      const job = hasContent ? await enqueueEmailParse(id, undefined, tx) : null;
+
+      const updated = await tx.emailMessage.findUniqueOrThrow({ where: { id } });
+      await auditRequest(
+        req,
+        {
+          action: "email.assign",
+          entityType: "EMAIL",
+          entityId: id,
+          before: { status: email.status, vendorId: email.vendorId, rfpId: email.rfpId },
+          after: { status: updated.status, vendorId: vendor.id, rfpId: rfp.id },
+          metadata: { jobId: job?.id ?? null },
+        },
+        tx
+      );
+      return { job, updated };
+    });
+
+    res.status(job ? 202 : 200).json({
+      message: job
+        ? "Email assigned and queued for parsing"
+        : "Email assigned; it has nothing to parse",
+      emailId: id,
+      jobId: job?.id ?? null,
+      email: updated,
+    });
+  } catch (err) {
+    console.error("Error assigning email:", err);
+    res.status(500).json({ error: "Failed to assign email" });
+  }
+});
+
 export default router;
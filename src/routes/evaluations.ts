@@ -0,0 +1,300 @@
+import { Request, Router } from "express";
+import prisma from "../lib/prisma";
+import { EDITOR_ROLES, SCORER_ROLES, orgOf, requireRole } from "../auth";
+import { auditRequest } from "../audit";
+import {
+  ScoreEntry,
+  evaluationCriteria,
+  isBlinded,
+  missingScores,
+  proposalsToEvaluate,
+  reopenEvaluation,
+  saveScores,
+  staleScores,
+  submitEvaluation,
+  summarizeEvaluations,
+  validateScoreEntries,
+} from "../evaluations";
+
+// Mounted before the editors-only write guard: evaluators score here
+// without being able to change anything else
+const router = Router();
+
+const CLOSED_FOR_SCORING = ["AWARDED", "CANCELLED"];
+
+function findRfp(req: Request) {
+  return prisma.rfp.findFirst({
+    where: { id: req.params.rfpId, organizationId: orgOf(req) },
+  });
+}
+
+// Every evaluator's progress; their scores and the consensus only for
+// callers not blinded (blind mode hides them until you've submitted).
+// Scores carried over from a revised proposal are flagged stale.
+router.get("/rfps/:rfpId/evaluations", async (req, res) => {
+  try {
+    const rfp = await findRfp(req);
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    const blinded = await isBlinded(rfp, req.auth!);
+    const evaluations = await prisma.evaluation.findMany({
+      where: { rfpId: rfp.id },
+      include: {
+        evaluator: { select: { id: true, email: true, name: true } },
+        scores: { orderBy: { createdAt: "asc" } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    res.json({
+      rfpId: rfp.id,
+      blindEvaluation: rfp.blindEvaluation,
+      blinded,
+      criteria: evaluationCriteria(rfp),
+      evaluations: evaluations.map(e => ({
+        ...e,
+        needsRescoring: !e.submittedAt && !!e.rescoreRequestedAt,
+        scores:
+          !blinded || e.evaluatorId === req.auth!.userId
+            ? e.scores.map(s => ({ ...s, stale: s.carriedFromProposalId !== null }))
+            : null,
+      })),
+      summary: blinded ? null : (await summarizeEvaluations(rfp)).summary,
+    });
+  } catch (err) {
+    console.error("Error fetching evaluations:", err);
+    res.status(500).json({ error: "Failed to fetch evaluations" });
+  }
+});
+
+// The caller's own scorecard: criteria, proposals to score, scores so far
+// and which of them to rescore
+router.get("/rfps/:rfpId/evaluations/me", async (req, res) => {
+  try {
+    const rfp = await findRfp(req);
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    const [evaluation, proposals] = await Promise.all([
+      prisma.evaluation.findUnique({
+        where: { rfpId_evaluatorId: { rfpId: rfp.id, evaluatorId: req.auth!.userId } },
+        include: { scores: { orderBy: { createdAt: "asc" } } },
+      }),
+      proposalsToEvaluate(rfp.id),
+    ]);
+
+    res.json({
+      rfpId: rfp.id,
+      criteria: evaluationCriteria(rfp),
+      proposals,
+      evaluation,
+      missing: await missingScores(rfp, evaluation?.id ?? null),
+      stale: evaluation ? await staleScores(evaluation.id) : [],
+    });
+  } catch (err) {
+    console.error("Error fetching evaluation:", err);
+    res.status(500).json({ error: "Failed to fetch evaluation" });
+  }
+});
+
+// Body: { scores: [{ proposalId, criterionKey, score, comment? }] } —
+// adds or overwrites the caller's scores until they submit
+router.put("/rfps/:rfpId/evaluations/me", requireRole(...SCORER_ROLES), async (req, res) => {
+  try {
+    const rfp = await findRfp(req);
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+    if (CLOSED_FOR_SCORING.includes(rfp.status)) {
+      return res.status(409).json({ error: `Cannot score an RFP that is ${rfp.status}` });
+    }
+    if (evaluationCriteria(rfp).length === 0) {
+      return res.status(409).json({ error: "RFP has no evaluation criteria" });
+    }
+
+    const errors = await validateScoreEntries(rfp, req.body.scores);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: "Invalid scores", details: errors });
+    }
+
+    const existing = await prisma.evaluation.findUnique({
+      where: { rfpId_evaluatorId: { rfpId: rfp.id, evaluatorId: req.auth!.userId } },
+    });
+    if (existing?.submittedAt) {
+      return res.status(409).json({ error: "Evaluation was already submitted" });
+    }
+
+    const entries: ScoreEntry[] = req.body.scores;
+    const evaluation = await saveScores(rfp.id, req.auth!.userId, entries, (tx, saved) =>
+      auditRequest(
+        req,
+        {
+          action: "evaluation.score",
+          entityType: "EVALUATION",
+          entityId: saved.id,
+          after: { rfpId: rfp.id, scores: entries },
+        },
+        tx
+      )
+    );
+
+    res.json(evaluation);
+  } catch (err) {
+    console.error("Error saving evaluation scores:", err);
+    res.status(500).json({ error: "Failed to save evaluation scores" });
+  }
+});
+
+// Locks the caller's scores in; every proposal needs a score on every
+// evaluation criterion first, and carried-over scores a fresh look
+router.post(
+  "/rfps/:rfpId/evaluations/me/submit",
+  requireRole(...SCORER_ROLES),
+  async (req, res) => {
+    try {
+      const rfp = await findRfp(req);
+      if (!rfp) {
+        return res.status(404).json({ error: "RFP not found" });
+      }
+
+      const evaluation = await prisma.evaluation.findUnique({
+        where: { rfpId_evaluatorId: { rfpId: rfp.id, evaluatorId: req.auth!.userId } },
+      });
+      if (!evaluation) {
+        return res.status(404).json({ error: "No scores to submit" });
+      }
+      if (evaluation.submittedAt) {
+        return res.status(409).json({ error: "Evaluation was already submitted" });
+      }
+
+      const missing = await missingScores(rfp, evaluation.id);
+      if (missing.length > 0) {
+        return res.status(400).json({ error: "Some proposals are not scored yet", missing });
+      }
+      const stale = await staleScores(evaluation.id);
+      if (stale.length > 0) {
+        return res.status(400).json({
+          error: "Some scores were carried over from an earlier revision; confirm or change them",
+          stale,
+        });
+      }
+
+      const submitted = await submitEvaluation(evaluation, (tx, submitted) =>
+        auditRequest(
+          req,
+          {
+            action: "evaluation.submit",
+            entityType: "EVALUATION",
+            entityId: evaluation.id,
+            before: { submittedAt: null },
+            after: { submittedAt: submitted.submittedAt },
+          },
+          tx
+        )
+      );
+
+      res.json(submitted);
+    } catch (err) {
+      console.error("Error submitting evaluation:", err);
+      res.status(500).json({ error: "Failed to submit evaluation" });
+    }
+  }
+);
+
+// Sends a submitted evaluation back to its evaluator for changes, while
+// the RFP can still be scored. Its submitted scores keep counting until it
+// is submitted again.
+router.post(
+  "/rfps/:rfpId/evaluations/:evaluationId/reopen",
+  requireRole(...EDITOR_ROLES),
+  async (req, res) => {
+    try {
+      const rfp = await findRfp(req);
+      if (!rfp) {
+        return res.status(404).json({ error: "RFP not found" });
+      }
+      if (CLOSED_FOR_SCORING.includes(rfp.status)) {
+        return res
+          .status(409)
+          .json({ error: `Cannot reopen evaluations of an RFP that is ${rfp.status}` });
+      }
+
+      const evaluation = await prisma.evaluation.findFirst({
+        where: { id: req.params.evaluationId, rfpId: rfp.id },
+      });
+      if (!evaluation) {
+        return res.status(404).json({ error: "Evaluation not found" });
+      }
+      if (!evaluation.submittedAt) {
+        return res.status(409).json({ error: "Evaluation has not been submitted" });
+      }
+
+      const reopened = await reopenEvaluation(evaluation, (tx, reopened) =>
+        auditRequest(
+          req,
+          {
+            action: "evaluation.reopen",
+            entityType: "EVALUATION",
+            entityId: evaluation.id,
+            before: { submittedAt: evaluation.submittedAt },
+            after: { submittedAt: null, rescoreRequestedAt: reopened.rescoreRequestedAt },
+          },
+          tx
+        )
+      );
+
+      res.json(reopened);
+    } catch (err) {
+      console.error("Error reopening evaluation:", err);
+      res.status(500).json({ error: "Failed to reopen evaluation" });
+    }
+  }
+);
+
+// Body: { blindEvaluation: boolean }
+router.put(
+  "/rfps/:rfpId/evaluation-settings",
+  requireRole(...EDITOR_ROLES),
+  async (req, res) => {
+    try {
+      const { blindEvaluation } = req.body;
+      if (typeof blindEvaluation !== "boolean") {
+        return res.status(400).json({ error: "blindEvaluation must be a boolean" });
+      }
+
+      const rfp = await findRfp(req);
+      if (!rfp) {
+        return res.status(404).json({ error: "RFP not found" });
+      }
+
+      const updated = await prisma.$transaction(async tx => {
+        const updated = await tx.rfp.update({
+          where: { id: rfp.id },
+          data: { blindEvaluation },
+        });
+        await auditRequest(
+          req,
+          {
+            action: "rfp.update_evaluation_settings",
+            entityType: "RFP",
+            entityId: rfp.id,
+            before: { blindEvaluation: rfp.blindEvaluation },
+            after: { blindEvaluation },
+          },
+          tx
+        );
+        return updated;
+      });
+
+      res.json({ rfpId: rfp.id, blindEvaluation: updated.blindEvaluation });
+    } catch (err) {
+      console.error("Error updating evaluation settings:", err);
+      res.status(500).json({ error: "Failed to update evaluation settings" });
+    }
+  }
+);
+
+export default router;
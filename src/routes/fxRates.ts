@@ -0,0 +1,250 @@
+import { Router } from "express";
+import prisma from "../lib/prisma";
+import { orgOf } from "../auth";
+import { auditRequest } from "../audit";
+import { normalizeCurrency } from "../fx";
+
+const router = Router();
+
+type FxRateInput = {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  asOf: Date;
+  source: string | null;
+};
+
+function parseFxRateInput(
+  body: any
+): { value?: FxRateInput; error?: string } {
+  const baseCurrency = normalizeCurrency(body?.baseCurrency);
+  const quoteCurrency = normalizeCurrency(body?.quoteCurrency);
+  const rate = Number(body?.rate);
+  const asOf = body?.asOf ? new Date(body.asOf) : null;
+
+  if (!baseCurrency || !quoteCurrency) {
+    return { error: "baseCurrency and quoteCurrency are required" };
+  }
+  if (baseCurrency === quoteCurrency) {
+    return { error: "baseCurrency and quoteCurrency must differ" };
+  }
+  if (!Number.isFinite(rate) || rate <= 0) {
+    return { error: "rate must be a positive number" };
+  }
+  if (!asOf || Number.isNaN(asOf.getTime())) {
+    return { error: "asOf must be a valid date" };
+  }
+
+  return {
+    value: {
+      baseCurrency,
+      quoteCurrency,
+      rate,
+      asOf,
+      source: typeof body.source === "string" ? body.source : null,
+    },
+  };
+}
+
+router.get("/fx-rates", async (req, res) => {
+  try {
+    const base = normalizeCurrency(req.query.base as string | undefined);
+    const quote = normalizeCurrency(req.query.quote as string | undefined);
+
+    const rates = await prisma.fxRate.findMany({
+      where: {
+        organizationId: orgOf(req),
+        ...(base ? { baseCurrency: base } : {}),
+        ...(quote ? { quoteCurrency: quote } : {}),
+      },
+      orderBy: [{ baseCurrency: "asc" }, { quoteCurrency: "asc" }, { asOf: "desc" }],
+    });
+
+    res.json(rates);
+  } catch (err) {
+    console.error("Error fetching FX rates:", err);
+    res.status(500).json({ error: "Failed to fetch FX rates" });
+  }
+});
+
+router.post("/fx-rates", async (req, res) => {
+  try {
+    const { value, error } = parseFxRateInput(req.body);
+    if (!value) {
+      return res.status(400).json({ error });
+    }
+
+    const rate = await prisma.$transaction(async tx => {
+      const rate = await tx.fxRate.create({
+        data: { ...value, organizationId: orgOf(req) },
+      });
+      await auditRequest(
+        req,
+        {
+          action: "fx_rate.create",
+          entityType: "FX_RATE",
+          entityId: rate.id,
+          after: rate,
+        },
+        tx
+      );
+      return rate;
+    });
+
+    res.status(201).json(rate);
+  } catch (err: any) {
+    console.error("Error creating FX rate:", err);
+
+    if (err.code === "P2002") {
+      return res
+        .status(400)
+        .json({ error: "A rate for this pair and date already exists" });
+    }
+
+    res.status(500).json({ error: "Failed to create FX rate" });
+  }
+});
+
+// Manual upload: { rates: [...] }. Upserts on (base, quote, asOf) so the
+// same sheet can be re-uploaded with corrections.
+router.post("/fx-rates/bulk", async (req, res) => {
+  try {
+    const { rates } = req.body;
+
+    if (!Array.isArray(rates) || rates.length === 0) {
+      return res.status(400).json({ error: "rates must be a non-empty array" });
+    }
+
+    const parsed = rates.map((r: any) => parseFxRateInput(r));
+    const errors = parsed
+      .map((p, index) => (p.error ? { index, error: p.error } : null))
+      .filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ error: "Invalid rates", details: errors });
+    }
+
+    const saved = await prisma.$transaction(async tx => {
+      const saved = [];
+      for (const { value } of parsed) {
+        const rate = await tx.fxRate.upsert({
+          where: {
+            organizationId_baseCurrency_quoteCurrency_asOf: {
+              organizationId: orgOf(req),
+              baseCurrency: value!.baseCurrency,
+              quoteCurrency: value!.quoteCurrency,
+              asOf: value!.asOf,
+            },
+          },
+          create: { ...value!, organizationId: orgOf(req) },
+          update: { rate: value!.rate, source: value!.source },
+        });
+        await auditRequest(
+          req,
+          {
+            action: "fx_rate.upload",
+            entityType: "FX_RATE",
+            entityId: rate.id,
+            after: rate,
+          },
+          tx
+        );
+        saved.push(rate);
+      }
+      return saved;
+    });
+
+    res.status(201).json({ count: saved.length, rates: saved });
+  } catch (err) {
+    console.error("Error uploading FX rates:", err);
+    res.status(500).json({ error: "Failed to upload FX rates" });
+  }
+});
+
+router.put("/fx-rates/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const { value, error } = parseFxRateInput(req.body);
+    if (!value) {
+      return res.status(400).json({ error });
+    }
+
+    const existing = await prisma.fxRate.findFirst({
+      where: { id, organizationId: orgOf(req) },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: "FX rate not found" });
+    }
+
+    const rate = await prisma.$transaction(async tx => {
+      const rate = await tx.fxRate.update({ where: { id }, data: value });
+      await auditRequest(
+        req,
+        {
+          action: "fx_rate.update",
+          entityType: "FX_RATE",
+          entityId: id,
+          before: existing,
+          after: rate,
+        },
+        tx
+      );
+      return rate;
+    });
+
+    res.json(rate);
+  } catch (err: any) {
+    console.error("Error updating FX rate:", err);
+
+    if (err.code === "P2025") {
+      return res.status(404).json({ error: "FX rate not found" });
+    }
+    if (err.code === "P2002") {
+      return res
+        .status(400)
+        .json({ error: "A rate for this pair and date already exists" });
+    }
+
+    res.status(500).json({ error: "Failed to update FX rate" });
+  }
+});
+
+router.delete("/fx-rates/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.fxRate.findFirst({
+      where: { id, organizationId: orgOf(req) },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: "FX rate not found" });
+    }
+
+    await prisma.$transaction(async tx => {
+      await tx.fxRate.delete({ where: { id } });
+      await auditRequest(
+        req,
+        {
+          action: "fx_rate.delete",
+          entityType: "FX_RATE",
+          entityId: id,
+          before: existing,
+        },
+        tx
+      );
+    });
+
+    res.status(204).end();
+  } catch (err: any) {
+    console.error("Error deleting FX rate:", err);
+
+    if (err.code === "P2025") {
+      return res.status(404).json({ error: "FX rate not found" });
+    }
+
+    res.status(500).json({ error: "Failed to delete FX rate" });
+  }
+});
+
+export default router;
@@ -1,18 +1,40 @@
 import { Router } from "express";
+import { EDITOR_ROLES, requireAuth, requireRoleForWrites } from "../auth";
 import healthRoutes from "./health";
+import authRoutes from "./auth";
+import userRoutes from "./users";
+import auditRoutes from "./audit";
+import evaluationRoutes from "./evaluations";
 import vendorRoutes from "./vendor";
 import rfpRoutes from "./rfps";
 import proposalRoutes from "./proposals";
 import emailRoutes from "./emails";
 import webhookRoutes from "./webhooks";
+import fxRateRoutes from "./fxRates";
+import invitationRoutes from "./invitations";
+import reminderRoutes from "./reminders";
 
 const router = Router();
 
+// Public: health, inbound mail (checked by its own secret) and login
 router.use(healthRoutes);
+router.use(webhookRoutes);
+router.use(authRoutes);
+
+router.use(requireAuth);
+router.use(userRoutes);
+router.use(auditRoutes);
+// evaluators score proposals here; checks its own roles
+router.use(evaluationRoutes);
+
+// Everything below: any role may read, only editors may change
+router.use(requireRoleForWrites(...EDITOR_ROLES));
 router.use(vendorRoutes);
 router.use(rfpRoutes);
 router.use(proposalRoutes);
 router.use(emailRoutes);
-router.use(webhookRoutes);
+router.use(fxRateRoutes);
+router.use(invitationRoutes);
+router.use(reminderRoutes);
 
 export default router;
@@ -0,0 +1,211 @@
+import { Router } from "express";
+import prisma from "../lib/prisma";
+import { getClock } from "../lib/clock";
+import { orgOf } from "../auth";
+import { auditRequest } from "../audit";
+import { BUDGET_VISIBILITIES } from "../documentExports";
+import {
+  canRespondToInvitation,
+  effectiveInvitationStatus,
+  getInvitationGrid,
+  recordInvitations,
+  sendInvitations,
+} from "../rfpInvitations";
+import { transitionRfp } from "../rfpLifecycle";
+import { normalizeTags, resolveVendorsToInvite, vendorsWithTags } from "../vendors";
+
+const router = Router();
+
+// Vendor × status grid: who was invited, acknowledged, declined, responded
+router.get("/rfps/:rfpId/invitations", async (req, res) => {
+  try {
+    const rfp = await prisma.rfp.findFirst({
+      where: { id: req.params.rfpId, organizationId: orgOf(req) },
+    });
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    res.json(await getInvitationGrid(rfp));
+  } catch (err) {
+    console.error("Error fetching invitations:", err);
+    res.status(500).json({ error: "Failed to fetch invitations" });
+  }
+});
+
+// Invite vendors. Body: { vendorIds?, tags?, send?, budget? } — tags adds
+// every active vendor carrying any of them. send (default true) emails the
+// RFP, publishing a draft as POST /rfps/:rfpId/send does; send: false only
+// records invitations made outside the system. budget as for /send.
+router.post("/rfps/:rfpId/invitations", async (req, res) => {
+  try {
+    const { rfpId } = req.params;
+    const { vendorIds = [], tags, send = true, budget = "hide" } = req.body;
+
+    const targetTags = tags === undefined ? [] : normalizeTags(tags);
+    if (!Array.isArray(vendorIds) || !targetTags) {
+      return res
+        .status(400)
+        .json({ error: "vendorIds and tags must be arrays" });
+    }
+    if (vendorIds.length === 0 && targetTags.length === 0) {
+      return res
+        .status(400)
+        .json({ error: "vendorIds or tags must be given" });
+    }
+    if (!BUDGET_VISIBILITIES.includes(budget)) {
+      return res.status(400).json({
+        error: `budget must be one of ${BUDGET_VISIBILITIES.join(", ")}`,
+      });
+    }
+
+    const rfp = await prisma.rfp.findFirst({ where: { id: rfpId, organizationId: orgOf(req) } });
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+    if (rfp.status !== "DRAFT" && rfp.status !== "PUBLISHED") {
+      return res.status(409).json({
+        error: `Cannot invite vendors to an RFP that is ${rfp.status}`,
+      });
+    }
+
+    const { vendors, missing, archived } = await resolveVendorsToInvite(
+      rfp.organizationId,
+      vendorIds
+    );
+    if (missing.length > 0) {
+      return res
+        .status(404)
+        .json({ error: "Some vendors were not found", vendorIds: missing });
+    }
+    if (archived.length > 0) {
+      return res
+        .status(409)
+        .json({ error: "Archived vendors can't be invited", vendorIds: archived });
+    }
+
+    const tagged = targetTags.length
+      ? await vendorsWithTags(rfp.organizationId, targetTags)
+      : [];
+    for (const vendor of tagged) {
+      if (!vendors.some(v => v.id === vendor.id)) vendors.push(vendor);
+    }
+    if (vendors.length === 0) {
+      return res
+        .status(404)
+        .json({ error: "No active vendors carry these tags", tags: targetTags });
+    }
+
+    // vendors can't be sent a draft they have no way to answer
+    const [invited, recorded] = await prisma.$transaction(async tx => {
+      const invited =
+        send !== false && rfp.status === "DRAFT"
+          ? await transitionRfp(rfp, "PUBLISHED", {}, tx)
+          : rfp;
+      const recorded = await recordInvitations(invited, vendors, tx);
+      await auditRequest(
+        req,
+        {
+          action: "rfp.invite",
+          entityType: "RFP",
+          entityId: invited.id,
+          before: { status: rfp.status },
+          after: { status: invited.status, vendorIds: vendors.map(v => v.id) },
+          metadata: { tags: targetTags, send: send !== false },
+        },
+        tx
+      );
+      return [invited, recorded] as const;
+    });
+
+    if (send === false) {
+      return res.status(201).json({ rfpId: invited.id, invitations: recorded, dispatch: [] });
+    }
+
+    const { invitations, dispatch } = await sendInvitations(
+      invited,
+      vendors,
+      { budget },
+      (tx, dispatch) =>
+        auditRequest(
+          req,
+          {
+            action: "rfp.dispatch",
+            entityType: "RFP",
+            entityId: invited.id,
+            metadata: { dispatch },
+          },
+          tx
+        )
+    );
+
+    res.status(201).json({ rfpId: invited.id, invitations, dispatch });
+  } catch (err) {
+    console.error("Error inviting vendors:", err);
+    res.status(500).json({ error: "Failed to invite vendors" });
+  }
+});
+
+// Vendor's answer to the invitation. Body: { status: "ACKNOWLEDGED" |
+// "DECLINED", reason? }. RESPONDED is set when a proposal arrives; no
+// answer is taken once submissions are over.
+router.patch("/rfps/:rfpId/invitations/:vendorId", async (req, res) => {
+  try {
+    const { rfpId, vendorId } = req.params;
+    const { status, reason } = req.body;
+
+    if (status !== "ACKNOWLEDGED" && status !== "DECLINED") {
+      return res
+        .status(400)
+        .json({ error: "status must be ACKNOWLEDGED or DECLINED" });
+    }
+
+    const invitation = await prisma.rfpInvitation.findFirst({
+      where: { rfpId, vendorId, rfp: { organizationId: orgOf(req) } },
+      include: { rfp: true },
+    });
+    if (!invitation) {
+      return res.status(404).json({ error: "Invitation not found" });
+    }
+    const { rfp, ...current } = invitation;
+    if (!canRespondToInvitation(current, rfp, status)) {
+      return res.status(409).json({
+        error: `Invitation can't move from ${effectiveInvitationStatus(current, rfp)} to ${status}`,
+      });
+    }
+
+    const now = getClock().now();
+    const updated = await prisma.$transaction(async tx => {
+      const updated = await tx.rfpInvitation.update({
+        where: { id: invitation.id },
+        data:
+          status === "ACKNOWLEDGED"
+            ? { status, acknowledgedAt: now }
+            : {
+                status,
+                declinedAt: now,
+                declineReason: typeof reason === "string" ? reason : null,
+              },
+      });
+      await auditRequest(
+        req,
+        {
+          action: "rfp.invitation_response",
+          entityType: "RFP",
+          entityId: rfpId,
+          before: current,
+          after: updated,
+        },
+        tx
+      );
+      return updated;
+    });
+
+    res.json(updated);
+  } catch (err) {
+    console.error("Error updating invitation:", err);
+    res.status(500).json({ error: "Failed to update invitation" });
+  }
+});
+
+export default router;
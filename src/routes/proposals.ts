@@ -1,17 +1,59 @@
-import { Router } from "express";
+import { Request, Router } from "express";
+import { Rfp } from ".prisma/client";
 import prisma from "../lib/prisma";
-import { generateProposalFromText } from "../ai";
-import { compareProposalsForRfp } from "../proposalScoring";
+import { orgOf } from "../auth";
+import { actorFromRequest, aiExtractionMetadata, auditRequest } from "../audit";
+import { processInboundEmail } from "../emailIngestion";
+import { ComplianceMode } from "../proposalScoring";
+import { RfpComparison, RfpComparisonQuery, runRfpComparison } from "../rfpComparison";
+import {
+  ComparisonReport,
+  explainComparison,
+  findReportNarrative,
+  writeReportNarrative,
+} from "../comparisonReport";
+import {
+  PDF_CONTENT_TYPE,
+  XLSX_CONTENT_TYPE,
+  buildComparisonWorkbook,
+  buildEvaluationSummaryPdf,
+  fileSlug,
+} from "../documentExports";
+import { isBlinded } from "../evaluations";
+import {
+  LateProposalError,
+  checkProposalTiming,
+  reportedReceivedAt,
+} from "../rfpLifecycle";
+import { refreshProposalCompliance } from "../compliance";
+import { recordInvitationResponse } from "../rfpInvitations";
+import { applyProposalPatch, validateProposalPatch } from "../proposalReview";
+import {
+  RevisionConflictError,
+  createProposalRevision,
+  diffProposals,
+  getRevisionHistory,
+} from "../proposalRevisions";
+import { parseMessageIdList } from "../utils/email";
+import { specForRfp } from "../utils/rfpSpec";
+
+const COMPLIANCE_MODES: ComplianceMode[] = ["penalize", "exclude", "ignore"];
 
 const router = Router();
 
 router.get("/rfps/:rfpId/proposals", async (req, res) => {
   try {
     const { rfpId } = req.params;
+    // Superseded revisions are hidden unless ?allRevisions=true
+    const allRevisions = req.query.allRevisions === "true";
 
     const proposals = await prisma.proposal.findMany({
-      where: { rfpId },
-      include: { vendor: true, email: true },
+      where: {
+        rfpId,
+        rfp: { organizationId: orgOf(req) },
+        ...(allRevisions ? {} : { isLatest: true }),
+      },
+      include: { vendor: true, email: true, lineItems: true },
       orderBy: { createdAt: "desc" },
     });
 
@@ -25,58 +67,144 @@ router.get("/rfps/:rfpId/proposals", async (req, res) => {
 router.post("/rfps/:rfpId/proposals", async (req, res) => {
   try {
     const { rfpId } = req.params;
-    const {
-      vendorId,
-      totalPrice,
-      currency,
-      deliveryDays,
-      warrantyMonths,
-      terms,
-      notes,
-    } = req.body;
+    const { vendorId } = req.body;
 
     if (!vendorId) {
       return res.status(400).json({ error: "vendorId is required" });
     }
 
-    const proposal = await prisma.proposal.create({
-      data: {
+    const [rfp, vendor] = await Promise.all([
+      prisma.rfp.findFirst({ where: { id: rfpId, organizationId: orgOf(req) } }),
+      prisma.vendor.findFirst({ where: { id: vendorId, organizationId: orgOf(req) } }),
+    ]);
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+    if (!vendor) {
+      return res.status(404).json({ error: "Vendor not found" });
+    }
+
+    // same field rules as a reviewer's edit; lineItems may be left null
+    const { lineItems, ...rest } = req.body;
+    const { patch: fields, errors } = validateProposalPatch(
+      lineItems == null ? rest : req.body,
+      specForRfp(rfp).items.length
+    );
+    if (errors.length > 0) {
+      return res.status(400).json({ error: "Invalid proposal", details: errors });
+    }
+
+    let isLate: boolean;
+    try {
+      isLate = checkProposalTiming(rfp, new Date());
+    } catch (err: any) {
+      if (err instanceof LateProposalError) {
+        return res.status(409).json({ error: err.message });
+      }
+      throw err;
+    }
+
+    // A second manual entry for the same vendor revises the first
+    const previous = await prisma.proposal.findFirst({
+      where: { rfpId, vendorId, isLatest: true },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const proposal = await createProposalRevision(
+      {
         rfpId,
         vendorId,
-        totalPrice: totalPrice ?? null,
-        currency: currency ?? null,
-        deliveryDays: deliveryDays ?? null,
-        warrantyMonths: warrantyMonths ?? null,
-        terms: terms ?? null,
-        notes: notes ?? null,
+        totalPrice: fields.totalPrice ?? null,
+        currency: fields.currency ?? null,
+        deliveryDays: fields.deliveryDays ?? null,
+        warrantyMonths: fields.warrantyMonths ?? null,
+        terms: fields.terms ?? null,
+        notes: fields.notes ?? null,
+        // entered by a person, nothing to review
+        reviewStatus: "REVIEWED",
+        isLate,
+        lineItems: fields.lineItems ? { create: fields.lineItems } : undefined,
       },
-    });
+      previous,
+      { lineItems: true },
+      async (tx, created) => {
+        await recordInvitationResponse(rfpId, vendorId, tx);
+        await auditRequest(
+          req,
+          {
+            action: "proposal.create",
+            entityType: "PROPOSAL",
+            entityId: created.id,
+            after: created,
+            metadata: { previousRevisionId: previous?.id ?? null },
+          },
+          tx
+        );
+      }
+    );
+
+    const compliance = await refreshProposalCompliance(proposal.id);
 
-    res.status(201).json(proposal);
+    res.status(201).json({ ...proposal, compliance });
   } catch (err) {
+    if (err instanceof RevisionConflictError) {
+      return res.status(409).json({ error: err.message });
+    }
     console.error("Error creating proposal:", err);
     res.status(500).json({ error: "Failed to create proposal" });
   }
 });
 
+// Options shared by the comparison and its report:
+// ?fxDate=YYYY-MM-DD to convert with rates as of that date,
+// ?compliance=penalize|exclude|ignore for hard failures,
+// ?reviewedOnly=true to rank only human-reviewed proposals (rejected ones
+// are never ranked), ?excludeLate=true to drop proposals received after
+// the submission deadline. Evaluator consensus only counts for callers
+// who may see it (see blind evaluation).
+async function comparisonQuery(
+  req: Request,
+  rfp: Rfp
+): Promise<{ query: RfpComparisonQuery } | { error: string }> {
+  const fxDate = req.query.fxDate
+    ? new Date(String(req.query.fxDate))
+    : new Date();
+  if (Number.isNaN(fxDate.getTime())) {
+    return { error: "fxDate must be a valid date" };
+  }
+
+  const compliance = (req.query.compliance ?? "penalize") as ComplianceMode;
+  if (!COMPLIANCE_MODES.includes(compliance)) {
+    return { error: `compliance must be one of ${COMPLIANCE_MODES.join(", ")}` };
+  }
+
+  return {
+    query: {
+      fxDate,
+      compliance,
+      reviewedOnly: req.query.reviewedOnly === "true",
+      excludeLate: req.query.excludeLate === "true",
+      evaluationsVisible: !(await isBlinded(rfp, req.auth!)),
+    },
+  };
+}
+
 router.get("/rfps/:rfpId/compare", async (req, res) => {
   try {
-    const { rfpId } = req.params;
-
-    const rfp = await prisma.rfp.findUnique({
-      where: { id: rfpId },
+    const rfp = await prisma.rfp.findFirst({
+      where: { id: req.params.rfpId, organizationId: orgOf(req) },
     });
 
     if (!rfp) {
       return res.status(404).json({ error: "RFP not found" });
     }
 
-    const proposals = await prisma.proposal.findMany({
-      where: { rfpId },
-      include: { vendor: true },
-    });
+    const parsed = await comparisonQuery(req, rfp);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
 
-    const result = compareProposalsForRfp(rfp, proposals as any);
+    const result = await runRfpComparison(rfp, parsed.query);
 
     res.json(result);
   } catch (err) {
@@ -85,6 +213,158 @@ router.get("/rfps/:rfpId/compare", async (req, res) => {
   }
 });
 
+// Adds the narrative stored for this comparison (the template if none
+// was written yet) to a report unless ?narrative=false
+async function addReportNarrative(
+  req: Request,
+  rfp: Rfp,
+  report: ComparisonReport,
+  comparison: RfpComparison
+) {
+  if (req.query.narrative === "false") return;
+  report.narrative = await findReportNarrative(rfp, report, comparison);
+}
+
+// The comparison explained for approvers: per-criterion contributions,
+// why the leader leads, budget fit, weight sensitivity and a written
+// recommendation. Same options as /compare, plus ?narrative=false to skip
+// the narrative. Reading never calls the model; see POST .../narrative.
+router.get("/rfps/:rfpId/compare/report", async (req, res) => {
+  try {
+    const rfp = await prisma.rfp.findFirst({
+      where: { id: req.params.rfpId, organizationId: orgOf(req) },
+    });
+
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    const parsed = await comparisonQuery(req, rfp);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const comparison = await runRfpComparison(rfp, parsed.query);
+    const report = explainComparison(rfp, comparison);
+    await addReportNarrative(req, rfp, report, comparison);
+
+    res.json(report);
+  } catch (err) {
+    console.error("Error building comparison report:", err);
+    res.status(500).json({ error: "Failed to build comparison report" });
+  }
+});
+
+// Has the model write the report's narrative for the comparison as it
+// stands and stores it, so the report and its PDF export read it back.
+// Same options as /compare; returns the report.
+router.post("/rfps/:rfpId/compare/report/narrative", async (req, res) => {
+  try {
+    const rfp = await prisma.rfp.findFirst({
+      where: { id: req.params.rfpId, organizationId: orgOf(req) },
+    });
+
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    const parsed = await comparisonQuery(req, rfp);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const comparison = await runRfpComparison(rfp, parsed.query);
+    const report = explainComparison(rfp, comparison);
+    const { narrative } = await writeReportNarrative(rfp, report, comparison, (tx, extraction) =>
+      auditRequest(
+        req,
+        {
+          action: "rfp.ai_recommendation",
+          entityType: "RFP",
+          entityId: rfp.id,
+          after: extraction.value,
+          metadata: {
+            recommendedProposalId: report.recommendation?.proposalId ?? null,
+            ...aiExtractionMetadata(extraction),
+          },
+        },
+        tx
+      )
+    );
+    report.narrative = narrative;
+
+    res.json(report);
+  } catch (err) {
+    console.error("Error writing report narrative:", err);
+    res.status(500).json({ error: "Failed to write report narrative" });
+  }
+});
+
+// Side-by-side comparison workbook (XLSX); same options as /compare
+router.get("/rfps/:rfpId/exports/comparison.xlsx", async (req, res) => {
+  try {
+    const rfp = await prisma.rfp.findFirst({
+      where: { id: req.params.rfpId, organizationId: orgOf(req) },
+    });
+
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    const parsed = await comparisonQuery(req, rfp);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const comparison = await runRfpComparison(rfp, parsed.query);
+    const workbook = await buildComparisonWorkbook(rfp, comparison);
+
+    res.setHeader("Content-Type", XLSX_CONTENT_TYPE);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${fileSlug(rfp.title)}-comparison.xlsx"`
+    );
+    res.send(workbook);
+  } catch (err) {
+    console.error("Error exporting comparison:", err);
+    res.status(500).json({ error: "Failed to export comparison" });
+  }
+});
+
+// The comparison report as a PDF evaluation summary; same options as
+// /compare/report
+router.get("/rfps/:rfpId/exports/evaluation-summary.pdf", async (req, res) => {
+  try {
+    const rfp = await prisma.rfp.findFirst({
+      where: { id: req.params.rfpId, organizationId: orgOf(req) },
+    });
+
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    const parsed = await comparisonQuery(req, rfp);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const comparison = await runRfpComparison(rfp, parsed.query);
+    const report = explainComparison(rfp, comparison);
+    await addReportNarrative(req, rfp, report, comparison);
+    const pdf = await buildEvaluationSummaryPdf(report, comparison);
+
+    res.setHeader("Content-Type", PDF_CONTENT_TYPE);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${fileSlug(rfp.title)}-evaluation-summary.pdf"`
+    );
+    res.send(pdf);
+  } catch (err) {
+    console.error("Error exporting evaluation summary:", err);
+    res.status(500).json({ error: "Failed to export evaluation summary" });
+  }
+});
+
 router.post("/rfps/:rfpId/proposals/from-text", async (req, res) => {
   try {
     const { rfpId } = req.params;
@@ -97,8 +377,8 @@ router.post("/rfps/:rfpId/proposals/from-text", async (req, res) => {
     }
 
     const [rfp, vendor] = await Promise.all([
-      prisma.rfp.findUnique({ where: { id: rfpId } }),
-      prisma.vendor.findUnique({ where: { id: vendorId } }),
+      prisma.rfp.findFirst({ where: { id: rfpId, organizationId: orgOf(req) } }),
+      prisma.vendor.findFirst({ where: { id: vendorId, organizationId: orgOf(req) } }),
     ]);
 
     if (!rfp) {
@@ -108,46 +388,350 @@ router.post("/rfps/:rfpId/proposals/from-text", async (req, res) => {
       return res.status(404).json({ error: "Vendor not found" });
     }
 
-    const email = await prisma.emailMessage.create({
-      data: {
-        from: emailMeta?.from ?? vendor.email,
-        to: emailMeta?.to ?? null,
-        subject: emailMeta?.subject ?? null,
-        bodyText: text,
-        bodyHtml: emailMeta?.bodyHtml ?? null,
-        messageId: emailMeta?.messageId ?? null,
-        receivedAt: emailMeta?.receivedAt ? new Date(emailMeta.receivedAt) : new Date(),
-        status: "PENDING",
+    const receivedAt = reportedReceivedAt(rfp, emailMeta?.receivedAt);
+    if (!(receivedAt instanceof Date)) {
+      return res.status(400).json({ error: receivedAt.error });
+    }
+
+    // Same Message-ID already ingested: return what it produced
+    if (emailMeta?.messageId) {
+      const existing = await prisma.emailMessage.findFirst({
+        where: { messageId: emailMeta.messageId, organizationId: rfp.organizationId },
+        include: {
+          proposal: { include: { vendor: true, email: true, lineItems: true } },
+        },
+      });
+      if (existing) {
+        return res.status(200).json({
+          duplicate: true,
+          emailId: existing.id,
+          emailStatus: existing.status,
+          proposal: existing.proposal,
+        });
+      }
+    }
+
+    let email;
+    try {
+      email = await prisma.emailMessage.create({
+        data: {
+          organizationId: rfp.organizationId,
+          from: emailMeta?.from ?? vendor.email,
+          to: emailMeta?.to ?? null,
+          subject: emailMeta?.subject ?? null,
+          bodyText: text,
+          bodyHtml: emailMeta?.bodyHtml ?? null,
+          messageId: emailMeta?.messageId ?? null,
+          inReplyTo: emailMeta?.inReplyTo ?? null,
+          references: parseMessageIdList(emailMeta?.references),
+          receivedAt,
+          status: "PENDING",
+          rfpId,
+          vendorId,
+        },
+      });
+    } catch (err: any) {
+      // a concurrent request with the same Message-ID won the insert
+      if (emailMeta?.messageId && err.code === "P2002") {
+        return res
+          .status(409)
+          .json({ error: "An email with this Message-ID is already being ingested" });
+      }
+      throw err;
+    }
+
+    let result;
+    try {
+      result = await processInboundEmail(email.id, { actor: actorFromRequest(req) });
+    } catch (err: any) {
+      const failed = email;
+      await prisma.$transaction(async tx => {
+        await tx.emailMessage.update({
+          where: { id: failed.id },
+          data: { status: "FAILED", error: String(err?.message ?? err) },
+        });
+        await auditRequest(
+          req,
+          {
+            action: "email.status_change",
+            entityType: "EMAIL",
+            entityId: failed.id,
+            before: { status: failed.status },
+            after: { status: "FAILED", error: String(err?.message ?? err) },
+          },
+          tx
+        );
+      });
+      throw err;
+    }
+
+    const { proposal, parsed, extraction, compliance } = result;
+
+    res.status(201).json({
+      proposal,
+      parsed,
+      compliance,
+      needsReview: extraction.lowConfidenceFields.length > 0,
+      extraction: {
+        fieldConfidence: extraction.fieldConfidence,
+        lowConfidenceFields: extraction.lowConfidenceFields,
+        provider: extraction.provider,
+        model: extraction.model,
+        promptVersion: extraction.promptVersion,
+        repairAttempts: extraction.repairAttempts,
       },
     });
+  } catch (err) {
+    if (err instanceof LateProposalError || err instanceof RevisionConflictError) {
+      return res.status(409).json({ error: err.message });
+    }
+    console.error("Error creating proposal from text:", err);
+    res.status(500).json({ error: "Failed to create proposal from text" });
+  }
+});
 
-    const parsed = await generateProposalFromText(text, { rfp, vendor });
+router.get("/proposals/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
 
-    const proposal = await prisma.proposal.create({
-      data: {
-        rfpId,
-        vendorId,
-        totalPrice: parsed.totalPrice,
-        currency: parsed.currency ?? rfp.currency ?? null,
-        deliveryDays: parsed.deliveryDays,
-        warrantyMonths: parsed.warrantyMonths,
-        terms: parsed.terms,
-        notes: parsed.notes,
-        source: "EMAIL",
-        emailId: email.id,
+    const proposal = await prisma.proposal.findFirst({
+      where: { id, rfp: { organizationId: orgOf(req) } },
+      include: {
+        vendor: true,
+        email: true,
+        lineItems: true,
+        rfp: true,
+        edits: { orderBy: { createdAt: "asc" } },
       },
-      include: { vendor: true, email: true },
     });
 
-    await prisma.emailMessage.update({
-      where: { id: email.id },
-      data: { status: "PARSED" },
+    if (!proposal) {
+      return res.status(404).json({ error: "Proposal not found" });
+    }
+
+    res.json(proposal);
+  } catch (err) {
+    console.error("Error fetching proposal:", err);
+    res.status(500).json({ error: "Failed to fetch proposal" });
+  }
+});
+
+// Reviewer corrections and review decision. Body: any of totalPrice,
+// currency, deliveryDays, warrantyMonths, terms, notes, lineItems,
+// reviewStatus, reviewNote. Edits are recorded as the signed-in user.
+router.patch("/proposals/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const editedBy = req.auth!.email;
+
+    const exists = await prisma.proposal.findFirst({
+      where: { id, rfp: { organizationId: orgOf(req) } },
+      include: { lineItems: true, rfp: true },
     });
+    if (!exists) {
+      return res.status(404).json({ error: "Proposal not found" });
+    }
 
-    res.status(201).json({ proposal, parsed });
+    const { patch, errors } = validateProposalPatch(
+      req.body,
+      specForRfp(exists.rfp).items.length
+    );
+    if (errors.length > 0) {
+      return res.status(400).json({ error: "Invalid proposal update", details: errors });
+    }
+
+    const { rfp: _rfp, ...proposalBefore } = exists;
+    const result = await applyProposalPatch(id, patch, editedBy, (tx, { proposal, edits }) =>
+      auditRequest(
+        req,
+        {
+          action: "proposal.update",
+          entityType: "PROPOSAL",
+          entityId: id,
+          before: proposalBefore,
+          after: proposal,
+          metadata: { editedBy, fields: edits.map(e => e.field) },
+        },
+        tx
+      )
+    );
+
+    res.json(result);
   } catch (err) {
-    console.error("Error creating proposal from text:", err);
-    res.status(500).json({ error: "Failed to create proposal from text" });
+    console.error("Error updating proposal:", err);
+    res.status(500).json({ error: "Failed to update proposal" });
+  }
+});
+
+// Revision history of the proposal's thread with per-revision changes
+router.get("/proposals/:id/revisions", async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const exists = await prisma.proposal.findFirst({
+      where: { id, rfp: { organizationId: orgOf(req) } },
+    });
+    if (!exists) {
+      return res.status(404).json({ error: "Proposal not found" });
+    }
+
+    const revisions = await getRevisionHistory(id);
+
+    res.json({ proposalId: id, revisions });
+  } catch (err) {
+    console.error("Error fetching proposal revisions:", err);
+    res.status(500).json({ error: "Failed to fetch proposal revisions" });
+  }
+});
+
+// Diff between two revisions: ?against=<otherProposalId>, defaulting to
+// the revision this one replaced
+router.get("/proposals/:id/diff", async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const proposal = await prisma.proposal.findFirst({
+      where: { id, rfp: { organizationId: orgOf(req) } },
+      include: { lineItems: true },
+    });
+    if (!proposal) {
+      return res.status(404).json({ error: "Proposal not found" });
+    }
+
+    const againstId = req.query.against
+      ? String(req.query.against)
+      : proposal.previousRevisionId;
+    if (!againstId) {
+      return res.status(400).json({
+        error: "Proposal has no previous revision; pass ?against=<proposalId>",
+      });
+    }
+
+    const against = await prisma.proposal.findFirst({
+      where: { id: againstId, rfp: { organizationId: orgOf(req) } },
+      include: { lineItems: true },
+    });
+    if (!against) {
+      return res.status(404).json({ error: "Proposal to compare against not found" });
+    }
+    if (against.rfpId !== proposal.rfpId || against.vendorId !== proposal.vendorId) {
+      return res.status(400).json({
+        error: "Can only diff revisions from the same vendor for the same RFP",
+      });
+    }
+
+    res.json({
+      from: { id: against.id, revision: against.revision },
+      to: { id: proposal.id, revision: proposal.revision },
+      changes: diffProposals(against, proposal),
+    });
+  } catch (err) {
+    console.error("Error diffing proposal revisions:", err);
+    res.status(500).json({ error: "Failed to diff proposal revisions" });
+  }
+});
+
+router.get("/proposals/:id/edits", async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const edits = await prisma.proposalEdit.findMany({
+      where: { proposalId: id, proposal: { rfp: { organizationId: orgOf(req) } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    res.json(edits);
+  } catch (err) {
+    console.error("Error fetching proposal edits:", err);
+    res.status(500).json({ error: "Failed to fetch proposal edits" });
+  }
+});
+
+// Buyer confirms low-confidence AI fields; they then count in scoring
+router.post("/proposals/:id/fields/confirm", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { fields } = req.body;
+
+    if (!Array.isArray(fields) || fields.length === 0) {
+      return res.status(400).json({ error: "fields must be a non-empty array" });
+    }
+
+    const proposal = await prisma.proposal.findFirst({
+      where: { id, rfp: { organizationId: orgOf(req) } },
+    });
+    if (!proposal) {
+      return res.status(404).json({ error: "Proposal not found" });
+    }
+
+    await prisma.$transaction(async tx => {
+      const confirmed = await tx.proposal.update({
+        where: { id },
+        data: {
+          lowConfidenceFields: proposal.lowConfidenceFields.filter(
+            f => !fields.includes(f)
+          ),
+        },
+      });
+      await auditRequest(
+        req,
+        {
+          action: "proposal.confirm_fields",
+          entityType: "PROPOSAL",
+          entityId: id,
+          before: { lowConfidenceFields: proposal.lowConfidenceFields },
+          after: { lowConfidenceFields: confirmed.lowConfidenceFields },
+        },
+        tx
+      );
+    });
+
+    const compliance = await refreshProposalCompliance(id);
+
+    const updated = await prisma.proposal.findUnique({
+      where: { id },
+      include: { vendor: true, lineItems: true },
+    });
+
+    res.json({ ...updated, compliance });
+  } catch (err) {
+    console.error("Error confirming proposal fields:", err);
+    res.status(500).json({ error: "Failed to confirm proposal fields" });
+  }
+});
+
+// Re-runs the compliance checklist (e.g. after the RFP or FX rates changed)
+router.post("/proposals/:id/compliance", async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const exists = await prisma.proposal.findFirst({
+      where: { id, rfp: { organizationId: orgOf(req) } },
+    });
+    if (!exists) {
+      return res.status(404).json({ error: "Proposal not found" });
+    }
+
+    const compliance = await prisma.$transaction(async tx => {
+      const compliance = await refreshProposalCompliance(id, tx);
+      await auditRequest(
+        req,
+        {
+          action: "proposal.check_compliance",
+          entityType: "PROPOSAL",
+          entityId: id,
+          before: { complianceStatus: exists.complianceStatus },
+          after: { complianceStatus: compliance.status },
+        },
+        tx
+      );
+      return compliance;
+    });
+
+    res.json({ proposalId: id, ...compliance });
+  } catch (err) {
+    console.error("Error checking proposal compliance:", err);
+    res.status(500).json({ error: "Failed to check proposal compliance" });
   }
 });
 
@@ -158,6 +742,7 @@ router.get("/rfps/:rfpId/emails", async (req, res) => {
     const proposals = await prisma.proposal.findMany({
       where: {
         rfpId,
+        rfp: { organizationId: orgOf(req) },
         source: "EMAIL",
         emailId: {
           not: null,
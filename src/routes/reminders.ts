@@ -0,0 +1,156 @@
+import { Router } from "express";
+import { ReminderKind } from ".prisma/client";
+import prisma from "../lib/prisma";
+import { orgOf } from "../auth";
+import { auditRequest } from "../audit";
+import {
+  runReminders,
+  validateClarificationFields,
+  validateReminderOffsets,
+} from "../reminders";
+
+const REMINDER_KINDS: ReminderKind[] = ["DEADLINE", "CLARIFICATION"];
+
+const router = Router();
+
+function reminderSettings(rfp: {
+  id: string;
+  remindersEnabled: boolean;
+  reminderOffsetsHours: number[];
+  clarificationFields: string[];
+}) {
+  return {
+    rfpId: rfp.id,
+    remindersEnabled: rfp.remindersEnabled,
+    reminderOffsetsHours: rfp.reminderOffsetsHours,
+    clarificationFields: rfp.clarificationFields,
+  };
+}
+
+router.get("/rfps/:rfpId/reminder-settings", async (req, res) => {
+  try {
+    const rfp = await prisma.rfp.findFirst({
+      where: { id: req.params.rfpId, organizationId: orgOf(req) },
+    });
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    res.json(reminderSettings(rfp));
+  } catch (err) {
+    console.error("Error fetching reminder settings:", err);
+    res.status(500).json({ error: "Failed to fetch reminder settings" });
+  }
+});
+
+// Body (all optional): { remindersEnabled, reminderOffsetsHours: [72, 24],
+// clarificationFields: ["deliveryDays", ...] }
+router.put("/rfps/:rfpId/reminder-settings", async (req, res) => {
+  try {
+    const { rfpId } = req.params;
+    const { remindersEnabled, reminderOffsetsHours, clarificationFields } = req.body;
+
+    const rfp = await prisma.rfp.findFirst({ where: { id: rfpId, organizationId: orgOf(req) } });
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    if (remindersEnabled !== undefined && typeof remindersEnabled !== "boolean") {
+      return res.status(400).json({ error: "remindersEnabled must be a boolean" });
+    }
+
+    const offsets =
+      reminderOffsetsHours === undefined ? {} : validateReminderOffsets(reminderOffsetsHours);
+    if (offsets.error) {
+      return res.status(400).json({ error: offsets.error });
+    }
+
+    const fields =
+      clarificationFields === undefined ? {} : validateClarificationFields(clarificationFields);
+    if (fields.error) {
+      return res.status(400).json({ error: fields.error });
+    }
+
+    const updated = await prisma.$transaction(async tx => {
+      const updated = await tx.rfp.update({
+        where: { id: rfpId },
+        data: {
+          ...(remindersEnabled !== undefined ? { remindersEnabled } : {}),
+          ...(offsets.offsets ? { reminderOffsetsHours: offsets.offsets } : {}),
+          ...(fields.fields ? { clarificationFields: fields.fields } : {}),
+        },
+      });
+      await auditRequest(
+        req,
+        {
+          action: "rfp.update_reminder_settings",
+          entityType: "RFP",
+          entityId: rfp.id,
+          before: reminderSettings(rfp),
+          after: reminderSettings(updated),
+        },
+        tx
+      );
+      return updated;
+    });
+
+    res.json(reminderSettings(updated));
+  } catch (err) {
+    console.error("Error updating reminder settings:", err);
+    res.status(500).json({ error: "Failed to update reminder settings" });
+  }
+});
+
+// Everything the scheduler sent for an RFP, newest first. ?kind= filters.
+router.get("/rfps/:rfpId/reminders", async (req, res) => {
+  try {
+    const { rfpId } = req.params;
+    const kind = req.query.kind as ReminderKind | undefined;
+
+    if (kind && !REMINDER_KINDS.includes(kind)) {
+      return res
+        .status(400)
+        .json({ error: `kind must be one of ${REMINDER_KINDS.join(", ")}` });
+    }
+
+    const rfp = await prisma.rfp.findFirst({ where: { id: rfpId, organizationId: orgOf(req) } });
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    const reminders = await prisma.reminder.findMany({
+      where: { rfpId, ...(kind ? { kind } : {}) },
+      include: { vendor: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.json(reminders);
+  } catch (err) {
+    console.error("Error fetching reminders:", err);
+    res.status(500).json({ error: "Failed to fetch reminders" });
+  }
+});
+
+// Runs a scheduler pass for the caller's organization now instead of
+// waiting for the next tick
+router.post("/reminders/run", async (req, res) => {
+  try {
+    const results = await runReminders(undefined, orgOf(req));
+    const sent = results.filter(r => r.status === "SENT").length;
+    const failed = results.filter(r => r.status === "FAILED").length;
+    // each reminder is committed as it's sent; this records who ran the pass
+    await auditRequest(req, {
+      action: "reminders.run",
+      entityType: "ORGANIZATION",
+      entityId: orgOf(req),
+      metadata: { sent, failed, results },
+    });
+
+    res.json({ sent, failed, results });
+  } catch (err) {
+    console.error("Error running reminders:", err);
+    res.status(500).json({ error: "Failed to run reminders" });
+  }
+});
+
+export default router;
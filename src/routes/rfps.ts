@@ -1,12 +1,57 @@
 import { Router } from "express";
+import { LateProposalPolicy, Prisma, RfpStatus } from ".prisma/client";
 import prisma from "../lib/prisma";
+import { orgOf } from "../auth";
+import { aiExtractionMetadata, auditRequest } from "../audit";
 import { generateRfpSpecFromText } from "../ai";
+import { refreshProposalCompliance } from "../compliance";
+import { recordInvitations, sendInvitations } from "../rfpInvitations";
+import { resolveVendorsToInvite } from "../vendors";
+import {
+  BUDGET_VISIBILITIES,
+  BudgetVisibility,
+  DOCX_CONTENT_TYPE,
+  buildRfpDocument,
+  fileSlug,
+} from "../documentExports";
+import {
+  DEFAULT_SCORING_CRITERIA,
+  resolveScoringCriteria,
+  validateScoringCriteria,
+} from "../proposalScoring";
+import {
+  RFP_STATUSES,
+  allowedTransitions,
+  AwardConflictError,
+  awardRfp,
+  canTransition,
+  transitionRfp,
+} from "../rfpLifecycle";
+import { validateStructuredSpec } from "../utils/rfpSpec";
+
+const LATE_POLICIES: LateProposalPolicy[] = ["FLAG", "REJECT"];
 
 const router = Router();
 
+// "2025-01-31T17:00:00Z" → Date; null/undefined pass through; NaN → "invalid"
+function parseOptionalDate(raw: unknown): Date | null | undefined | "invalid" {
+  if (raw === undefined || raw === null) return raw;
+  const d = new Date(String(raw));
+  return Number.isNaN(d.getTime()) ? "invalid" : d;
+}
+
+// Optional ?status=PUBLISHED
 router.get("/rfps", async (req, res) => {
   try {
+    const status = req.query.status as RfpStatus | undefined;
+    if (status !== undefined && !RFP_STATUSES.includes(status)) {
+      return res.status(400).json({
+        error: `status must be one of ${RFP_STATUSES.join(", ")}`,
+      });
+    }
+
     const rfps = await prisma.rfp.findMany({
+      where: { organizationId: orgOf(req), ...(status ? { status } : {}) },
       orderBy: { createdAt: "desc" },
     });
     res.json(rfps);
@@ -27,6 +72,9 @@ router.post("/rfps", async (req, res) => {
       paymentTerms,
       minimumWarrantyMonths,
       structuredSpec,
+      scoringCriteria,
+      submissionDeadline,
+      latePolicy,
     } = req.body;
 
     if (!title || !naturalLanguageInput) {
@@ -35,17 +83,68 @@ router.post("/rfps", async (req, res) => {
       });
     }
 
-    const rfp = await prisma.rfp.create({
-      data: {
-        title,
-        naturalLanguageInput,
-        structuredSpec: structuredSpec ?? {},
-        budget: budget ?? null,
-        currency: currency ?? null,
-        deliveryDeadline: deliveryDeadline ? new Date(deliveryDeadline) : null,
-        paymentTerms: paymentTerms ?? null,
-        minimumWarrantyMonths: minimumWarrantyMonths ?? null,
-      },
+    const deadline = parseOptionalDate(submissionDeadline);
+    if (deadline === "invalid") {
+      return res.status(400).json({ error: "submissionDeadline must be a valid date" });
+    }
+    if (latePolicy != null && !LATE_POLICIES.includes(latePolicy)) {
+      return res.status(400).json({
+        error: `latePolicy must be one of ${LATE_POLICIES.join(", ")}`,
+      });
+    }
+
+    let spec: Prisma.InputJsonValue = {};
+    if (structuredSpec != null) {
+      const validated = validateStructuredSpec(structuredSpec);
+      if (validated.errors.length > 0) {
+        return res.status(400).json({
+          error: "Invalid structuredSpec",
+          details: validated.errors,
+        });
+      }
+      spec = validated.spec as Prisma.InputJsonValue;
+    }
+
+    let criteria = null;
+    if (scoringCriteria != null) {
+      const validated = validateScoringCriteria(scoringCriteria);
+      if (validated.errors.length > 0) {
+        return res.status(400).json({
+          error: "Invalid scoringCriteria",
+          details: validated.errors,
+        });
+      }
+      criteria = validated.criteria;
+    }
+
+    const rfp = await prisma.$transaction(async tx => {
+      const rfp = await tx.rfp.create({
+        data: {
+          organizationId: orgOf(req),
+          title,
+          naturalLanguageInput,
+          structuredSpec: spec,
+          budget: budget ?? null,
+          currency: currency ?? null,
+          deliveryDeadline: deliveryDeadline ? new Date(deliveryDeadline) : null,
+          paymentTerms: paymentTerms ?? null,
+          minimumWarrantyMonths: minimumWarrantyMonths ?? null,
+          scoringCriteria: (criteria as any) ?? undefined,
+          submissionDeadline: deadline ?? null,
+          latePolicy: latePolicy ?? undefined,
+        },
+      });
+      await auditRequest(
+        req,
+        {
+          action: "rfp.create",
+          entityType: "RFP",
+          entityId: rfp.id,
+          after: rfp,
+        },
+        tx
+      );
+      return rfp;
     });
 
     res.status(201).json(rfp);
@@ -57,15 +156,26 @@ router.post("/rfps", async (req, res) => {
 
 router.post("/rfps/from-text", async (req, res) => {
   try {
-    const { naturalLanguageInput, title: explicitTitle } = req.body;
+    const { naturalLanguageInput, title: explicitTitle, submissionDeadline } = req.body;
 
     if (!naturalLanguageInput) {
       return res.status(400).json({ error: "naturalLanguageInput is required" });
     }
 
-    const structuredSpec = await generateRfpSpecFromText(naturalLanguageInput);
+    const deadline = parseOptionalDate(submissionDeadline);
+    if (deadline === "invalid") {
+      return res.status(400).json({ error: "submissionDeadline must be a valid date" });
+    }
+
+    const extraction = await generateRfpSpecFromText(naturalLanguageInput);
+    const structuredSpec = extraction.value;
+
+    const title = explicitTitle || structuredSpec.title;
 
-    const title = explicitTitle || structuredSpec.title || "Untitled RFP";
+    // An explicit title replaces the extracted one, so nothing to review
+    const lowConfidenceFields = explicitTitle
+      ? extraction.lowConfidenceFields.filter(f => f !== "title")
+      : extraction.lowConfidenceFields;
 
     const {
       budget,
@@ -80,24 +190,488 @@ router.post("/rfps/from-text", async (req, res) => {
         ? new Date(Date.now() + deliveryDeadlineDaysFromNow * 24 * 60 * 60 * 1000)
         : null;
 
-    const rfp = await prisma.rfp.create({
-      data: {
-        title,
-        naturalLanguageInput,
-        structuredSpec: structuredSpec as any,
-        budget: budget ?? null,
-        currency: currency ?? null,
-        deliveryDeadline,
-        paymentTerms: paymentTerms ?? null,
-        minimumWarrantyMonths: minimumWarrantyMonths ?? null,
-      },
+    const rfp = await prisma.$transaction(async tx => {
+      const rfp = await tx.rfp.create({
+        data: {
+          organizationId: orgOf(req),
+          title,
+          naturalLanguageInput,
+          structuredSpec: structuredSpec as any,
+          budget: budget ?? null,
+          currency: currency ?? null,
+          deliveryDeadline,
+          paymentTerms: paymentTerms ?? null,
+          minimumWarrantyMonths: minimumWarrantyMonths ?? null,
+          fieldConfidence: extraction.fieldConfidence as any,
+          lowConfidenceFields,
+          submissionDeadline: deadline ?? null,
+        },
+      });
+      await auditRequest(
+        req,
+        {
+          action: "rfp.create",
+          entityType: "RFP",
+          entityId: rfp.id,
+          after: rfp,
+        },
+        tx
+      );
+      await auditRequest(
+        req,
+        {
+          action: "rfp.ai_extraction",
+          entityType: "RFP",
+          entityId: rfp.id,
+          after: { structuredSpec, fieldConfidence: extraction.fieldConfidence },
+          metadata: aiExtractionMetadata(extraction),
+        },
+        tx
+      );
+      return rfp;
     });
 
-    res.status(201).json(rfp);
+    res.status(201).json({
+      ...rfp,
+      needsReview: lowConfidenceFields.length > 0,
+      extraction: {
+        provider: extraction.provider,
+        model: extraction.model,
+        promptVersion: extraction.promptVersion,
+        repairAttempts: extraction.repairAttempts,
+      },
+    });
   } catch (err) {
     console.error("Error creating RFP from text:", err);
     res.status(500).json({ error: "Failed to create RFP from text" });
   }
 });
 
+// Buyer confirms low-confidence AI fields after checking them
+router.post("/rfps/:rfpId/fields/confirm", async (req, res) => {
+  try {
+    const { rfpId } = req.params;
+    const { fields } = req.body;
+
+    if (!Array.isArray(fields) || fields.length === 0) {
+      return res.status(400).json({ error: "fields must be a non-empty array" });
+    }
+
+    const rfp = await prisma.rfp.findFirst({ where: { id: rfpId, organizationId: orgOf(req) } });
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    const updated = await prisma.$transaction(async tx => {
+      const updated = await tx.rfp.update({
+        where: { id: rfpId },
+        data: {
+          lowConfidenceFields: rfp.lowConfidenceFields.filter(
+            f => !fields.includes(f)
+          ),
+        },
+      });
+      await auditRequest(
+        req,
+        {
+          action: "rfp.confirm_fields",
+          entityType: "RFP",
+          entityId: rfp.id,
+          before: { lowConfidenceFields: rfp.lowConfidenceFields },
+          after: { lowConfidenceFields: updated.lowConfidenceFields },
+        },
+        tx
+      );
+      return updated;
+    });
+
+    // stored checklists were written while these fields counted as unknown
+    const proposals = await prisma.proposal.findMany({
+      where: { rfpId, isLatest: true },
+      select: { id: true },
+    });
+    for (const p of proposals) {
+      await refreshProposalCompliance(p.id);
+    }
+
+    res.json(updated);
+  } catch (err) {
+    console.error("Error confirming RFP fields:", err);
+    res.status(500).json({ error: "Failed to confirm RFP fields" });
+  }
+});
+
+router.get("/rfps/:rfpId/criteria", async (req, res) => {
+  try {
+    const { rfpId } = req.params;
+
+    const rfp = await prisma.rfp.findFirst({ where: { id: rfpId, organizationId: orgOf(req) } });
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    res.json({
+      rfpId: rfp.id,
+      isDefault: rfp.scoringCriteria == null,
+      criteria: resolveScoringCriteria(rfp),
+    });
+  } catch (err) {
+    console.error("Error fetching scoring criteria:", err);
+    res.status(500).json({ error: "Failed to fetch scoring criteria" });
+  }
+});
+
+// Body: { criteria: ScoringCriterion[] } or { criteria: null } to reset
+router.put("/rfps/:rfpId/criteria", async (req, res) => {
+  try {
+    const { rfpId } = req.params;
+    const { criteria } = req.body;
+
+    const rfp = await prisma.rfp.findFirst({ where: { id: rfpId, organizationId: orgOf(req) } });
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    if (criteria === null) {
+      await prisma.$transaction(async tx => {
+        await tx.rfp.update({
+          where: { id: rfpId },
+          data: { scoringCriteria: Prisma.DbNull },
+        });
+        await auditRequest(
+          req,
+          {
+            action: "rfp.update_criteria",
+            entityType: "RFP",
+            entityId: rfpId,
+            before: { scoringCriteria: rfp.scoringCriteria },
+            after: { scoringCriteria: null },
+          },
+          tx
+        );
+      });
+      return res.json({
+        rfpId,
+        isDefault: true,
+        criteria: DEFAULT_SCORING_CRITERIA,
+      });
+    }
+
+    const validated = validateScoringCriteria(criteria);
+    if (validated.errors.length > 0) {
+      return res.status(400).json({
+        error: "Invalid criteria",
+        details: validated.errors,
+      });
+    }
+
+    await prisma.$transaction(async tx => {
+      await tx.rfp.update({
+        where: { id: rfpId },
+        data: { scoringCriteria: validated.criteria as any },
+      });
+      await auditRequest(
+        req,
+        {
+          action: "rfp.update_criteria",
+          entityType: "RFP",
+          entityId: rfpId,
+          before: { scoringCriteria: rfp.scoringCriteria },
+          after: { scoringCriteria: validated.criteria },
+        },
+        tx
+      );
+    });
+
+    res.json({ rfpId, isDefault: false, criteria: validated.criteria });
+  } catch (err) {
+    console.error("Error updating scoring criteria:", err);
+    res.status(500).json({ error: "Failed to update scoring criteria" });
+  }
+});
+
+// Body: { vendorIds, budget? } — budget ("show" | "hide", default hide)
+// as for the RFP document
+router.post("/rfps/:rfpId/send", async (req, res) => {
+  try {
+    const { rfpId } = req.params;
+    const { vendorIds, budget = "hide" } = req.body;
+
+    if (!Array.isArray(vendorIds) || vendorIds.length === 0) {
+      return res
+        .status(400)
+        .json({ error: "vendorIds must be a non-empty array" });
+    }
+    if (!BUDGET_VISIBILITIES.includes(budget)) {
+      return res.status(400).json({
+        error: `budget must be one of ${BUDGET_VISIBILITIES.join(", ")}`,
+      });
+    }
+
+    const rfp = await prisma.rfp.findFirst({ where: { id: rfpId, organizationId: orgOf(req) } });
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    // Sending a draft publishes it; closed or decided RFPs can't go out
+    if (rfp.status !== "DRAFT" && rfp.status !== "PUBLISHED") {
+      return res.status(409).json({
+        error: `Cannot send an RFP that is ${rfp.status}`,
+      });
+    }
+
+    const { vendors, missing, archived } = await resolveVendorsToInvite(
+      rfp.organizationId,
+      vendorIds
+    );
+    if (missing.length > 0) {
+      return res
+        .status(404)
+        .json({ error: "Some vendors were not found", vendorIds: missing });
+    }
+    if (archived.length > 0) {
+      return res
+        .status(409)
+        .json({ error: "Archived vendors can't be invited", vendorIds: archived });
+    }
+
+    const sending = await prisma.$transaction(async tx => {
+      const sending =
+        rfp.status === "DRAFT" ? await transitionRfp(rfp, "PUBLISHED", {}, tx) : rfp;
+      await recordInvitations(sending, vendors, tx);
+      await auditRequest(
+        req,
+        {
+          action: "rfp.send",
+          entityType: "RFP",
+          entityId: sending.id,
+          before: { status: rfp.status },
+          after: { status: sending.status, vendorIds: vendors.map(v => v.id) },
+        },
+        tx
+      );
+      return sending;
+    });
+
+    const { invitations, dispatch: results } = await sendInvitations(
+      sending,
+      vendors,
+      { budget },
+      (tx, dispatch) =>
+        auditRequest(
+          req,
+          {
+            action: "rfp.dispatch",
+            entityType: "RFP",
+            entityId: sending.id,
+            metadata: { dispatch },
+          },
+          tx
+        )
+    );
+
+    res.json({
+      rfpId: sending.id,
+      sent: results.filter(r => r.status === "SENT").length,
+      failed: results.filter(r => r.status === "FAILED").length,
+      results,
+      invitations,
+    });
+  } catch (err) {
+    console.error("Error sending RFP:", err);
+    res.status(500).json({ error: "Failed to send RFP" });
+  }
+});
+
+// Lifecycle move. Body: { status, reason?, submissionDeadline? }.
+// AWARDED goes through POST /rfps/:rfpId/award.
+router.post("/rfps/:rfpId/status", async (req, res) => {
+  try {
+    const { rfpId } = req.params;
+    const { status, reason, submissionDeadline } = req.body;
+
+    if (!RFP_STATUSES.includes(status) || status === "AWARDED") {
+      return res.status(400).json({
+        error: `status must be one of ${RFP_STATUSES.filter(s => s !== "AWARDED").join(", ")}`,
+      });
+    }
+
+    const deadline = parseOptionalDate(submissionDeadline);
+    if (deadline === "invalid") {
+      return res.status(400).json({ error: "submissionDeadline must be a valid date" });
+    }
+
+    const rfp = await prisma.rfp.findFirst({ where: { id: rfpId, organizationId: orgOf(req) } });
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    if (!canTransition(rfp.status, status)) {
+      return res.status(409).json({
+        error: `Cannot move RFP from ${rfp.status} to ${status}`,
+        allowed: allowedTransitions(rfp.status),
+      });
+    }
+
+    const updated = await prisma.$transaction(async tx => {
+      const updated = await transitionRfp(
+        rfp,
+        status,
+        {
+          reason: typeof reason === "string" ? reason : null,
+          submissionDeadline: deadline,
+        },
+        tx
+      );
+      await auditRequest(
+        req,
+        {
+          action: "rfp.status_change",
+          entityType: "RFP",
+          entityId: rfp.id,
+          before: { status: rfp.status, submissionDeadline: rfp.submissionDeadline },
+          after: { status: updated.status, submissionDeadline: updated.submissionDeadline },
+          metadata: typeof reason === "string" ? { reason } : null,
+        },
+        tx
+      );
+      return updated;
+    });
+
+    res.json(updated);
+  } catch (err) {
+    console.error("Error updating RFP status:", err);
+    res.status(500).json({ error: "Failed to update RFP status" });
+  }
+});
+
+// Body: { proposalId, justification }. The award is recorded as made by
+// the signed-in user.
+router.post("/rfps/:rfpId/award", async (req, res) => {
+  try {
+    const { rfpId } = req.params;
+    const { proposalId, justification } = req.body;
+    const awardedBy = req.auth!.email;
+
+    if (!proposalId) {
+      return res.status(400).json({ error: "proposalId is required" });
+    }
+    if (typeof justification !== "string" || !justification.trim()) {
+      return res.status(400).json({ error: "justification is required" });
+    }
+
+    const rfp = await prisma.rfp.findFirst({ where: { id: rfpId, organizationId: orgOf(req) } });
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+    if (!canTransition(rfp.status, "AWARDED")) {
+      return res.status(409).json({
+        error: `Only a CLOSED RFP can be awarded (RFP is ${rfp.status})`,
+      });
+    }
+
+    const proposal = await prisma.proposal.findFirst({
+      where: { id: proposalId, rfp: { organizationId: orgOf(req) } },
+    });
+    if (!proposal || proposal.rfpId !== rfpId) {
+      return res.status(404).json({ error: "Proposal not found for this RFP" });
+    }
+    if (!proposal.isLatest || proposal.reviewStatus === "REJECTED") {
+      return res.status(400).json({
+        error: "Only a vendor's latest, non-rejected proposal can be awarded",
+      });
+    }
+
+    const result = await awardRfp(
+      rfp,
+      {
+        proposalId,
+        vendorId: proposal.vendorId,
+        justification: justification.trim(),
+        awardedBy,
+      },
+      (tx, { award: created, rank }) => {
+        // the award's evidence is the full comparison; it stays on the award
+        const { evidence: _evidence, ...award } = created;
+        return auditRequest(
+          req,
+          {
+            action: "rfp.award",
+            entityType: "RFP",
+            entityId: rfp.id,
+            before: { status: rfp.status },
+            after: { status: "AWARDED", award },
+            metadata: { rank },
+          },
+          tx
+        );
+      }
+    );
+
+    res.status(201).json(result);
+  } catch (err: any) {
+    if (err instanceof AwardConflictError || err.code === "P2002") {
+      return res.status(409).json({ error: "RFP was awarded or changed status meanwhile" });
+    }
+    console.error("Error awarding RFP:", err);
+    res.status(500).json({ error: "Failed to award RFP" });
+  }
+});
+
+router.get("/rfps/:rfpId/award", async (req, res) => {
+  try {
+    const { rfpId } = req.params;
+
+    const award = await prisma.rfpAward.findFirst({
+      where: { rfpId, rfp: { organizationId: orgOf(req) } },
+      include: { proposal: { include: { vendor: true, lineItems: true } } },
+    });
+
+    if (!award) {
+      return res.status(404).json({ error: "RFP has not been awarded" });
+    }
+
+    res.json(award);
+  } catch (err) {
+    console.error("Error fetching RFP award:", err);
+    res.status(500).json({ error: "Failed to fetch RFP award" });
+  }
+});
+
+// Vendor-ready RFP document (DOCX) from the structured spec. The budget
+// amount is left out (the document says it isn't disclosed) unless
+// ?budget=show.
+router.get("/rfps/:rfpId/exports/rfp.docx", async (req, res) => {
+  try {
+    const { rfpId } = req.params;
+
+    const budget = (req.query.budget ?? "hide") as BudgetVisibility;
+    if (!BUDGET_VISIBILITIES.includes(budget)) {
+      return res.status(400).json({
+        error: `budget must be one of ${BUDGET_VISIBILITIES.join(", ")}`,
+      });
+    }
+
+    const rfp = await prisma.rfp.findFirst({
+      where: { id: rfpId, organizationId: orgOf(req) },
+      include: { organization: true },
+    });
+    if (!rfp) {
+      return res.status(404).json({ error: "RFP not found" });
+    }
+
+    const document = await buildRfpDocument(rfp, {
+      budget,
+      organizationName: rfp.organization.name,
+    });
+
+    res.setHeader("Content-Type", DOCX_CONTENT_TYPE);
+    res.setHeader("Content-Disposition", `attachment; filename="${fileSlug(rfp.title)}.docx"`);
+    res.send(document);
+  } catch (err) {
+    console.error("Error exporting RFP document:", err);
+    res.status(500).json({ error: "Failed to export RFP document" });
+  }
+});
+
 export default router;
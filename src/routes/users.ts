@@ -0,0 +1,221 @@
+import { Router } from "express";
+import { UserRole } from ".prisma/client";
+import prisma from "../lib/prisma";
+import { USER_ROLES, hashPassword, orgOf, requireRole } from "../auth";
+import { auditRequest } from "../audit";
+import { extractEmailAddress } from "../utils/email";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const router = Router();
+
+// Users and organization settings are admin-only, reads included
+router.use(["/users", "/organization"], requireRole("ADMIN"));
+
+router.get("/users", async (req, res) => {
+  try {
+    const users = await prisma.user.findMany({
+      where: { organizationId: orgOf(req) },
+      omit: { passwordHash: true },
+      orderBy: { createdAt: "asc" },
+    });
+    res.json(users);
+  } catch (err) {
+    console.error("Error fetching users:", err);
+    res.status(500).json({ error: "Failed to fetch users" });
+  }
+});
+
+// Body: { email, password, name?, role }
+router.post("/users", async (req, res) => {
+  try {
+    const email = extractEmailAddress(req.body.email);
+    const { password, name, role } = req.body;
+
+    if (!email || typeof password !== "string") {
+      return res.status(400).json({ error: "email and password are required" });
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        error: `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      });
+    }
+    if (!USER_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of ${USER_ROLES.join(", ")}` });
+    }
+
+    const passwordHash = await hashPassword(password);
+    const user = await prisma.$transaction(async tx => {
+      const user = await tx.user.create({
+        data: {
+          organizationId: orgOf(req),
+          email,
+          name: name ?? null,
+          passwordHash,
+          role: role as UserRole,
+        },
+        omit: { passwordHash: true },
+      });
+      await auditRequest(
+        req,
+        {
+          action: "user.create",
+          entityType: "USER",
+          entityId: user.id,
+          after: user,
+        },
+        tx
+      );
+      return user;
+    });
+
+    res.status(201).json(user);
+  } catch (err: any) {
+    console.error("Error creating user:", err);
+
+    if (err.code === "P2002") {
+      return res.status(409).json({ error: "A user with this email already exists" });
+    }
+
+    res.status(500).json({ error: "Failed to create user" });
+  }
+});
+
+// Body: any of { name, role, password, disabled }. Disabling a user also
+// invalidates their tokens.
+router.patch("/users/:id", async (req, res) => {
+  try {
+    const { name, role, password, disabled } = req.body;
+
+    const user = await prisma.user.findFirst({
+      where: { id: req.params.id, organizationId: orgOf(req) },
+    });
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    if (role !== undefined && !USER_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of ${USER_ROLES.join(", ")}` });
+    }
+    if (password !== undefined && (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH)) {
+      return res.status(400).json({
+        error: `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      });
+    }
+    if (disabled !== undefined && typeof disabled !== "boolean") {
+      return res.status(400).json({ error: "disabled must be a boolean" });
+    }
+    // an organization must keep an admin who can get back in
+    if (user.id === req.auth!.userId && ((role && role !== "ADMIN") || disabled)) {
+      return res
+        .status(409)
+        .json({ error: "You can't demote or disable yourself" });
+    }
+
+    const passwordHash = password !== undefined ? await hashPassword(password) : undefined;
+    const updated = await prisma.$transaction(async tx => {
+      const updated = await tx.user.update({
+        where: { id: user.id },
+        data: {
+          ...(name !== undefined ? { name } : {}),
+          ...(role !== undefined ? { role } : {}),
+          ...(passwordHash !== undefined ? { passwordHash } : {}),
+          ...(disabled !== undefined ? { disabledAt: disabled ? new Date() : null } : {}),
+        },
+        omit: { passwordHash: true },
+      });
+
+      if (disabled || password !== undefined) {
+        await tx.apiToken.updateMany({
+          where: { userId: user.id, revokedAt: null },
+          data: { revokedAt: new Date() },
+        });
+      }
+      await auditRequest(
+        req,
+        {
+          action: "user.update",
+          entityType: "USER",
+          entityId: user.id,
+          before: user,
+          after: updated,
+          metadata: password !== undefined ? { passwordChanged: true } : null,
+        },
+        tx
+      );
+      return updated;
+    });
+
+    res.json(updated);
+  } catch (err) {
+    console.error("Error updating user:", err);
+    res.status(500).json({ error: "Failed to update user" });
+  }
+});
+
+router.get("/organization", async (req, res) => {
+  try {
+    const organization = await prisma.organization.findUniqueOrThrow({
+      where: { id: orgOf(req) },
+    });
+    res.json(organization);
+  } catch (err) {
+    console.error("Error fetching organization:", err);
+    res.status(500).json({ error: "Failed to fetch organization" });
+  }
+});
+
+// Body: any of { name, inboundEmail } — inboundEmail is where vendors
+// reply and how the email webhook recognises this organization's mail
+router.patch("/organization", async (req, res) => {
+  try {
+    const { name, inboundEmail } = req.body;
+
+    if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+      return res.status(400).json({ error: "name must be a non-empty string" });
+    }
+    const address = inboundEmail ? extractEmailAddress(inboundEmail) : null;
+    if (inboundEmail !== undefined && inboundEmail !== null && !address) {
+      return res.status(400).json({ error: "inboundEmail must be an email address" });
+    }
+
+    const before = await prisma.organization.findUniqueOrThrow({
+      where: { id: orgOf(req) },
+    });
+    const organization = await prisma.$transaction(async tx => {
+      const organization = await tx.organization.update({
+        where: { id: orgOf(req) },
+        data: {
+          ...(name !== undefined ? { name: name.trim() } : {}),
+          ...(inboundEmail !== undefined ? { inboundEmail: address } : {}),
+        },
+      });
+      await auditRequest(
+        req,
+        {
+          action: "organization.update",
+          entityType: "ORGANIZATION",
+          entityId: organization.id,
+          before,
+          after: organization,
+        },
+        tx
+      );
+      return organization;
+    });
+
+    res.json(organization);
+  } catch (err: any) {
+    console.error("Error updating organization:", err);
+
+    if (err.code === "P2002") {
+      return res
+        .status(409)
+        .json({ error: "Another organization already uses this inbound address" });
+    }
+
+    res.status(500).json({ error: "Failed to update organization" });
+  }
+});
+
+export default router;
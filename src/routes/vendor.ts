@@ -1,11 +1,53 @@
-import { Router } from "express";
+import express, { Router } from "express";
 import prisma from "../lib/prisma";
+import { orgOf } from "../auth";
+import { auditRequest } from "../audit";
+import { computeVendorScorecard } from "../vendorScorecard";
+import { extractEmailAddress, isEmailAddress } from "../utils/email";
+import {
+  createVendor,
+  findDuplicateVendors,
+  mergeVendors,
+  normalizeTags,
+  updateVendor,
+} from "../vendors";
+import {
+  VENDOR_CSV_FIELDS,
+  VendorCsvMapping,
+  exportVendorsCsv,
+  importVendorsCsv,
+} from "../vendorCsv";
 
 const router = Router();
 
+// JSON is parsed app-wide; the import also takes a bare text/csv body
+router.use(
+  "/vendors/import",
+  express.text({ type: ["text/csv", "text/plain"], limit: process.env.VENDOR_IMPORT_LIMIT || "5mb" })
+);
+
+// ?tag= filters by tag, ?q= searches name / contact emails,
+// ?includeArchived=true lists archived vendors too
 router.get("/vendors", async (req, res) => {
   try {
-    const vendors = await prisma.vendor.findMany();
+    const tag = typeof req.query.tag === "string" ? req.query.tag.trim().toLowerCase() : "";
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+
+    const vendors = await prisma.vendor.findMany({
+      where: {
+        organizationId: orgOf(req),
+        ...(req.query.includeArchived === "true" ? {} : { archivedAt: null }),
+        ...(tag ? { tags: { has: tag } } : {}),
+        ...(q
+          ? {
+              OR: [
+                { name: { contains: q, mode: "insensitive" } },
+                { contacts: { some: { email: { contains: q.toLowerCase() } } } },
+              ],
+            }
+          : {}),
+      },
+    });
     res.json(vendors);
   } catch (err) {
     console.error("Error fetching vendors:", err);
@@ -15,18 +57,45 @@ router.get("/vendors", async (req, res) => {
 
 router.post("/vendors", async (req, res) => {
   try {
-    const { name, email, contactPerson, notes } = req.body;
+    const { name, email, contactPerson, notes, tags } = req.body;
     if (!name || !email) {
       return res.status(400).json({ error: "Name and email are required" });
     }
+    if (typeof name !== "string" || typeof email !== "string") {
+      return res.status(400).json({ error: "name and email must be strings" });
+    }
+    if (!isEmailAddress(extractEmailAddress(email))) {
+      return res.status(400).json({ error: "email must be a valid email address" });
+    }
 
-    const newVendor = await prisma.vendor.create({
-      data: {
-        name,
-        email,
-        contactPerson: contactPerson ?? null,
-        notes: notes ?? null,
-      },
+    const normalizedTags = tags === undefined ? [] : normalizeTags(tags);
+    if (!normalizedTags) {
+      return res.status(400).json({ error: "tags must be an array of strings" });
+    }
+
+    const newVendor = await prisma.$transaction(async tx => {
+      const newVendor = await createVendor(
+        orgOf(req),
+        {
+          name,
+          email,
+          contactPerson,
+          notes,
+          tags: normalizedTags,
+        },
+        tx
+      );
+      await auditRequest(
+        req,
+        {
+          action: "vendor.create",
+          entityType: "VENDOR",
+          entityId: newVendor.id,
+          after: newVendor,
+        },
+        tx
+      );
+      return newVendor;
     });
 
     res.status(201).json(newVendor);
@@ -43,4 +112,419 @@ router.post("/vendors", async (req, res) => {
   }
 });
 
+// Body: { csv, mapping?: { name: "Company", email: "E-mail", ... }, dryRun? }
+// or the CSV itself as text/csv with ?dryRun=true. Rows are matched to
+// existing vendors on email and updated; the rest are created.
+router.post("/vendors/import", async (req, res) => {
+  try {
+    const isText = typeof req.body === "string";
+    const csv = isText ? req.body : req.body?.csv;
+    const mapping = isText ? {} : req.body?.mapping ?? {};
+    const dryRun = isText ? req.query.dryRun === "true" : req.body?.dryRun === true;
+
+    if (typeof csv !== "string" || !csv.trim()) {
+      return res.status(400).json({ error: "csv is required" });
+    }
+    if (
+      typeof mapping !== "object" ||
+      Array.isArray(mapping) ||
+      Object.entries(mapping).some(
+        ([field, header]) =>
+          !(VENDOR_CSV_FIELDS as readonly string[]).includes(field) || typeof header !== "string"
+      )
+    ) {
+      return res.status(400).json({
+        error: `mapping must map ${VENDOR_CSV_FIELDS.join(", ")} to CSV header names`,
+      });
+    }
+
+    const result = await importVendorsCsv(orgOf(req), csv, {
+      mapping: mapping as VendorCsvMapping,
+      dryRun,
+      audit: (tx, row) =>
+        auditRequest(
+          req,
+          {
+            action: `vendor.import_${row.action}`,
+            entityType: "VENDOR",
+            entityId: row.vendorId!,
+            metadata: { row: row.row, email: row.email },
+          },
+          tx
+        ),
+    });
+
+    res.status(dryRun ? 200 : 201).json(result);
+  } catch (err) {
+    console.error("Error importing vendors:", err);
+    res.status(500).json({ error: "Failed to import vendors" });
+  }
+});
+
+// Same columns the import reads. ?includeArchived=true adds archived ones.
+router.get("/vendors/export", async (req, res) => {
+  try {
+    const csv = await exportVendorsCsv(orgOf(req), {
+      includeArchived: req.query.includeArchived === "true",
+    });
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", 'attachment; filename="vendors.csv"');
+    res.send(csv);
+  } catch (err) {
+    console.error("Error exporting vendors:", err);
+    res.status(500).json({ error: "Failed to export vendors" });
+  }
+});
+
+// Likely duplicates: shared email domain and/or similar names
+router.get("/vendors/duplicates", async (req, res) => {
+  try {
+    res.json(await findDuplicateVendors(orgOf(req)));
+  } catch (err) {
+    console.error("Error finding duplicate vendors:", err);
+    res.status(500).json({ error: "Failed to find duplicate vendors" });
+  }
+});
+
+router.get("/vendors/:id", async (req, res) => {
+  try {
+    const vendor = await prisma.vendor.findFirst({
+      where: { id: req.params.id, organizationId: orgOf(req) },
+      include: { contacts: { orderBy: { createdAt: "asc" } } },
+    });
+    if (!vendor) {
+      return res.status(404).json({ error: "Vendor not found" });
+    }
+
+    res.json(vendor);
+  } catch (err) {
+    console.error("Error fetching vendor:", err);
+    res.status(500).json({ error: "Failed to fetch vendor" });
+  }
+});
+
+// Body: any of { name, email, contactPerson, notes, tags }
+router.patch("/vendors/:id", async (req, res) => {
+  try {
+    const vendor = await prisma.vendor.findFirst({
+      where: { id: req.params.id, organizationId: orgOf(req) },
+    });
+    if (!vendor) {
+      return res.status(404).json({ error: "Vendor not found" });
+    }
+
+    const { name, email, contactPerson, notes, tags } = req.body;
+    if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+      return res.status(400).json({ error: "name must be a non-empty string" });
+    }
+    if (
+      email !== undefined &&
+      (typeof email !== "string" || !isEmailAddress(extractEmailAddress(email)))
+    ) {
+      return res.status(400).json({ error: "email must be a valid email address" });
+    }
+
+    const normalizedTags = tags === undefined ? undefined : normalizeTags(tags);
+    if (normalizedTags === null) {
+      return res.status(400).json({ error: "tags must be an array of strings" });
+    }
+
+    const updated = await updateVendor(
+      vendor,
+      {
+        ...(name !== undefined ? { name: name.trim() } : {}),
+        ...(email !== undefined ? { email } : {}),
+        ...(contactPerson !== undefined ? { contactPerson } : {}),
+        ...(notes !== undefined ? { notes } : {}),
+        ...(normalizedTags ? { tags: normalizedTags } : {}),
+      },
+      (tx, updated) =>
+        auditRequest(
+          req,
+          {
+            action: "vendor.update",
+            entityType: "VENDOR",
+            entityId: vendor.id,
+            before: vendor,
+            after: updated,
+          },
+          tx
+        )
+    );
+
+    res.json(updated);
+  } catch (err: any) {
+    console.error("Error updating vendor:", err);
+
+    if (err.code === "P2002") {
+      return res
+        .status(409)
+        .json({ error: "Another vendor already uses this email" });
+    }
+
+    res.status(500).json({ error: "Failed to update vendor" });
+  }
+});
+
+// Archived vendors keep their history but can't be invited to RFPs
+router.post("/vendors/:id/archive", async (req, res) => {
+  try {
+    const vendor = await prisma.vendor.findFirst({
+      where: { id: req.params.id, organizationId: orgOf(req) },
+    });
+    if (!vendor) {
+      return res.status(404).json({ error: "Vendor not found" });
+    }
+
+    const updated = await prisma.$transaction(async tx => {
+      const updated = await tx.vendor.update({
+        where: { id: vendor.id },
+        data: { archivedAt: vendor.archivedAt ?? new Date() },
+      });
+      await auditRequest(
+        req,
+        {
+          action: "vendor.archive",
+          entityType: "VENDOR",
+          entityId: vendor.id,
+          before: { archivedAt: vendor.archivedAt },
+          after: { archivedAt: updated.archivedAt },
+        },
+        tx
+      );
+      return updated;
+    });
+
+    res.json(updated);
+  } catch (err) {
+    console.error("Error archiving vendor:", err);
+    res.status(500).json({ error: "Failed to archive vendor" });
+  }
+});
+
+router.post("/vendors/:id/restore", async (req, res) => {
+  try {
+    const vendor = await prisma.vendor.findFirst({
+      where: { id: req.params.id, organizationId: orgOf(req) },
+    });
+    if (!vendor) {
+      return res.status(404).json({ error: "Vendor not found" });
+    }
+    if (vendor.mergedIntoId) {
+      return res.status(409).json({
+        error: "Vendor was merged into another vendor",
+        mergedIntoId: vendor.mergedIntoId,
+      });
+    }
+
+    const updated = await prisma.$transaction(async tx => {
+      const updated = await tx.vendor.update({
+        where: { id: vendor.id },
+        data: { archivedAt: null },
+      });
+      await auditRequest(
+        req,
+        {
+          action: "vendor.restore",
+          entityType: "VENDOR",
+          entityId: vendor.id,
+          before: { archivedAt: vendor.archivedAt },
+          after: { archivedAt: null },
+        },
+        tx
+      );
+      return updated;
+    });
+
+    res.json(updated);
+  } catch (err) {
+    console.error("Error restoring vendor:", err);
+    res.status(500).json({ error: "Failed to restore vendor" });
+  }
+});
+
+/* ---------------------------------------------------
+ * Contacts
+ * --------------------------------------------------*/
+
+// Body: { email, name?, role? } — mail from this address is matched to
+// the vendor
+router.post("/vendors/:id/contacts", async (req, res) => {
+  try {
+    const { email, name, role } = req.body;
+    const address = typeof email === "string" ? extractEmailAddress(email) : null;
+    if (!address) {
+      return res.status(400).json({ error: "email is required" });
+    }
+    if (!isEmailAddress(address)) {
+      return res.status(400).json({ error: "email must be a valid email address" });
+    }
+
+    const vendor = await prisma.vendor.findFirst({
+      where: { id: req.params.id, organizationId: orgOf(req) },
+    });
+    if (!vendor) {
+      return res.status(404).json({ error: "Vendor not found" });
+    }
+
+    const contact = await prisma.$transaction(async tx => {
+      const contact = await tx.vendorContact.create({
+        data: {
+          organizationId: vendor.organizationId,
+          vendorId: vendor.id,
+          email: address,
+          name: name ?? null,
+          role: role ?? null,
+        },
+      });
+      await auditRequest(
+        req,
+        {
+          action: "vendor.add_contact",
+          entityType: "VENDOR",
+          entityId: vendor.id,
+          after: contact,
+        },
+        tx
+      );
+      return contact;
+    });
+
+    res.status(201).json(contact);
+  } catch (err: any) {
+    console.error("Error adding vendor contact:", err);
+
+    if (err.code === "P2002") {
+      return res
+        .status(409)
+        .json({ error: "This email already belongs to a vendor contact" });
+    }
+
+    res.status(500).json({ error: "Failed to add vendor contact" });
+  }
+});
+
+router.delete("/vendors/:id/contacts/:contactId", async (req, res) => {
+  try {
+    const { id, contactId } = req.params;
+
+    const contact = await prisma.vendorContact.findFirst({
+      where: { id: contactId, vendorId: id, organizationId: orgOf(req) },
+    });
+    if (!contact) {
+      return res.status(404).json({ error: "Contact not found" });
+    }
+    if (contact.isPrimary) {
+      return res.status(409).json({
+        error: "The primary contact follows the vendor's email; change that instead",
+      });
+    }
+
+    await prisma.$transaction(async tx => {
+      await tx.vendorContact.delete({ where: { id: contact.id } });
+      await auditRequest(
+        req,
+        {
+          action: "vendor.remove_contact",
+          entityType: "VENDOR",
+          entityId: contact.vendorId,
+          before: contact,
+        },
+        tx
+      );
+    });
+
+    res.status(204).send();
+  } catch (err) {
+    console.error("Error removing vendor contact:", err);
+    res.status(500).json({ error: "Failed to remove vendor contact" });
+  }
+});
+
+/* ---------------------------------------------------
+ * Merge
+ * --------------------------------------------------*/
+
+// Body: { duplicateId } — folds the duplicate into this vendor and
+// archives it
+router.post("/vendors/:id/merge", async (req, res) => {
+  try {
+    const { duplicateId } = req.body;
+    if (!duplicateId || duplicateId === req.params.id) {
+      return res
+        .status(400)
+        .json({ error: "duplicateId must be another vendor's id" });
+    }
+
+    const [survivor, duplicate] = await Promise.all([
+      prisma.vendor.findFirst({ where: { id: req.params.id, organizationId: orgOf(req) } }),
+      prisma.vendor.findFirst({ where: { id: duplicateId, organizationId: orgOf(req) } }),
+    ]);
+    if (!survivor || !duplicate) {
+      return res.status(404).json({ error: "Vendor not found" });
+    }
+    if (survivor.mergedIntoId || duplicate.mergedIntoId) {
+      return res
+        .status(409)
+        .json({ error: "Vendor has already been merged into another vendor" });
+    }
+    if (survivor.archivedAt) {
+      return res
+        .status(409)
+        .json({ error: "Restore the vendor before merging into it" });
+    }
+
+    const merged = await mergeVendors(survivor, duplicate, async (tx, merged) => {
+      await auditRequest(
+        req,
+        {
+          action: "vendor.merge",
+          entityType: "VENDOR",
+          entityId: survivor.id,
+          before: survivor,
+          after: merged,
+          metadata: { duplicateId: duplicate.id },
+        },
+        tx
+      );
+      await auditRequest(
+        req,
+        {
+          action: "vendor.merged_into",
+          entityType: "VENDOR",
+          entityId: duplicate.id,
+          before: duplicate,
+          metadata: { survivorId: survivor.id },
+        },
+        tx
+      );
+    });
+
+    res.json({ vendor: merged, mergedVendorId: duplicate.id });
+  } catch (err) {
+    console.error("Error merging vendors:", err);
+    res.status(500).json({ error: "Failed to merge vendors" });
+  }
+});
+
+// Performance across past RFPs: response rate / time, wins, price vs the
+// winner, term changes after quoting
+router.get("/vendors/:id/scorecard", async (req, res) => {
+  try {
+    const vendor = await prisma.vendor.findFirst({
+      where: { id: req.params.id, organizationId: orgOf(req) },
+    });
+    const scorecard = vendor && (await computeVendorScorecard(vendor.id));
+    if (!scorecard) {
+      return res.status(404).json({ error: "Vendor not found" });
+    }
+
+    res.json(scorecard);
+  } catch (err) {
+    console.error("Error computing vendor scorecard:", err);
+    res.status(500).json({ error: "Failed to compute vendor scorecard" });
+  }
+});
+
 export default router;
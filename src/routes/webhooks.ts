@@ -1,148 +1,236 @@
-import { Router } from "express";
+import express, { NextFunction, Request, Response, Router } from "express";
+import multer from "multer";
 import prisma from "../lib/prisma";
-import { generateProposalFromText } from "../ai";
+import { enqueueEmailParse } from "../emailIngestion";
+import { storeAttachments } from "../attachments";
+import { InboundEmail } from "../inbound/adapter";
 import {
-  extractEmailAddress,
-  extractRfpSelectorFromSubject,
-} from "../utils/email";
+  defaultInboundProvider,
+  getInboundAdapter,
+  inboundProviderNames,
+} from "../inbound/registry";
+import {
+  inboundFollowUp,
+  matchInboundEmail,
+  quarantineOrganization,
+  refreshTriageSuggestions,
+  resolveInboundOrganization,
+} from "../emailTriage";
+import { isUninvitedVendor } from "../rfpInvitations";
+import { recordAudit, webhookActor } from "../audit";
+
+const BODY_LIMIT = process.env.INBOUND_BODY_LIMIT || "25mb";
+// Multipart uploads are held in memory, so every part is capped
+const MULTIPART_LIMITS: multer.Options["limits"] = {
+  fileSize: Number(process.env.MAX_ATTACHMENT_BYTES || 10 * 1024 * 1024),
+  files: Number(process.env.INBOUND_MAX_FILES || 20),
+  fields: Number(process.env.INBOUND_MAX_FIELDS || 100),
+};
 
 const router = Router();
 
-router.post("/webhooks/email", async (req, res) => {
-  try {
-    const body = (req.body || {}) as any;
-    console.log("CloudMailin webhook payload:", body);
-
-    const headers = body.headers || {};
-    const envelope = body.envelope || {};
-
-    const fromRaw = envelope.from || headers.from || null;
-    const toRaw = envelope.to || headers.to || null;
+const multipart = multer({ storage: multer.memoryStorage(), limits: MULTIPART_LIMITS }).any();
 
-    const fromEmail = extractEmailAddress(fromRaw);
-    const toEmail = extractEmailAddress(toRaw);
-
-    const subject: string | null = headers.subject || null;
-    const text: string | null = body.plain || null;
-    const html: string | null = body.html || null;
-    const messageId: string | null =
-      headers.message_id || headers["message-id"] || null;
+// multer reports an exceeded limit as a LIMIT_* error
+function parseMultipart(req: Request, res: Response, next: NextFunction) {
+  multipart(req, res, err => {
+    if (err instanceof multer.MulterError && err.code.startsWith("LIMIT_")) {
+      return res.status(413).json({ error: `Inbound email rejected: ${err.message}` });
+    }
+    next(err);
+  });
+}
+
+// JSON is parsed app-wide; providers also post urlencoded / multipart
+// forms (SendGrid, Mailgun) or a raw RFC 822 message
+router.use(
+  "/webhooks/email",
+  express.urlencoded({ extended: false, limit: BODY_LIMIT }),
+  express.raw({ type: ["message/rfc822", "application/octet-stream"], limit: BODY_LIMIT }),
+  parseMultipart
+);
+
+// Response for an accepted delivery. A redelivery of the same Message-ID
+// gets the same ids back, plus the proposal if parsing has finished.
+async function deliveryResponse(emailId: string, duplicate: boolean) {
+  const stored = await prisma.emailMessage.findUniqueOrThrow({
+    where: { id: emailId },
+    include: {
+      attachments: { omit: { content: true } },
+      jobs: { orderBy: { createdAt: "asc" }, take: 1 },
+      proposal: true,
+    },
+  });
+  const { attachments, jobs, proposal, ...email } = stored;
+
+  const message = duplicate
+    ? "Duplicate delivery; email was already received"
+    : email.status === "UNMATCHED"
+    ? "Email stored for triage; no vendor/RFP match"
+    : email.status === "FAILED"
+    ? "Email stored but has nothing to parse"
+    : "Email accepted for parsing";
+
+  return {
+    message,
+    duplicate,
+    unmatched: email.status === "UNMATCHED",
+    emailId,
+    jobId: jobs[0]?.id ?? null,
+    email,
+    attachments,
+    proposal,
+  };
+}
+
+router.post("/webhooks/email{/:provider}", async (req, res) => {
+  try {
+    const providerName = req.params.provider ?? defaultInboundProvider();
+    const adapter = getInboundAdapter(providerName);
 
-    if (!fromEmail || !text) {
-      return res.status(400).json({
-        error: "Missing required 'from' or 'text' fields (CloudMailin format).",
+    if (!adapter) {
+      return res.status(404).json({
+        error: `Unknown inbound email provider: ${providerName}`,
+        providers: inboundProviderNames(),
       });
     }
 
-    const vendor = await prisma.vendor.findUnique({
-      where: { email: fromEmail },
-    });
+    const verified = adapter.verify(req);
+    if (!verified.ok) {
+      console.error(`Rejected ${adapter.name} webhook:`, verified.reason);
+      return res.status(401).json({ error: "Webhook verification failed" });
+    }
 
-    if (!vendor) {
+    let inbound: InboundEmail;
+    try {
+      inbound = await adapter.parse(req);
+    } catch (err: any) {
       return res.status(400).json({
-        error: "No vendor found with this 'from' email",
-        from: fromEmail,
+        error: `Could not read ${adapter.name} inbound email payload`,
+        details: String(err?.message ?? err),
       });
     }
 
-    const { rfpId, keyword } = extractRfpSelectorFromSubject(subject);
+    console.log(`Inbound email via ${adapter.name}:`, {
+      from: inbound.from,
+      to: inbound.to,
+      subject: inbound.subject,
+      messageId: inbound.messageId,
+      attachments: inbound.attachments.length,
+    });
 
-    let rfp = null;
+    const {
+      from: fromEmail,
+      to: toEmail,
+      subject,
+      text,
+      html,
+      attachments,
+      messageId,
+      inReplyTo,
+      references,
+    } = inbound;
+
+    // Every delivery is kept. Anything we can't link to a vendor and RFP
+    // goes to the triage inbox (status UNMATCHED) instead of being dropped;
+    // mail we can't place in an organization goes to the quarantine one's.
+    const organization = await resolveInboundOrganization(inbound);
+    const quarantine = organization ? null : await quarantineOrganization();
+    if (!organization && !quarantine) {
+      console.error(`No organization or quarantine for inbound email to ${toEmail ?? "(none)"}`);
+    }
+    const organizationId = organization?.id ?? quarantine?.id ?? null;
 
-    if (rfpId) {
-      rfp = await prisma.rfp.findUnique({
-        where: { id: rfpId },
+    // Providers retry on timeouts; the same message must not be stored or
+    // parsed twice
+    if (messageId) {
+      const existing = await prisma.emailMessage.findFirst({
+        where: { organizationId, messageId },
       });
-
-      if (!rfp) {
-        return res.status(404).json({
-          error: "RFP not found for provided RFPID in subject",
-          subject,
-          rfpIdFromSubject: rfpId,
-        });
+      if (existing) {
+        return res.status(200).json(await deliveryResponse(existing.id, true));
       }
     }
 
-    if (!rfp && keyword) {
-      rfp = await prisma.rfp.findFirst({
-        where: {
-          title: {
-            contains: keyword,
-            mode: "insensitive",
+    const { vendor, rfp, unmatchedReason } = organization
+      ? await matchInboundEmail(organization.id, inbound)
+      : {
+          vendor: null,
+          rfp: null,
+          unmatchedReason: `No organization for recipient ${toEmail ?? "(none)"}`,
+        };
+    // Quotes often arrive as an attachment with an empty body
+    const hasContent = !!text || attachments.length > 0;
+
+    const uninvitedVendor = !!vendor && !!rfp && (await isUninvitedVendor(rfp.id, vendor.id));
+    const followUp = inboundFollowUp(organization, unmatchedReason, hasContent);
+
+    // The email, its attachments, the audit entry and the parse job are
+    // stored together: a delivery is either kept whole or retried
+    let email;
+    try {
+      email = await prisma.$transaction(async tx => {
+        const email = await tx.emailMessage.create({
+          data: {
+            organizationId,
+            from: fromEmail ?? "",
+            to: toEmail,
+            subject,
+            bodyText: text,
+            bodyHtml: html,
+            messageId,
+            inReplyTo,
+            references,
+            receivedAt: new Date(),
+            status: unmatchedReason ? "UNMATCHED" : hasContent ? "PENDING" : "FAILED",
+            error: hasContent ? null : "Email has no text body or attachments",
+            unmatchedReason,
+            rfpId: rfp?.id ?? null,
+            vendorId: vendor?.id ?? null,
+            uninvitedVendor,
+            inboundProvider: adapter.name,
+            verification: verified.method,
+            spfResult: inbound.spf,
+            dkimResult: inbound.dkim,
+          },
+        });
+        await storeAttachments(email.id, attachments, tx);
+        await recordAudit(
+          {
+            organizationId: email.organizationId,
+            actor: webhookActor(adapter.name),
+            action: "email.receive",
+            entityType: "EMAIL",
+            entityId: email.id,
+            after: email,
+            metadata: { attachments: attachments.length },
           },
-        },
-        orderBy: {
-          createdAt: "desc",
-        },
+          tx
+        );
+        if (followUp === "parse") {
+          // Parsing (attachment extraction + LLM call) happens in the background worker
+          await enqueueEmailParse(email.id, undefined, tx);
+        }
+        return email;
       });
-
-      if (!rfp) {
-        return res.status(404).json({
-          error: "No RFP found matching keyword from subject",
-          subject,
-          keywordFromSubject: keyword,
+    } catch (err: any) {
+      // a concurrent redelivery won the insert
+      if (messageId && err.code === "P2002") {
+        const existing = await prisma.emailMessage.findFirstOrThrow({
+          where: { organizationId, messageId },
         });
+        return res.status(200).json(await deliveryResponse(existing.id, true));
       }
+      throw err;
     }
 
-    if (!rfp) {
-      return res.status(400).json({
-        error:
-          "No RFP reference found in email subject. " +
-          "Please include either 'RFPID:<rfpId>' or 'RFP: <title keyword>' in the subject.",
-        exampleSubjects: [
-          "Laptop Proposal RFPID:cmisghrjt0003peit8md1a9fq",
-          "Laptop Proposal RFP: Laptops Procurement",
-        ],
-        subject,
-      });
+    // Suggestions can be recomputed any time; a failure here shouldn't
+    // lose the delivery
+    if (followUp === "suggest") {
+      await refreshTriageSuggestions(email.id);
     }
 
-    const email = await prisma.emailMessage.create({
-      data: {
-        from: fromEmail,
-        to: toEmail,
-        subject,
-        bodyText: text,
-        bodyHtml: html,
-        messageId,
-        receivedAt: new Date(),
-        status: "PENDING",
-      },
-    });
-
-    const parsed = await generateProposalFromText(text, { rfp, vendor });
-
-    const proposal = await prisma.proposal.create({
-      data: {
-        rfpId: rfp.id,
-        vendorId: vendor.id,
-        totalPrice: parsed.totalPrice,
-        currency: parsed.currency ?? rfp.currency ?? null,
-        deliveryDays: parsed.deliveryDays,
-        warrantyMonths: parsed.warrantyMonths,
-        terms: parsed.terms,
-        notes: parsed.notes,
-        source: "EMAIL",
-        emailId: email.id,
-      },
-      include: {
-        vendor: true,
-        email: true,
-      },
-    });
-
-    await prisma.emailMessage.update({
-      where: { id: email.id },
-      data: { status: "PARSED" },
-    });
-
-    return res.status(200).json({
-      message: "Email parsed successfully",
-      proposal,
-      parsed,
-      email,
-    });
+    return res.status(202).json(await deliveryResponse(email.id, false));
   } catch (err) {
     console.error("Webhook error:", err);
     res.status(500).json({ error: "Failed to process email webhook" });
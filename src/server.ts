@@ -1,7 +1,18 @@
 import app from "./app";
+import { startEmailWorker } from "./emailIngestion";
+import { startReminderScheduler } from "./reminders";
 
 const PORT = process.env.PORT || 4000;
 
 app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
+
+  if (process.env.EMAIL_WORKER_ENABLED !== "false") {
+    startEmailWorker();
+  }
+
+  // opt-in: it emails vendors on its own
+  if (process.env.REMINDER_SCHEDULER_ENABLED === "true") {
+    startReminderScheduler();
+  }
 });
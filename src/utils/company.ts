@@ -0,0 +1,55 @@
+// Shared mailbox domains say nothing about which company sent the mail
+const FREEMAIL_DOMAINS = new Set([
+  "gmail.com", "googlemail.com", "yahoo.com", "outlook.com", "hotmail.com",
+  "live.com", "icloud.com", "aol.com", "proton.me", "protonmail.com",
+  "rediffmail.com", "zoho.com",
+]);
+
+export const COMPANY_SUFFIXES = /\b(inc|ltd|llc|llp|plc|pvt|private|limited|corp|corporation|co|company|gmbh)\b\.?/g;
+
+export function isFreemailDomain(domain: string): boolean {
+  return FREEMAIL_DOMAINS.has(domain);
+}
+
+// "Acme Pvt. Ltd." → "acme"
+export function normalizeCompany(name: string): string {
+  return name.toLowerCase().replace(COMPANY_SUFFIXES, "").replace(/[^a-z0-9]/g, "");
+}
+
+function bigrams(s: string): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < s.length - 1; i++) out.push(s.slice(i, i + 2));
+  return out;
+}
+
+// Dice coefficient on character bigrams, 0–1
+export function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const ab = bigrams(a);
+  const bb = bigrams(b);
+  if (ab.length === 0 || bb.length === 0) return 0;
+  const counts = new Map<string, number>();
+  for (const g of ab) counts.set(g, (counts.get(g) ?? 0) + 1);
+  let overlap = 0;
+  for (const g of bb) {
+    const n = counts.get(g) ?? 0;
+    if (n > 0) {
+      overlap++;
+      counts.set(g, n - 1);
+    }
+  }
+  return (2 * overlap) / (ab.length + bb.length);
+}
+
+export function domainOf(address: string | null | undefined): string | null {
+  const at = address?.lastIndexOf("@") ?? -1;
+  return at === -1 ? null : address!.slice(at + 1).toLowerCase();
+}
+
+// "sales.acme.co.uk" → "acme"
+export function companyLabel(domain: string): string {
+  const parts = domain.split(".");
+  const secondLevel = parts.length > 2 && /^(co|com|net|org|gov|ac)$/.test(parts[parts.length - 2]);
+  return parts[parts.length - (secondLevel ? 3 : 2)] ?? "";
+}
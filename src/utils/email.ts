@@ -5,6 +5,13 @@ export function extractEmailAddress(raw: string | null | undefined): string | nu
   return email.trim().toLowerCase();
 }
 
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+// An address as extractEmailAddress returns it, shaped like user@host.tld
+export function isEmailAddress(address: string | null | undefined): address is string {
+  return !!address && EMAIL_PATTERN.test(address);
+}
+
 export function extractRfpSelectorFromSubject(
   subject: string | null | undefined
 ): { rfpId?: string; keyword?: string } {
@@ -22,3 +29,18 @@ export function extractRfpSelectorFromSubject(
 
   return {};
 }
+
+// Subject for outbound RFP mail. Keeps the RFPID tag so replies
+// ("Re: ...") are routed back by extractRfpSelectorFromSubject.
+export function buildRfpSubject(rfp: { id: string; title: string }): string {
+  return `Request for Proposal: ${rfp.title} [RFPID:${rfp.id}]`;
+}
+
+// "<a@x> <b@y>" (References / In-Reply-To header) -> ["<a@x>", "<b@y>"]
+export function parseMessageIdList(raw: string | string[] | null | undefined): string[] {
+  if (!raw) return [];
+  const joined = Array.isArray(raw) ? raw.join(" ") : raw;
+  const ids = joined.match(/<[^<>\s]+>/g);
+  if (ids) return ids;
+  return joined.split(/\s+/).filter(Boolean);
+}
@@ -0,0 +1,58 @@
+// src/utils/rfpSpec.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { Rfp } from ".prisma/client";
+import { matchRfpItemIndex, specForRfp, validateStructuredSpec } from "./rfpSpec";
+
+function rfpWithSpec(structuredSpec: unknown): Rfp {
+  return {
+    id: "rfp-1",
+    title: "Office chairs",
+    structuredSpec,
+    budget: null,
+    currency: null,
+    paymentTerms: null,
+    minimumWarrantyMonths: null,
+  } as unknown as Rfp;
+}
+
+test("stored items without a name or key specs read as blank", () => {
+  const spec = specForRfp(
+    rfpWithSpec({
+      items: [{ quantity: 5 }, { name: " Chair ", keySpecs: ["mesh", 3] }, null],
+    })
+  );
+
+  assert.deepEqual(spec.items, [
+    { name: "", quantity: 5, keySpecs: [] },
+    { name: "Chair", quantity: 0, keySpecs: ["mesh"] },
+    { name: "", quantity: 0, keySpecs: [] },
+  ]);
+  assert.equal(matchRfpItemIndex(spec.items, "chair"), 1);
+});
+
+test("a manual spec with malformed items is rejected", () => {
+  const { errors } = validateStructuredSpec({
+    items: [{ quantity: 2 }, { name: "Desk", quantity: 0, keySpecs: "oak" }],
+  });
+
+  assert.deepEqual(errors, [
+    "structuredSpec.items[0].name must be a non-empty string",
+    "structuredSpec.items[1].quantity must be a number >= 1",
+    "structuredSpec.items[1].keySpecs must be an array of strings",
+  ]);
+  assert.deepEqual(validateStructuredSpec([]).errors, ["structuredSpec must be an object"]);
+});
+
+test("a valid manual spec is stored with every item complete", () => {
+  const { spec, errors } = validateStructuredSpec({
+    title: "Chairs",
+    items: [{ name: "Chair", quantity: 10 }],
+  });
+
+  assert.deepEqual(errors, []);
+  assert.deepEqual(spec, {
+    title: "Chairs",
+    items: [{ name: "Chair", quantity: 10, keySpecs: [] }],
+  });
+});
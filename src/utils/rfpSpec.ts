@@ -0,0 +1,108 @@
+import { Rfp } from ".prisma/client";
+import { RfpStructuredSpec } from "../ai";
+
+// structuredSpec is free-form JSON (manual RFPs may store {}), so fall back
+// to the RFP columns for anything the spec doesn't carry.
+export function specForRfp(rfp: Rfp): RfpStructuredSpec {
+  const spec = (rfp.structuredSpec ?? {}) as Partial<RfpStructuredSpec>;
+
+  return {
+    title: spec.title || rfp.title,
+    items: Array.isArray(spec.items) ? spec.items.map(normalizeSpecItem) : [],
+    budget: rfp.budget ?? spec.budget ?? null,
+    currency: rfp.currency ?? spec.currency ?? null,
+    deliveryDeadlineDaysFromNow: spec.deliveryDeadlineDaysFromNow ?? null,
+    paymentTerms: rfp.paymentTerms ?? spec.paymentTerms ?? null,
+    minimumWarrantyMonths:
+      rfp.minimumWarrantyMonths ?? spec.minimumWarrantyMonths ?? null,
+  };
+}
+
+type SpecItem = RfpStructuredSpec["items"][number];
+
+// Rows stored before items were validated may lack a name or key specs;
+// read them as blank rather than failing every consumer of the spec.
+function normalizeSpecItem(raw: unknown): SpecItem {
+  const item = (raw && typeof raw === "object" ? raw : {}) as Partial<SpecItem>;
+
+  return {
+    name: typeof item.name === "string" ? item.name.trim() : "",
+    quantity:
+      typeof item.quantity === "number" && Number.isFinite(item.quantity)
+        ? item.quantity
+        : 0,
+    keySpecs: Array.isArray(item.keySpecs)
+      ? item.keySpecs.filter((s): s is string => typeof s === "string")
+      : [],
+  };
+}
+
+// Checks a structuredSpec sent with a manual RFP. Only the items are
+// required to be well-formed; the rest falls back to the RFP columns.
+export function validateStructuredSpec(
+  raw: unknown
+): { spec: Partial<RfpStructuredSpec>; errors: string[] } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { spec: {}, errors: ["structuredSpec must be an object"] };
+  }
+
+  const spec = raw as Partial<RfpStructuredSpec>;
+  if (spec.items === undefined) return { spec, errors: [] };
+  if (!Array.isArray(spec.items)) {
+    return { spec, errors: ["structuredSpec.items must be an array"] };
+  }
+
+  const errors: string[] = [];
+  spec.items.forEach((item: any, i) => {
+    const where = `structuredSpec.items[${i}]`;
+
+    if (!item || typeof item !== "object") {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    if (typeof item.name !== "string" || !item.name.trim()) {
+      errors.push(`${where}.name must be a non-empty string`);
+    }
+    if (typeof item.quantity !== "number" || !Number.isFinite(item.quantity) || item.quantity < 1) {
+      errors.push(`${where}.quantity must be a number >= 1`);
+    }
+    if (
+      item.keySpecs !== undefined &&
+      (!Array.isArray(item.keySpecs) || item.keySpecs.some((s: any) => typeof s !== "string"))
+    ) {
+      errors.push(`${where}.keySpecs must be an array of strings`);
+    }
+  });
+
+  return {
+    spec: errors.length ? spec : { ...spec, items: spec.items.map(normalizeSpecItem) },
+    errors,
+  };
+}
+
+// RFP fields the AI extracted with low confidence and no buyer has
+// confirmed yet (names as in RfpStructuredSpec). Compliance and scoring
+// treat them as unknown until they're confirmed.
+export function unconfirmedRfpFields(rfp: Rfp): Set<string> {
+  return new Set(rfp.lowConfidenceFields ?? []);
+}
+
+// Case-insensitive name match of a vendor's item description to an RFP item.
+// Returns the RFP item index or null when nothing matches unambiguously.
+export function matchRfpItemIndex(
+  items: RfpStructuredSpec["items"],
+  description: string | null | undefined
+): number | null {
+  if (!description) return null;
+  const needle = description.trim().toLowerCase();
+  if (!needle) return null;
+
+  const exact = items.findIndex(i => i.name.trim().toLowerCase() === needle);
+  if (exact !== -1) return exact;
+
+  const partial = items
+    .map((item, idx) => ({ name: item.name.trim().toLowerCase(), idx }))
+    .filter(({ name }) => name && (needle.includes(name) || name.includes(needle)));
+
+  return partial.length === 1 ? partial[0].idx : null;
+}
@@ -0,0 +1,72 @@
+// src/vendorCsv.test.ts
+// Only the file-level checks; matching against stored vendors needs a
+// database.
+import test from "node:test";
+import assert from "node:assert/strict";
+
+// vendorCsv.ts builds the Prisma client on import, which never connects
+// unless queried
+process.env.DATABASE_URL ??= "postgres://localhost/vendor-csv-test";
+
+test("columns are found by their usual names", async () => {
+  const { parseVendorCsv } = await import("./vendorCsv");
+  const csv =
+    "\uFEFFCompany Name,E-mail,Categories,Additional Contacts\n" +
+    'Acme,<sales@acme.example>,"Laptops; laptops; Monitors","ops@acme.example|Ops|Logistics; bad-address"\n';
+
+  const { columns, headerErrors, rows } = parseVendorCsv(csv, {});
+
+  assert.deepEqual(headerErrors, []);
+  assert.deepEqual(columns, { name: 0, email: 1, tags: 2, contacts: 3 });
+  assert.equal(rows[0].row.email, "sales@acme.example");
+  assert.deepEqual(rows[0].row.tags, ["laptops", "monitors"]);
+  assert.deepEqual(rows[0].row.contacts, [
+    { email: "ops@acme.example", name: "Ops", role: "Logistics" },
+  ]);
+  assert.deepEqual(rows[0].errors, ['Invalid contact email "bad-address"']);
+});
+
+test("a mapping names columns the aliases don't know", async () => {
+  const { parseVendorCsv } = await import("./vendorCsv");
+
+  const mapped = parseVendorCsv("Supplier,Inbox\nAcme,sales@acme.example\n", { email: "Inbox" });
+  assert.deepEqual(mapped.headerErrors, []);
+  assert.equal(mapped.rows[0].row.email, "sales@acme.example");
+
+  const unmapped = parseVendorCsv("Supplier,Inbox\nAcme,sales@acme.example\n", {});
+  assert.deepEqual(unmapped.headerErrors, ["No email column found; map one with mapping.email"]);
+
+  const missing = parseVendorCsv("Supplier,Inbox\n", { email: "Mailbox" });
+  assert.deepEqual(missing.headerErrors, [
+    'Mapped column "Mailbox" for email not found',
+    "No email column found; map one with mapping.email",
+  ]);
+});
+
+test("rows repeating an email or lacking a valid one are flagged", async () => {
+  const { parseVendorCsv } = await import("./vendorCsv");
+  const csv = [
+    "name,email",
+    "Acme,sales@acme.example",
+    "Acme again,SALES@acme.example",
+    "Nobody,",
+    "Typo,sales-at-acme",
+  ].join("\n");
+
+  const { rows } = parseVendorCsv(csv, {});
+
+  assert.deepEqual(
+    rows.map(r => r.errors),
+    [[], ["Duplicate of row 1"], ["email is required"], ['Invalid email "sales-at-acme"']]
+  );
+});
+
+test("cells the export escaped as text read back as written", async () => {
+  const { parseVendorCsv } = await import("./vendorCsv");
+  const csv = "name,email,notes\n'=Acme,sales@acme.example,'+1 555 0100\n";
+
+  const { rows } = parseVendorCsv(csv, {});
+
+  assert.equal(rows[0].row.name, "=Acme");
+  assert.equal(rows[0].row.notes, "+1 555 0100");
+});
@@ -0,0 +1,364 @@
+// src/vendorCsv.ts
+import { Prisma, Vendor, VendorContact } from ".prisma/client";
+import prisma from "./lib/prisma";
+import { parseCsv } from "./attachments";
+import { extractEmailAddress, isEmailAddress } from "./utils/email";
+import { createVendor, findVendorByEmail, normalizeTags } from "./vendors";
+import { AuditInTransaction } from "./audit";
+
+// Columns of the export, and what an import expects by default
+export const VENDOR_CSV_FIELDS = [
+  "name",
+  "email",
+  "contactPerson",
+  "notes",
+  "tags",
+  "contacts",
+] as const;
+
+export type VendorCsvField = (typeof VENDOR_CSV_FIELDS)[number];
+
+// field → CSV header, for files whose headers differ from ours
+export type VendorCsvMapping = Partial<Record<VendorCsvField, string>>;
+
+// Headers recognised without a mapping (compared lowercased, without
+// spaces / punctuation)
+const HEADER_ALIASES: Record<VendorCsvField, string[]> = {
+  name: ["name", "vendor", "vendorname", "company", "companyname", "supplier"],
+  email: ["email", "emailaddress", "mail"],
+  contactPerson: ["contactperson", "contact", "contactname"],
+  notes: ["notes", "note", "comments"],
+  tags: ["tags", "categories", "category", "commodities"],
+  contacts: ["contacts", "additionalcontacts"],
+};
+
+// Multi-value cells: "a; b" for tags, "email|name|role; ..." for contacts
+const LIST_SEPARATOR = ";";
+const CONTACT_SEPARATOR = "|";
+
+// Cells a spreadsheet would run as a formula; exported with a leading '
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+type ParsedContact = { email: string; name: string | null; role: string | null };
+
+type VendorCsvRow = {
+  name: string | null;
+  email: string | null;
+  contactPerson: string | null;
+  notes: string | null;
+  tags: string[];
+  contacts: ParsedContact[];
+};
+
+export type VendorImportRowResult = {
+  row: number;             // 1-based, header excluded
+  email: string | null;
+  action: "create" | "update" | "error";
+  vendorId: string | null;
+  errors: string[];
+};
+
+export type VendorImportResult = {
+  dryRun: boolean;
+  columns: Partial<Record<VendorCsvField, number>>;
+  summary: { created: number; updated: number; failed: number };
+  rows: VendorImportRowResult[];
+};
+
+function headerKey(h: string): string {
+  return h.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Column index per field, from the mapping or the default aliases
+function resolveColumns(
+  header: string[],
+  mapping: VendorCsvMapping
+): { columns: Partial<Record<VendorCsvField, number>>; errors: string[] } {
+  const keys = header.map(headerKey);
+  const columns: Partial<Record<VendorCsvField, number>> = {};
+  const errors: string[] = [];
+
+  for (const field of VENDOR_CSV_FIELDS) {
+    const mapped = mapping[field];
+    const idx = mapped
+      ? keys.indexOf(headerKey(mapped))
+      : keys.findIndex(k => HEADER_ALIASES[field].includes(k));
+
+    if (idx !== -1) columns[field] = idx;
+    else if (mapped) errors.push(`Mapped column "${mapped}" for ${field} not found`);
+  }
+
+  if (columns.email === undefined) {
+    errors.push("No email column found; map one with mapping.email");
+  }
+  return { columns, errors };
+}
+
+function parseContacts(cell: string): { contacts: ParsedContact[]; errors: string[] } {
+  const contacts: ParsedContact[] = [];
+  const errors: string[] = [];
+
+  for (const entry of cell.split(LIST_SEPARATOR).map(e => e.trim()).filter(Boolean)) {
+    const [rawEmail, name, role] = entry.split(CONTACT_SEPARATOR).map(p => p.trim());
+    const email = extractEmailAddress(rawEmail);
+    if (!isEmailAddress(email)) {
+      errors.push(`Invalid contact email "${rawEmail}"`);
+      continue;
+    }
+    contacts.push({ email, name: name || null, role: role || null });
+  }
+  return { contacts, errors };
+}
+
+function readRow(
+  cells: string[],
+  columns: Partial<Record<VendorCsvField, number>>
+): { row: VendorCsvRow; errors: string[] } {
+  const cell = (field: VendorCsvField) => {
+    const idx = columns[field];
+    const value = (idx === undefined ? "" : cells[idx] ?? "").trim();
+    // undo the export's formula escaping so the file round-trips
+    const escaped = value.startsWith("'") && FORMULA_START.test(value.slice(1));
+    return (escaped ? value.slice(1) : value) || null;
+  };
+  const errors: string[] = [];
+
+  const email = extractEmailAddress(cell("email"));
+  if (!email) errors.push("email is required");
+  else if (!isEmailAddress(email)) errors.push(`Invalid email "${email}"`);
+
+  const contacts = parseContacts(cell("contacts") ?? "");
+  errors.push(...contacts.errors);
+
+  return {
+    row: {
+      name: cell("name"),
+      email,
+      contactPerson: cell("contactPerson"),
+      notes: cell("notes"),
+      tags: normalizeTags((cell("tags") ?? "").split(LIST_SEPARATOR)) ?? [],
+      contacts: contacts.contacts,
+    },
+    errors,
+  };
+}
+
+// Row contacts whose email already belongs to a different vendor
+async function contactConflicts(
+  organizationId: string,
+  vendorId: string | null,
+  contacts: ParsedContact[]
+): Promise<string[]> {
+  if (contacts.length === 0) return [];
+  const owned = await prisma.vendorContact.findMany({
+    where: { organizationId, email: { in: contacts.map(c => c.email) } },
+  });
+  return owned
+    .filter(c => c.vendorId !== vendorId)
+    .map(c => `Contact ${c.email} belongs to another vendor`);
+}
+
+async function applyRow(
+  organizationId: string,
+  row: VendorCsvRow,
+  existing: Vendor | null,
+  client: Prisma.TransactionClient
+): Promise<Vendor> {
+  const vendor = existing
+    ? await client.vendor.update({
+        where: { id: existing.id },
+        data: {
+          ...(row.name ? { name: row.name } : {}),
+          ...(row.contactPerson ? { contactPerson: row.contactPerson } : {}),
+          ...(row.notes ? { notes: row.notes } : {}),
+          tags: [...new Set([...existing.tags, ...row.tags])],
+        },
+      })
+    : await createVendor(
+        organizationId,
+        {
+          name: row.name!,
+          email: row.email!,
+          contactPerson: row.contactPerson,
+          notes: row.notes,
+          tags: row.tags,
+        },
+        client
+      );
+
+  for (const contact of row.contacts) {
+    await client.vendorContact.upsert({
+      where: { organizationId_email: { organizationId, email: contact.email } },
+      create: { organizationId, vendorId: vendor.id, ...contact },
+      update: { name: contact.name ?? undefined, role: contact.role ?? undefined },
+    });
+  }
+  return vendor;
+}
+
+// Reads the file's rows and what's wrong with each on its own (in-file
+// duplicates included); checks against stored vendors come later
+export function parseVendorCsv(
+  csv: string,
+  mapping: VendorCsvMapping
+): {
+  columns: Partial<Record<VendorCsvField, number>>;
+  headerErrors: string[];
+  rows: { row: VendorCsvRow; errors: string[] }[];
+} {
+  const [header = [], ...data] = parseCsv(csv.replace(/^\uFEFF/, ""));
+  const { columns, errors: headerErrors } = resolveColumns(header, mapping);
+
+  const seen = new Map<string, number>();
+  const rows = data.map((cells, i) => {
+    const read = readRow(cells, columns);
+    if (read.row.email) {
+      const first = seen.get(read.row.email);
+      if (first) read.errors.push(`Duplicate of row ${first}`);
+      else seen.set(read.row.email, i + 1);
+    }
+    return read;
+  });
+  return { columns, headerErrors, rows };
+}
+
+// Validates every row and, unless dryRun, creates or updates (matched on
+// email, including contact emails) the valid ones. Invalid rows are
+// reported and skipped; they don't stop the rest. Each row is written in
+// its own transaction, together with what `audit` records for it.
+export async function importVendorsCsv(
+  organizationId: string,
+  csv: string,
+  opts: {
+    mapping?: VendorCsvMapping;
+    dryRun?: boolean;
+    audit?: AuditInTransaction<VendorImportRowResult>;
+  } = {}
+): Promise<VendorImportResult> {
+  const dryRun = opts.dryRun ?? false;
+  const { columns, headerErrors, rows } = parseVendorCsv(csv, opts.mapping ?? {});
+
+  const result: VendorImportResult = {
+    dryRun,
+    columns,
+    summary: { created: 0, updated: 0, failed: 0 },
+    rows: [],
+  };
+
+  if (headerErrors.length > 0) {
+    result.rows.push({ row: 0, email: null, action: "error", vendorId: null, errors: headerErrors });
+    result.summary.failed = rows.length;
+    return result;
+  }
+
+  // vendor or contact email → the imported row that claimed it
+  const claimed = new Map<string, number>();
+
+  for (const [i, { row, errors }] of rows.entries()) {
+    const rowNumber = i + 1;
+    const rowResult: VendorImportRowResult = {
+      row: rowNumber,
+      email: row.email,
+      action: "error",
+      vendorId: null,
+      errors,
+    };
+    result.rows.push(rowResult);
+
+    const existing = errors.length === 0 ? await findVendorByEmail(organizationId, row.email) : null;
+    if (errors.length === 0 && !existing && !row.name) {
+      errors.push("name is required for a new vendor");
+    }
+    if (errors.length === 0) {
+      errors.push(...(await contactConflicts(organizationId, existing?.id ?? null, row.contacts)));
+    }
+    const emails = [row.email!, ...row.contacts.map(c => c.email)];
+    if (errors.length === 0) {
+      for (const email of new Set(emails)) {
+        const by = claimed.get(email);
+        if (by) errors.push(`${email} is also claimed by row ${by}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      result.summary.failed++;
+      continue;
+    }
+
+    rowResult.action = existing ? "update" : "create";
+    rowResult.vendorId = existing?.id ?? null;
+    for (const email of emails) claimed.set(email, rowNumber);
+
+    if (!dryRun) {
+      try {
+        const vendor = await prisma.$transaction(async tx => {
+          const vendor = await applyRow(organizationId, row, existing, tx);
+          await opts.audit?.(tx, { ...rowResult, vendorId: vendor.id });
+          return vendor;
+        });
+        rowResult.vendorId = vendor.id;
+      } catch (err: any) {
+        if (err.code !== "P2002") throw err;
+        rowResult.action = "error";
+        errors.push("Email already belongs to another vendor");
+        result.summary.failed++;
+        continue;
+      }
+    }
+
+    if (existing) result.summary.updated++;
+    else result.summary.created++;
+  }
+
+  return result;
+}
+
+/* ---------------------------------------------------
+ * Export
+ * --------------------------------------------------*/
+
+function csvCell(value: string | null): string {
+  const raw = value ?? "";
+  const v = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(v) || v !== v.trim() ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+function contactCell(contacts: VendorContact[]): string {
+  return contacts
+    .filter(c => !c.isPrimary)
+    .map(c =>
+      [c.email, c.name ?? "", c.role ?? ""]
+        .join(CONTACT_SEPARATOR)
+        .replace(/\|+$/, "")
+    )
+    .join(`${LIST_SEPARATOR} `);
+}
+
+// Same columns the import reads by default, so the file round-trips
+export async function exportVendorsCsv(
+  organizationId: string,
+  opts: { includeArchived?: boolean } = {}
+): Promise<string> {
+  const vendors = await prisma.vendor.findMany({
+    where: { organizationId, ...(opts.includeArchived ? {} : { archivedAt: null }) },
+    include: { contacts: { orderBy: { createdAt: "asc" } } },
+    orderBy: { name: "asc" },
+  });
+
+  const lines = [VENDOR_CSV_FIELDS.join(",")];
+  for (const v of vendors) {
+    lines.push(
+      [
+        v.name,
+        v.email,
+        v.contactPerson,
+        v.notes,
+        v.tags.join(`${LIST_SEPARATOR} `),
+        contactCell(v.contacts),
+      ]
+        .map(csvCell)
+        .join(",")
+    );
+  }
+  return lines.join("\r\n") + "\r\n";
+}
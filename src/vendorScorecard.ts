@@ -0,0 +1,217 @@
+// src/vendorScorecard.ts
+import { Prisma, Proposal, Vendor } from ".prisma/client";
+import prisma from "./lib/prisma";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type VendorScorecard = {
+  vendorId: string;
+  vendorName: string;
+  rfpsInvited: number;
+  rfpsResponded: number;                // of rfpsInvited
+  responseRate: number | null;          // 0–1, of RFPs invited to
+  averageResponseHours: number | null;  // invitation → first proposal
+  rfpsDecided: number;                  // awarded RFPs they quoted on
+  rfpsWon: number;
+  winRate: number | null;               // 0–1, of rfpsDecided
+  // Their price / the winning price, averaged over decided RFPs they
+  // lost (1.1 = 10% above the winner). Needs comparable prices.
+  averagePriceVsWinner: number | null;
+  // Of the RFPs they won, how often the awarded revision's delivery or
+  // warranty was worse than what they first quoted
+  termChangeRate: number | null;
+  // 0–1 summary of response rate and term stability, null without history
+  reliability: number | null;
+};
+
+type ScorecardOptions = {
+  // leave one RFP out (e.g. the one being compared)
+  excludeRfpId?: string;
+};
+
+function average(values: number[]): number | null {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function round(value: number | null, digits = 3): number | null {
+  if (value === null) return null;
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+function isJsonObject(value: Prisma.JsonValue | undefined): value is Prisma.JsonObject {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Price in the RFP currency as recorded in the award's comparison
+// (proposals[].pricing.convertedAmount), null if the proposal wasn't
+// ranked there
+function evidencePrice(evidence: Prisma.JsonValue, proposalId: string): number | null {
+  if (!isJsonObject(evidence) || !Array.isArray(evidence.proposals)) return null;
+  const entry = evidence.proposals.find(p => isJsonObject(p) && p.id === proposalId);
+  if (!isJsonObject(entry) || !isJsonObject(entry.pricing)) return null;
+  const amount = entry.pricing.convertedAmount;
+  return typeof amount === "number" ? amount : null;
+}
+
+// Awarded terms worse than first quoted: longer delivery or shorter
+// warranty, or a quoted term dropped. Improvements don't count.
+function termsWorsened(first: Proposal, awarded: Proposal): boolean {
+  const worse = (quoted: number | null, final: number | null, better: "lower" | "higher") => {
+    if (quoted === null) return false;
+    if (final === null) return true;
+    return better === "lower" ? final > quoted : final < quoted;
+  };
+  return (
+    worse(first.deliveryDays, awarded.deliveryDays, "lower") ||
+    worse(first.warrantyMonths, awarded.warrantyMonths, "higher")
+  );
+}
+
+type ScorecardHistory = Awaited<ReturnType<typeof loadHistory>>;
+
+// Everything the scorecards of these vendors are computed from, in one
+// query per table
+async function loadHistory(vendorIds: string[], opts: ScorecardOptions) {
+  const notExcluded = opts.excludeRfpId ? { not: opts.excludeRfpId } : undefined;
+
+  const [invitations, outbound, proposals] = await Promise.all([
+    prisma.rfpInvitation.findMany({
+      where: { vendorId: { in: vendorIds }, rfpId: notExcluded },
+    }),
+    // RFPs sent before invitations were tracked
+    prisma.emailMessage.findMany({
+      where: {
+        vendorId: { in: vendorIds },
+        direction: "OUTBOUND",
+        status: "SENT",
+        rfpId: notExcluded ?? { not: null },
+      },
+      select: { vendorId: true, rfpId: true, sentAt: true, createdAt: true },
+    }),
+    prisma.proposal.findMany({
+      where: { vendorId: { in: vendorIds }, rfpId: notExcluded },
+      include: { email: { select: { receivedAt: true } } },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  const awards = await prisma.rfpAward.findMany({
+    where: { rfpId: { in: [...new Set(proposals.map(p => p.rfpId))] } },
+    include: { proposal: true },
+  });
+
+  return { invitations, outbound, proposals, awards };
+}
+
+function buildScorecard(vendor: Vendor, history: ScorecardHistory): VendorScorecard {
+  const vendorId = vendor.id;
+  const invitations = history.invitations.filter(i => i.vendorId === vendorId);
+  const outbound = history.outbound.filter(m => m.vendorId === vendorId);
+  const proposals = history.proposals.filter(p => p.vendorId === vendorId);
+
+  // When the vendor was first asked to quote, per RFP
+  const invitedAt = new Map<string, Date>();
+  for (const mail of outbound) {
+    const at = mail.sentAt ?? mail.createdAt;
+    const known = invitedAt.get(mail.rfpId!);
+    if (!known || at < known) invitedAt.set(mail.rfpId!, at);
+  }
+  for (const inv of invitations) invitedAt.set(inv.rfpId, inv.invitedAt);
+
+  // First and latest proposal per RFP
+  const firstByRfp = new Map<string, (typeof proposals)[number]>();
+  const latestByRfp = new Map<string, (typeof proposals)[number]>();
+  for (const p of proposals) {
+    if (!firstByRfp.has(p.rfpId)) firstByRfp.set(p.rfpId, p);
+    if (p.isLatest) latestByRfp.set(p.rfpId, p);
+  }
+
+  const respondedInvited = [...invitedAt.keys()].filter(id => firstByRfp.has(id));
+  const responseHours = respondedInvited.map(rfpId => {
+    const first = firstByRfp.get(rfpId)!;
+    const receivedAt = first.email?.receivedAt ?? first.createdAt;
+    return Math.max(0, receivedAt.getTime() - invitedAt.get(rfpId)!.getTime()) / HOUR_MS;
+  });
+
+  const awards = history.awards.filter(a => firstByRfp.has(a.rfpId));
+  const won = awards.filter(a => a.vendorId === vendorId);
+
+  const priceRatios: number[] = [];
+  for (const award of awards) {
+    if (award.vendorId === vendorId) continue;
+    const own = latestByRfp.get(award.rfpId);
+    if (!own) continue;
+
+    let ownPrice = evidencePrice(award.evidence, own.id);
+    let winnerPrice = evidencePrice(award.evidence, award.proposalId);
+    if (ownPrice === null || winnerPrice === null) {
+      const sameCurrency =
+        (own.currency ?? "").toUpperCase() === (award.proposal.currency ?? "").toUpperCase();
+      ownPrice = sameCurrency ? own.totalPrice : null;
+      winnerPrice = sameCurrency ? award.proposal.totalPrice : null;
+    }
+    if (ownPrice !== null && winnerPrice) priceRatios.push(ownPrice / winnerPrice);
+  }
+
+  const termChanges = won.map(award =>
+    termsWorsened(firstByRfp.get(award.rfpId)!, award.proposal)
+  );
+
+  const responseRate = invitedAt.size ? respondedInvited.length / invitedAt.size : null;
+  const termChangeRate = won.length
+    ? termChanges.filter(Boolean).length / won.length
+    : null;
+
+  const reliabilityParts = [
+    responseRate,
+    termChangeRate === null ? null : 1 - termChangeRate,
+  ].filter((v): v is number => v !== null);
+
+  return {
+    vendorId: vendor.id,
+    vendorName: vendor.name,
+    rfpsInvited: invitedAt.size,
+    rfpsResponded: respondedInvited.length,
+    responseRate: round(responseRate),
+    averageResponseHours: round(average(responseHours), 1),
+    rfpsDecided: awards.length,
+    rfpsWon: won.length,
+    winRate: round(awards.length ? won.length / awards.length : null),
+    averagePriceVsWinner: round(average(priceRatios)),
+    termChangeRate: round(termChangeRate),
+    reliability: round(average(reliabilityParts)),
+  };
+}
+
+export async function computeVendorScorecard(
+  vendorId: string,
+  opts: ScorecardOptions = {}
+): Promise<VendorScorecard | null> {
+  const vendor = await prisma.vendor.findUnique({ where: { id: vendorId } });
+  if (!vendor) return null;
+
+  return buildScorecard(vendor, await loadHistory([vendorId], opts));
+}
+
+// vendorId → reliability (0–1) for the "vendorReliability" criterion.
+// Vendors without history are left out and score neutral.
+export async function vendorReliabilityScores(
+  vendorIds: string[],
+  opts: ScorecardOptions = {}
+): Promise<Record<string, number>> {
+  const ids = [...new Set(vendorIds)];
+  if (ids.length === 0) return {};
+
+  const [vendors, history] = await Promise.all([
+    prisma.vendor.findMany({ where: { id: { in: ids } } }),
+    loadHistory(ids, opts),
+  ]);
+
+  const scores: Record<string, number> = {};
+  for (const vendor of vendors) {
+    const card = buildScorecard(vendor, history);
+    if (card.reliability != null) scores[vendor.id] = card.reliability;
+  }
+  return scores;
+}
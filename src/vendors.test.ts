@@ -0,0 +1,38 @@
+// src/vendors.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+
+// vendors.ts builds the Prisma client on import, which never connects
+// unless queried
+process.env.DATABASE_URL ??= "postgres://localhost/vendors-test";
+
+test("merged vendors' quotes on the same RFP become one revision chain", async () => {
+  const { planRevisionJoins } = await import("./vendors");
+
+  // oldest first, as mergeVendors loads them
+  const joins = planRevisionJoins([
+    { id: "survivor-r2", rfpId: "rfp-1", revision: 2, threadId: "survivor-r1" },
+    { id: "dup-other", rfpId: "rfp-2", revision: 1, threadId: null },
+    { id: "dup-r3", rfpId: "rfp-1", revision: 3, threadId: "dup-r1" },
+  ]);
+
+  assert.deepEqual(joins, [
+    { tailId: "survivor-r2", headId: "dup-r1", threadId: "survivor-r1", revisionOffset: 2 },
+  ]);
+});
+
+test("a third quote on the same RFP continues after the joined chain", async () => {
+  const { planRevisionJoins } = await import("./vendors");
+
+  const joins = planRevisionJoins([
+    { id: "a", rfpId: "rfp-1", revision: 1, threadId: null },
+    { id: "b", rfpId: "rfp-1", revision: 2, threadId: "b0" },
+    { id: "c", rfpId: "rfp-1", revision: 1, threadId: null },
+  ]);
+
+  // b's thread (revisions 1–2) becomes revisions 2–3 of a's; c follows as 4
+  assert.deepEqual(joins, [
+    { tailId: "a", headId: "b0", threadId: "a", revisionOffset: 1 },
+    { tailId: "b", headId: "c", threadId: "a", revisionOffset: 3 },
+  ]);
+});
@@ -0,0 +1,329 @@
+// src/vendors.ts
+import { Prisma, Vendor, VendorContact } from ".prisma/client";
+import prisma from "./lib/prisma";
+import { extractEmailAddress } from "./utils/email";
+import { AuditInTransaction } from "./audit";
+import {
+  domainOf,
+  isFreemailDomain,
+  normalizeCompany,
+  similarity,
+} from "./utils/company";
+
+const DUPLICATE_MIN_SCORE = 0.6;
+const NAME_MIN_SIMILARITY = 0.8;
+// a merged vendor can itself have been merged; don't follow forever
+const MAX_MERGE_HOPS = 5;
+
+export type VendorInput = {
+  name: string;
+  email: string;
+  contactPerson?: string | null;
+  notes?: string | null;
+  tags?: string[];
+};
+
+export type DuplicateVendorPair = {
+  vendorIds: [string, string];
+  names: [string, string];
+  score: number;       // 0–1
+  reasons: string[];
+};
+
+// Lowercased, trimmed, de-duplicated; null when the input isn't a string array
+export function normalizeTags(raw: unknown): string[] | null {
+  if (!Array.isArray(raw) || raw.some(t => typeof t !== "string")) return null;
+  return [...new Set((raw as string[]).map(t => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+// The primary contact is created alongside the vendor
+export function createVendor(
+  organizationId: string,
+  input: VendorInput,
+  client: Prisma.TransactionClient = prisma
+) {
+  return client.vendor.create({
+    data: {
+      organizationId,
+      name: input.name,
+      email: input.email,
+      contactPerson: input.contactPerson ?? null,
+      notes: input.notes ?? null,
+      tags: input.tags ?? [],
+      contacts: {
+        create: {
+          organizationId,
+          email: extractEmailAddress(input.email)!,
+          name: input.contactPerson ?? null,
+          isPrimary: true,
+        },
+      },
+    },
+    include: { contacts: true },
+  });
+}
+
+// Changing the vendor's email moves its primary contact along
+export async function updateVendor(
+  vendor: Vendor,
+  data: Partial<VendorInput>,
+  audit?: AuditInTransaction<Vendor & { contacts: VendorContact[] }>
+) {
+  return prisma.$transaction(async tx => {
+    if (data.email !== undefined && data.email !== vendor.email) {
+      await tx.vendorContact.deleteMany({
+        where: { vendorId: vendor.id, isPrimary: true },
+      });
+      await tx.vendorContact.create({
+        data: {
+          organizationId: vendor.organizationId,
+          vendorId: vendor.id,
+          email: extractEmailAddress(data.email)!,
+          name: data.contactPerson ?? vendor.contactPerson,
+          isPrimary: true,
+        },
+      });
+    }
+
+    const updated = await tx.vendor.update({
+      where: { id: vendor.id },
+      data,
+      include: { contacts: true },
+    });
+    await audit?.(tx, updated);
+    return updated;
+  });
+}
+
+// The organization's vendor an inbound address belongs to, via any of its
+// contacts. A vendor merged into another resolves to the one it was merged
+// into.
+export async function findVendorByEmail(
+  organizationId: string,
+  address: string | null
+): Promise<Vendor | null> {
+  const email = extractEmailAddress(address);
+  if (!email) return null;
+
+  const contact = await prisma.vendorContact.findUnique({
+    where: { organizationId_email: { organizationId, email } },
+    include: { vendor: true },
+  });
+  let vendor =
+    contact?.vendor ??
+    (await prisma.vendor.findFirst({
+      where: { organizationId, email: { equals: email, mode: "insensitive" } },
+    }));
+
+  for (let hop = 0; vendor?.mergedIntoId && hop < MAX_MERGE_HOPS; hop++) {
+    vendor = await prisma.vendor.findUnique({ where: { id: vendor.mergedIntoId } });
+  }
+  return vendor;
+}
+
+/* ---------------------------------------------------
+ * Duplicates
+ * --------------------------------------------------*/
+
+// Pairs of active vendors that look like the same company: a shared
+// (non-freemail) contact domain and/or a very similar name
+export async function findDuplicateVendors(
+  organizationId: string
+): Promise<DuplicateVendorPair[]> {
+  const vendors = await prisma.vendor.findMany({
+    where: { organizationId, archivedAt: null },
+    include: { contacts: { select: { email: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const profiles = vendors.map(v => ({
+    vendor: v,
+    name: normalizeCompany(v.name),
+    domains: new Set(
+      [v.email, ...v.contacts.map(c => c.email)]
+        .map(domainOf)
+        .filter((d): d is string => !!d && !isFreemailDomain(d))
+    ),
+  }));
+
+  const pairs: DuplicateVendorPair[] = [];
+  for (let i = 0; i < profiles.length; i++) {
+    for (let j = i + 1; j < profiles.length; j++) {
+      const a = profiles[i];
+      const b = profiles[j];
+      const reasons: string[] = [];
+      let score = 0;
+
+      const shared = [...a.domains].filter(d => b.domains.has(d));
+      if (shared.length > 0) {
+        score = 0.7;
+        reasons.push(`Shared email domain ${shared.join(", ")}`);
+      }
+
+      const nameScore = similarity(a.name, b.name);
+      if (nameScore >= NAME_MIN_SIMILARITY) {
+        score = Math.max(score, nameScore) + (score > 0 ? 0.2 : 0);
+        reasons.push(`Similar names (${Math.round(nameScore * 100)}%)`);
+      }
+
+      score = Math.min(1, Math.round(score * 100) / 100);
+      if (score >= DUPLICATE_MIN_SCORE) {
+        pairs.push({
+          vendorIds: [a.vendor.id, b.vendor.id],
+          names: [a.vendor.name, b.vendor.name],
+          score,
+          reasons,
+        });
+      }
+    }
+  }
+
+  return pairs.sort((x, y) => y.score - x.score);
+}
+
+export type RevisionJoin = {
+  tailId: string;         // latest revision that gets a next one
+  headId: string;         // first revision of the thread continuing it
+  threadId: string;       // thread the continuing revisions join
+  revisionOffset: number; // added to the continuing revisions' numbers
+};
+
+// Latest revisions of merged vendors, oldest first. Where several quote
+// the same RFP, each thread continues the one before it.
+export function planRevisionJoins(
+  latest: { id: string; rfpId: string; revision: number; threadId: string | null }[]
+): RevisionJoin[] {
+  const joins: RevisionJoin[] = [];
+  const tailByRfp = new Map<string, (typeof latest)[number]>();
+
+  for (const p of latest) {
+    const tail = tailByRfp.get(p.rfpId);
+    if (!tail) {
+      tailByRfp.set(p.rfpId, p);
+      continue;
+    }
+
+    const threadId = tail.threadId ?? tail.id;
+    joins.push({
+      tailId: tail.id,
+      headId: p.threadId ?? p.id,
+      threadId,
+      revisionOffset: tail.revision,
+    });
+    tailByRfp.set(p.rfpId, { ...p, threadId, revision: p.revision + tail.revision });
+  }
+  return joins;
+}
+
+// Moves everything the duplicate owns (proposals, emails, invitations,
+// reminders, awards, contacts, tags) onto the survivor and archives the
+// duplicate pointing at it. The survivor must be active.
+export async function mergeVendors(
+  survivor: Vendor,
+  duplicate: Vendor,
+  audit?: AuditInTransaction<Vendor & { contacts: VendorContact[] }>
+) {
+  const now = new Date();
+
+  return prisma.$transaction(async tx => {
+    const [ownInvitations, dupInvitations] = await Promise.all([
+      tx.rfpInvitation.findMany({ where: { vendorId: survivor.id } }),
+      tx.rfpInvitation.findMany({ where: { vendorId: duplicate.id } }),
+    ]);
+
+    for (const inv of dupInvitations) {
+      const own = ownInvitations.find(o => o.rfpId === inv.rfpId);
+      if (!own) {
+        await tx.rfpInvitation.update({
+          where: { id: inv.id },
+          data: { vendorId: survivor.id },
+        });
+        continue;
+      }
+      // both were invited: a response from either counts
+      if (inv.status === "RESPONDED" && own.status !== "RESPONDED") {
+        await tx.rfpInvitation.update({
+          where: { id: own.id },
+          data: { status: "RESPONDED", respondedAt: inv.respondedAt },
+        });
+      }
+      await tx.rfpInvitation.delete({ where: { id: inv.id } });
+    }
+
+    // Both quoted on the same RFP: the newer thread continues the older
+    // one, so the older latest revision gets a next revision and the
+    // chain stays walkable. Done before the proposals move: a vendor can
+    // only have one latest revision per RFP.
+    const latest = await tx.proposal.findMany({
+      where: { vendorId: { in: [survivor.id, duplicate.id] }, isLatest: true },
+      orderBy: { createdAt: "asc" },
+      select: { id: true, rfpId: true, revision: true, threadId: true },
+    });
+    for (const join of planRevisionJoins(latest)) {
+      const thread = await tx.proposal.findMany({
+        where: { OR: [{ id: join.headId }, { threadId: join.headId }] },
+        select: { id: true, revision: true },
+      });
+      await tx.proposal.update({ where: { id: join.tailId }, data: { isLatest: false } });
+      for (const rev of thread) {
+        await tx.proposal.update({
+          where: { id: rev.id },
+          data: {
+            threadId: join.threadId,
+            revision: rev.revision + join.revisionOffset,
+            ...(rev.id === join.headId ? { previousRevisionId: join.tailId } : {}),
+          },
+        });
+      }
+    }
+
+    const moved = { vendorId: survivor.id };
+    const where = { vendorId: duplicate.id };
+    await tx.proposal.updateMany({ where, data: moved });
+    await tx.emailMessage.updateMany({ where, data: moved });
+    await tx.reminder.updateMany({ where, data: moved });
+    await tx.rfpAward.updateMany({ where, data: moved });
+    await tx.vendorContact.updateMany({ where, data: { ...moved, isPrimary: false } });
+    await tx.vendor.updateMany({
+      where: { mergedIntoId: duplicate.id },
+      data: { mergedIntoId: survivor.id },
+    });
+
+    await tx.vendor.update({
+      where: { id: duplicate.id },
+      data: { archivedAt: now, mergedIntoId: survivor.id },
+    });
+
+    const merged = await tx.vendor.update({
+      where: { id: survivor.id },
+      data: { tags: [...new Set([...survivor.tags, ...duplicate.tags])] },
+      include: { contacts: true },
+    });
+    await audit?.(tx, merged);
+    return merged;
+  });
+}
+
+// Shared by /send and the invitation endpoints: active vendors by id, or
+// why some can't be invited
+export async function resolveVendorsToInvite(
+  organizationId: string,
+  vendorIds: string[]
+): Promise<{ vendors: Vendor[]; missing: string[]; archived: string[] }> {
+  const vendors = await prisma.vendor.findMany({
+    where: { organizationId, id: { in: vendorIds } },
+  });
+
+  return {
+    vendors: vendors.filter(v => !v.archivedAt),
+    missing: vendorIds.filter(id => !vendors.some(v => v.id === id)),
+    archived: vendors.filter(v => v.archivedAt).map(v => v.id),
+  };
+}
+
+// Active vendors carrying any of the tags
+export function vendorsWithTags(organizationId: string, tags: string[]) {
+  return prisma.vendor.findMany({
+    where: { organizationId, archivedAt: null, tags: { hasSome: tags } },
+  });
+}